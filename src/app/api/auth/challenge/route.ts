@@ -0,0 +1,37 @@
+/// @notice Imports Next.js request and response helpers for building typed API routes.
+import { NextRequest, NextResponse } from "next/server";
+/// @notice Imports the public key type used to validate the wallet address.
+import { PublicKey } from "@solana/web3.js";
+/// @notice Issues the Sign-In-With-Solana challenge.
+import { issueSignInChallenge } from "@/lib/auth/siws";
+/// @notice Names the cluster the session is for.
+import { loadClusterConfig } from "@/lib/cluster";
+/// @notice Applies per-IP request limits.
+import { checkRateLimit } from "@/lib/quota/rateLimit";
+/// @notice Shares the structured refusal format with the other routes.
+import { SponsorshipError, sponsorshipErrorResponse } from "@/lib/sponsorship/errors";
+
+/// @notice Returns a Sign-In-With-Solana message for User A to sign, with a single-use nonce and a five-minute expiry.
+export async function POST(request: NextRequest) {
+  const rateLimited = await checkRateLimit(request, "auth:challenge");
+  if (rateLimited) {
+    return rateLimited;
+  }
+  try {
+    const { address } = await request.json();
+    let wallet: string;
+    try {
+      wallet = new PublicKey(String(address).trim()).toBase58();
+    } catch {
+      throw new SponsorshipError("INVALID_ADDRESS", "Invalid Solana address format");
+    }
+    const challenge = issueSignInChallenge(
+      wallet,
+      new URL(request.nextUrl.origin),
+      loadClusterConfig().name
+    );
+    return NextResponse.json({ status: "SUCCESS", ...challenge });
+  } catch (error) {
+    return sponsorshipErrorResponse(error, "Failed to issue sign-in challenge");
+  }
+}
@@ -0,0 +1,26 @@
+/// @notice Imports Next.js request and response helpers for building typed API routes.
+import { NextRequest, NextResponse } from "next/server";
+/// @notice Reads and clears the session cookie.
+import { clearSessionCookie, readSession } from "@/lib/auth/session";
+/// @notice Applies per-IP request limits.
+import { checkRateLimit } from "@/lib/quota/rateLimit";
+
+/// @notice Reports the caller's session, or null when they are not signed in.
+export async function GET(request: NextRequest) {
+  const rateLimited = await checkRateLimit(request, "auth:session");
+  if (rateLimited) {
+    return rateLimited;
+  }
+  return NextResponse.json({ status: "SUCCESS", session: readSession(request) });
+}
+
+/// @notice Signs the caller out by clearing the session cookie.
+export async function DELETE(request: NextRequest) {
+  const rateLimited = await checkRateLimit(request, "auth:session");
+  if (rateLimited) {
+    return rateLimited;
+  }
+  const response = NextResponse.json({ status: "SUCCESS", session: null });
+  clearSessionCookie(response);
+  return response;
+}
@@ -0,0 +1,43 @@
+/// @notice Imports Next.js request and response helpers for building typed API routes.
+import { NextRequest, NextResponse } from "next/server";
+/// @notice Verifies the signed challenge.
+import { verifySignIn } from "@/lib/auth/siws";
+/// @notice Starts the session and stores it in a cookie.
+import { issueSession, setSessionCookie } from "@/lib/auth/session";
+/// @notice Names the cluster the session is for.
+import { loadClusterConfig } from "@/lib/cluster";
+/// @notice Applies per-IP request limits.
+import { checkRateLimit } from "@/lib/quota/rateLimit";
+/// @notice Shares the structured refusal format with the other routes.
+import { SponsorshipError, sponsorshipErrorResponse } from "@/lib/sponsorship/errors";
+
+/// @notice Redeems a signed challenge for a short-lived session cookie.
+export async function POST(request: NextRequest) {
+  const rateLimited = await checkRateLimit(request, "auth:verify");
+  if (rateLimited) {
+    return rateLimited;
+  }
+  try {
+    const { message, token, signature } = await request.json();
+    if (
+      typeof message !== "string" ||
+      typeof token !== "string" ||
+      typeof signature !== "string"
+    ) {
+      throw new SponsorshipError("INVALID_REQUEST", "message, token, and signature are required");
+    }
+    const wallet = await verifySignIn(
+      message,
+      token,
+      signature,
+      new URL(request.nextUrl.origin),
+      loadClusterConfig().name
+    );
+    const { session, token: sessionToken } = issueSession(wallet);
+    const response = NextResponse.json({ status: "SUCCESS", session });
+    setSessionCookie(response, sessionToken, session);
+    return response;
+  } catch (error) {
+    return sponsorshipErrorResponse(error, "Failed to verify sign-in");
+  }
+}
@@ -0,0 +1,46 @@
+/// @notice Imports Next.js request and response helpers for building typed API routes.
+import { NextRequest, NextResponse } from "next/server";
+/// @notice Reads many balances in one batched RPC round trip.
+import {
+  MAX_BALANCE_ADDRESSES,
+  MAX_BALANCE_MINTS,
+  fetchBalances,
+} from "@/lib/solana/balances";
+/// @notice Shares the structured refusal format with the other routes.
+import { SponsorshipError, sponsorshipErrorResponse } from "@/lib/sponsorship/errors";
+/// @notice Applies per-IP request limits.
+import { checkRateLimit } from "@/lib/quota/rateLimit";
+
+/// @notice Reads a list of trimmed strings from the body, refusing anything else or a list that is too long.
+const parseList = (value: unknown, field: string, max: number) => {
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+    throw new SponsorshipError("INVALID_REQUEST", `${field} must be an array of addresses.`);
+  }
+  if (value.length > max) {
+    throw new SponsorshipError("INVALID_REQUEST", `${field} can have at most ${max} entries.`);
+  }
+  return (value as string[]).map((item) => item.trim());
+};
+
+/// @notice Returns SOL balances and per-mint token balances (raw amounts with decimals) for many addresses, with an error per address instead of failing the whole lookup.
+export async function POST(request: NextRequest) {
+  const rateLimited = await checkRateLimit(request, "balances");
+  if (rateLimited) {
+    return rateLimited;
+  }
+  try {
+    const { addresses, mints = [], fresh } = await request.json();
+    const addressList = parseList(addresses, "addresses", MAX_BALANCE_ADDRESSES);
+    if (!addressList.length) {
+      throw new SponsorshipError("INVALID_REQUEST", "addresses must list at least one address.");
+    }
+    const result = await fetchBalances(
+      addressList,
+      parseList(mints, "mints", MAX_BALANCE_MINTS),
+      fresh === true
+    );
+    return NextResponse.json({ status: "SUCCESS", ...result });
+  } catch (error) {
+    return sponsorshipErrorResponse(error, "Failed to get balances");
+  }
+}
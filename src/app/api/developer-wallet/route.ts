@@ -1,36 +1,27 @@
 /// @notice Imports Next.js primitives for handling API requests and responses within the App Router.
-import { NextResponse } from "next/server";
-/// @notice Ensures the MetaKeep API key exists on the server before proxying requests.
-import { requireServerEnv } from "@/lib/env";
+import { NextRequest, NextResponse } from "next/server";
+/// @notice Resolves the developer wallet from the sponsor signer so its key stays on the server.
+import { getDeveloperWalletAddress } from "@/lib/developerWallet";
+/// @notice Reports mapped MetaKeep failures with their codes and statuses.
+import { sponsorshipErrorResponse } from "@/lib/sponsorship/errors";
+/// @notice Applies per-IP request limits.
+import { checkRateLimit } from "@/lib/quota/rateLimit";
+/// @notice Limits the route to signed-in users.
+import { requireSession } from "@/lib/auth/session";
 
-/// @notice Proxies a request to MetaKeep to retrieve the developer wallet metadata.
-export async function POST() {
+/// @notice Returns the developer wallet address, in MetaKeep's `getDeveloperWallet` shape, for a signed-in user; answered locally when the sponsor signer is a local keypair.
+export async function POST(request: NextRequest) {
+  const rateLimited = await checkRateLimit(request, "developer-wallet");
+  if (rateLimited) {
+    return rateLimited;
+  }
   try {
-    const apiKey = requireServerEnv("METAKEEP_API_KEY");
-    const response = await fetch("https://api.metakeep.xyz/v3/getDeveloperWallet", {
-      method: "POST",
-      headers: {
-        accept: "application/json",
-        "content-type": "application/json",
-        "x-api-key": apiKey,
-      },
-      body: JSON.stringify({ id: "master" }),
-      cache: "no-store",
+    requireSession(request);
+    return NextResponse.json({
+      status: "SUCCESS",
+      wallet: { solAddress: await getDeveloperWalletAddress() },
     });
-    if (!response.ok) {
-      throw new Error(`MetaKeep developer wallet lookup failed with ${response.status}.`);
-    }
-    const data = await response.json();
-    return NextResponse.json(data);
   } catch (error) {
-    console.error("Developer wallet fetch failed", error);
-    return NextResponse.json(
-      {
-        error: "Failed to fetch developer wallet",
-        details: error instanceof Error ? error.message : "Unknown error",
-      },
-      { status: 500 }
-    );
+    return sponsorshipErrorResponse(error, "Failed to fetch developer wallet");
   }
 }
-
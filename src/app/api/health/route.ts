@@ -0,0 +1,25 @@
+/// @notice Imports Next.js request and response helpers for building typed API routes.
+import { NextRequest, NextResponse } from "next/server";
+/// @notice Reads the cached sponsor health snapshot.
+import { getSponsorHealth } from "@/lib/health/monitor";
+/// @notice Applies per-IP request limits.
+import { checkRateLimit } from "@/lib/quota/rateLimit";
+/// @notice Shares the structured error format with the other routes.
+import { sponsorshipErrorResponse } from "@/lib/sponsorship/errors";
+
+/// @notice Reports MetaKeep and RPC reachability, the developer wallet balance, and its runway; answers 503 while the sponsor is critical so uptime monitors can alert on the status alone.
+export async function GET(request: NextRequest) {
+  const rateLimited = await checkRateLimit(request, "health");
+  if (rateLimited) {
+    return rateLimited;
+  }
+  try {
+    const health = await getSponsorHealth();
+    return NextResponse.json(
+      { status: "SUCCESS", health },
+      { status: health.level === "critical" ? 503 : 200 }
+    );
+  } catch (error) {
+    return sponsorshipErrorResponse(error, "Failed to check sponsor health");
+  }
+}
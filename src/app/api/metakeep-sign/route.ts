@@ -1,38 +1,117 @@
 /// @notice Imports the Next.js response helper to format JSON replies.
-import { NextRequest, NextResponse } from "next/server";
-/// @notice Validates that the MetaKeep API key exists before proxying signing requests.
-import { requireServerEnv } from "@/lib/env";
+import { NextRequest, NextResponse, after } from "next/server";
+/// @notice Encodes the fee-payer signature as the base58 transaction id.
+import bs58 from "bs58";
+/// @notice Resolves the developer wallet that the policy protects and signs with it.
+import { getDeveloperWalletAddress, signWithDeveloperWallet } from "@/lib/developerWallet";
+/// @notice Decodes and vets the message before the sponsor signer is asked to sign it.
+import {
+  decodeSponsoredMessage,
+  evaluateSponsorPolicy,
+  loadSponsorPolicy,
+} from "@/lib/sponsorship/policy";
+/// @notice Resolves address lookup tables referenced by v0 messages.
+import { resolveMessageLookupTables } from "@/lib/sponsorship/transactionFormat";
+/// @notice Prices the sponsorship so it can be charged against quotas.
+import { estimateSponsorCost, sponsoredLamports } from "@/lib/sponsorship/cost";
+/// @notice Provides the server-side RPC connection used for pricing.
+import { getServerConnection } from "@/lib/solana/connection";
+/// @notice Reserves sponsorship budgets before signing and releases them when signing fails.
+import { releaseSponsorshipUsage, reserveSponsorshipUsage } from "@/lib/quota/quota";
+/// @notice Records the sponsorship in the ledger and follows its confirmation.
+import {
+  describeSponsorship,
+  markSponsorshipFailed,
+  openSponsorship,
+  recordSponsorshipSignature,
+  trackSponsorshipConfirmation,
+} from "@/lib/ledger/ledger";
+/// @notice Converts the hex developer signature to bytes.
+import { hexToUint8Array } from "@/lib/hex";
+/// @notice Applies per-IP request limits.
+import { checkRateLimit } from "@/lib/quota/rateLimit";
+/// @notice Requires a session whose wallet is the message's token authority.
+import { assertSessionWallet, requireSession } from "@/lib/auth/session";
+/// @notice Shares the structured refusal format with the other sponsorship routes.
+import { SponsorshipError, sponsorshipErrorResponse } from "@/lib/sponsorship/errors";
 
-/// @notice Proxies transaction-signing requests to MetaKeep so the developer wallet can cover gas.
+/// @notice Signs a transaction message with the developer wallet (through MetaKeep or the local keypair, per `SPONSOR_SIGNER`) once it passes the sponsorship policy; the response keeps MetaKeep's shape.
 export async function POST(request: NextRequest) {
+  const rateLimited = await checkRateLimit(request, "metakeep-sign");
+  if (rateLimited) {
+    return rateLimited;
+  }
   try {
-    const apiKey = requireServerEnv("METAKEEP_API_KEY");
+    const session = requireSession(request);
     const body = await request.json();
-    const response = await fetch("https://api.metakeep.xyz/v2/app/sign/transaction", {
-      method: "POST",
-      headers: {
-        accept: "application/json",
-        "content-type": "application/json",
-        "x-api-key": apiKey,
-      },
-      body: JSON.stringify(body),
-      cache: "no-store",
-    });
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`MetaKeep signing error ${response.status}: ${errorText}`);
+    const serializedMessageHex = body?.transactionObject?.serializedTransactionMessage;
+    if (typeof serializedMessageHex !== "string") {
+      throw new SponsorshipError(
+        "INVALID_REQUEST",
+        "transactionObject.serializedTransactionMessage is required"
+      );
+    }
+
+    let message;
+    try {
+      message = decodeSponsoredMessage(serializedMessageHex);
+    } catch (error) {
+      throw new SponsorshipError(
+        "INVALID_MESSAGE",
+        error instanceof Error ? error.message : "Message could not be decoded."
+      );
+    }
+    const connection = getServerConnection();
+    const policy = loadSponsorPolicy(await getDeveloperWalletAddress());
+    const decision = evaluateSponsorPolicy(
+      message,
+      policy,
+      await resolveMessageLookupTables(connection, message)
+    );
+    if (!decision.allowed) {
+      const { code, reason, instructionIndex } = decision.violation;
+      throw new SponsorshipError(code, reason, 403, { instructionIndex });
+    }
+    assertSessionWallet(
+      session,
+      decision.summary.transfers.map((transfer) => transfer.authority)
+    );
+    const cost = await estimateSponsorCost(connection, message, decision.summary);
+    const chargedWallet = decision.summary.transfers[0]?.authority ?? decision.summary.feePayer;
+    const reservationId = await reserveSponsorshipUsage(chargedWallet, sponsoredLamports(cost));
+
+    const ledgerId = await openSponsorship(
+      await describeSponsorship(connection, chargedWallet, decision.summary, cost)
+    );
+    let data;
+    try {
+      data = await signWithDeveloperWallet(
+        serializedMessageHex,
+        typeof body.reason === "string" ? body.reason : "Developer gas sponsorship"
+      );
+    } catch (error) {
+      await releaseSponsorshipUsage(reservationId);
+      await markSponsorshipFailed(
+        ledgerId,
+        error instanceof Error ? error.message : "Unknown error"
+      );
+      throw error;
     }
-    const data = await response.json();
+    const signature = bs58.encode(hexToUint8Array(data.signature));
+    /// @notice Once signed, the signature is returned even if bookkeeping fails, since the caller can broadcast it; the record stays `signed` until the tracker sees it on chain.
+    await recordSponsorshipSignature(ledgerId, reservationId, signature, "signed");
+    after(() =>
+      trackSponsorshipConfirmation(
+        connection,
+        ledgerId,
+        signature,
+        message.recentBlockhash,
+        decision.summary.nonceAccount,
+        true
+      )
+    );
     return NextResponse.json(data);
   } catch (error) {
-    console.error("MetaKeep signing proxy failed", error);
-    return NextResponse.json(
-      {
-        error: "Failed to sign transaction with MetaKeep",
-        details: error instanceof Error ? error.message : "Unknown error",
-      },
-      { status: 500 }
-    );
+    return sponsorshipErrorResponse(error, "Failed to sign transaction with the developer wallet");
   }
 }
-
@@ -0,0 +1,48 @@
+/// @notice Imports Next.js request and response helpers for building typed API routes.
+import { NextRequest, NextResponse, after } from "next/server";
+/// @notice Identifies the calling client app by its API key.
+import { authenticateRelayerClient } from "@/lib/relayer/clients";
+/// @notice Verifies, co-signs, and broadcasts the client's transaction.
+import { relaySponsoredTransaction } from "@/lib/relayer/relay";
+/// @notice Follows the broadcast transaction to update the ledger after the response is sent.
+import { trackSponsorshipConfirmation } from "@/lib/ledger/ledger";
+/// @notice Provides the server-side RPC connection used for confirmation tracking.
+import { getServerConnection } from "@/lib/solana/connection";
+/// @notice Shares the structured refusal format with the other sponsorship routes.
+import { SponsorshipError, sponsorshipErrorResponse } from "@/lib/sponsorship/errors";
+/// @notice Applies per-IP request limits.
+import { checkRateLimit } from "@/lib/quota/rateLimit";
+
+/// @notice Accepts a partially signed transaction from an approved client app, with the developer wallet as fee payer, and returns its signature once co-signed and broadcast.
+export async function POST(request: NextRequest) {
+  const rateLimited = await checkRateLimit(request, "relay");
+  if (rateLimited) {
+    return rateLimited;
+  }
+  try {
+    const client = authenticateRelayerClient(request);
+    const { transaction, reason } = await request.json();
+    if (typeof transaction !== "string") {
+      throw new SponsorshipError(
+        "INVALID_REQUEST",
+        "transaction (base64 serialized, partially signed) is required"
+      );
+    }
+    const relayed = await relaySponsoredTransaction(
+      client,
+      transaction,
+      typeof reason === "string" ? reason : undefined
+    );
+    after(() =>
+      trackSponsorshipConfirmation(
+        getServerConnection(),
+        relayed.ledgerId,
+        relayed.signature,
+        relayed.blockhash
+      )
+    );
+    return NextResponse.json({ status: "SUCCESS", clientId: client.id, ...relayed });
+  } catch (error) {
+    return sponsorshipErrorResponse(error, "Failed to relay transaction");
+  }
+}
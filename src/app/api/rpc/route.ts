@@ -0,0 +1,67 @@
+/// @notice Imports Next.js request and response helpers for building typed API routes.
+import { NextRequest, NextResponse } from "next/server";
+/// @notice Reads the proxy's own request limit.
+import { requireNumericServerEnv } from "@/lib/env";
+/// @notice Forwards calls through the RPC pool.
+import { getRpcPool } from "@/lib/solana/rpcPool";
+/// @notice Shares the structured refusal format with the other routes.
+import { SponsorshipError, sponsorshipErrorResponse } from "@/lib/sponsorship/errors";
+/// @notice Applies per-IP request limits.
+import { checkRateLimit } from "@/lib/quota/rateLimit";
+/// @notice Limits the proxy to signed-in users, so third parties cannot spend the operator's RPC quota.
+import { requireSession } from "@/lib/auth/session";
+
+/// @notice Read-only methods the browser connection uses (confirmation polling, block height, nonce reads).
+const PROXIED_METHODS = new Set([
+  "getVersion",
+  "getSlot",
+  "getBlockHeight",
+  "getLatestBlockhash",
+  "isBlockhashValid",
+  "getSignatureStatuses",
+  "getAccountInfo",
+  "getBalance",
+]);
+
+/// @notice Largest JSON-RPC batch the proxy forwards.
+const MAX_BATCH_SIZE = 10;
+
+/// @notice Forwards a signed-in browser's read-only JSON-RPC calls through the server's RPC pool, so the browser shares its failover and health tracking.
+export async function POST(request: NextRequest) {
+  const rateLimited = await checkRateLimit(
+    request,
+    "rpc",
+    requireNumericServerEnv("RPC_PROXY_MAX_REQUESTS", "120")
+  );
+  if (rateLimited) {
+    return rateLimited;
+  }
+  try {
+    requireSession(request);
+    const body = await request.json();
+    const calls: unknown[] = Array.isArray(body) ? body : [body];
+    const refused = calls.find(
+      (call) => !PROXIED_METHODS.has((call as { method?: string } | null)?.method ?? "")
+    );
+    if (!calls.length || calls.length > MAX_BATCH_SIZE) {
+      throw new SponsorshipError(
+        "INVALID_REQUEST",
+        `Send between 1 and ${MAX_BATCH_SIZE} JSON-RPC calls.`
+      );
+    }
+    if (refused) {
+      throw new SponsorshipError(
+        "METHOD_NOT_ALLOWED",
+        `RPC method ${(refused as { method?: string } | null)?.method ?? "(none)"} is not proxied.`,
+        403
+      );
+    }
+    const response = await getRpcPool().request(body);
+    return new NextResponse(await response.text(), {
+      status: response.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return sponsorshipErrorResponse(error, "Failed to reach Solana RPC");
+  }
+}
@@ -0,0 +1,35 @@
+/// @notice Imports Next.js request and response helpers for building typed API routes.
+import { NextRequest, NextResponse } from "next/server";
+/// @notice Parses the owner and mint addresses.
+import { parseAddress } from "@/lib/sponsorship/address";
+/// @notice Validates payout rows and packs them into transactions.
+import { planPayoutBatch } from "@/lib/sponsorship/batchPayout";
+/// @notice Resolves the requested mint against the token registry.
+import { resolveSponsoredToken } from "@/lib/tokens/registry";
+/// @notice Provides the server-side RPC connection used to read the mint.
+import { getServerConnection } from "@/lib/solana/connection";
+/// @notice Shares the structured refusal format with the other sponsorship routes.
+import { sponsorshipErrorResponse } from "@/lib/sponsorship/errors";
+/// @notice Applies per-IP request limits.
+import { checkRateLimit } from "@/lib/quota/rateLimit";
+/// @notice Requires a session for the wallet paying out.
+import { assertSessionWallet, requireSession } from "@/lib/auth/session";
+
+/// @notice Validates every row of a payout list and reports how the valid rows are packed into sponsored transactions.
+export async function POST(request: NextRequest) {
+  const rateLimited = await checkRateLimit(request, "sponsored-batch:plan");
+  if (rateLimited) {
+    return rateLimited;
+  }
+  try {
+    const session = requireSession(request);
+    const { owner, mint, rows } = await request.json();
+    const ownerKey = parseAddress(owner, "owner");
+    assertSessionWallet(session, [ownerKey.toBase58()]);
+    const token = await resolveSponsoredToken(getServerConnection(), parseAddress(mint, "mint"));
+    const plan = await planPayoutBatch(ownerKey, token, rows);
+    return NextResponse.json({ status: "SUCCESS", ...plan });
+  } catch (error) {
+    return sponsorshipErrorResponse(error, "Failed to plan payout batch");
+  }
+}
@@ -0,0 +1,54 @@
+/// @notice Imports Next.js request and response helpers for building typed API routes.
+import { NextRequest, NextResponse } from "next/server";
+/// @notice Imports the public key type used for the already-validated recipients.
+import { PublicKey } from "@solana/web3.js";
+/// @notice Parses the owner and mint addresses.
+import { parseAddress } from "@/lib/sponsorship/address";
+/// @notice Builds the sponsored transaction carrying the rows.
+import { prepareSponsoredTransfer } from "@/lib/sponsorship/sponsoredTransfer";
+/// @notice Re-validates the rows with the planner's rules.
+import { validatePayoutRows } from "@/lib/sponsorship/batchPayout";
+/// @notice Resolves the requested mint against the token registry.
+import { resolveSponsoredToken } from "@/lib/tokens/registry";
+/// @notice Provides the server-side RPC connection used to read the mint.
+import { getServerConnection } from "@/lib/solana/connection";
+/// @notice Shares the structured refusal format with the other sponsorship routes.
+import { SponsorshipError, sponsorshipErrorResponse } from "@/lib/sponsorship/errors";
+/// @notice Applies per-IP request limits.
+import { checkRateLimit } from "@/lib/quota/rateLimit";
+/// @notice Requires a session for the wallet paying out.
+import { assertSessionWallet, requireSession } from "@/lib/auth/session";
+
+/// @notice Builds one transaction of a planned batch, carrying its rows' transfers, for User A to sign and `/api/sponsored-transfer/submit` to co-sign.
+export async function POST(request: NextRequest) {
+  const rateLimited = await checkRateLimit(request, "sponsored-batch:prepare");
+  if (rateLimited) {
+    return rateLimited;
+  }
+  try {
+    const session = requireSession(request);
+    const { owner, mint, rows } = await request.json();
+    const ownerKey = parseAddress(owner, "owner");
+    assertSessionWallet(session, [ownerKey.toBase58()]);
+    const token = await resolveSponsoredToken(getServerConnection(), parseAddress(mint, "mint"));
+    const planned = validatePayoutRows(ownerKey, token, rows);
+    const invalid = planned.find((row) => row.error);
+    if (invalid) {
+      throw new SponsorshipError("INVALID_BATCH", `Row ${invalid.row}: ${invalid.error}`, 400, {
+        row: invalid.row,
+      });
+    }
+    const prepared = await prepareSponsoredTransfer({
+      owner: ownerKey,
+      token,
+      transfers: planned.map((row) => ({
+        recipient: new PublicKey(row.recipient),
+        amount: BigInt(row.baseUnits as string),
+        label: `Row ${row.row}`,
+      })),
+    });
+    return NextResponse.json({ status: "SUCCESS", ...prepared });
+  } catch (error) {
+    return sponsorshipErrorResponse(error, "Failed to prepare payout transaction");
+  }
+}
@@ -0,0 +1,64 @@
+/// @notice Imports Next.js request and response helpers for building typed API routes.
+import { NextRequest, NextResponse } from "next/server";
+/// @notice Parses the owner, mint, and recipient addresses.
+import { parseAddress } from "@/lib/sponsorship/address";
+/// @notice Builds the sponsored transfer on the server.
+import { prepareSponsoredTransfer } from "@/lib/sponsorship/sponsoredTransfer";
+/// @notice Resolves the requested mint against the token registry.
+import { resolveSponsoredToken } from "@/lib/tokens/registry";
+/// @notice Provides the server-side RPC connection used to read the mint.
+import { getServerConnection } from "@/lib/solana/connection";
+/// @notice Shares the structured refusal format with the other sponsorship routes.
+import { SponsorshipError, sponsorshipErrorResponse } from "@/lib/sponsorship/errors";
+/// @notice Parses the decimal amount into exact base units.
+import { parseTokenAmount } from "@/lib/tokenAmount";
+/// @notice Applies per-IP request limits.
+import { checkRateLimit } from "@/lib/quota/rateLimit";
+/// @notice Requires a session for the wallet that owns the tokens.
+import { assertSessionWallet, requireSession } from "@/lib/auth/session";
+
+/// @notice Parses a decimal amount string into base units of the token, refusing with a 400 when it is malformed, too precise, or not positive.
+const parseAmount = (value: unknown, decimals: number) => {
+  let amount: bigint;
+  try {
+    if (typeof value !== "string") {
+      throw new Error("Amount must be a decimal string.");
+    }
+    amount = parseTokenAmount(value, decimals);
+  } catch (error) {
+    throw new SponsorshipError("INVALID_AMOUNT", (error as Error).message);
+  }
+  if (amount <= BigInt(0)) {
+    throw new SponsorshipError("INVALID_AMOUNT", "Amount must be greater than zero.");
+  }
+  return amount;
+};
+
+/// @notice Builds a transfer of a sponsored token from User A to the recipient with the developer wallet as fee payer and returns it for User A to sign.
+export async function POST(request: NextRequest) {
+  const rateLimited = await checkRateLimit(request, "sponsored-transfer:prepare");
+  if (rateLimited) {
+    return rateLimited;
+  }
+  try {
+    const session = requireSession(request);
+    const { owner, recipient, mint, amount } = await request.json();
+    const ownerKey = parseAddress(owner, "owner");
+    assertSessionWallet(session, [ownerKey.toBase58()]);
+    const token = await resolveSponsoredToken(getServerConnection(), parseAddress(mint, "mint"));
+    const prepared = await prepareSponsoredTransfer({
+      owner: ownerKey,
+      token,
+      transfers: [
+        {
+          recipient: parseAddress(recipient, "recipient"),
+          amount: parseAmount(amount, token.decimals),
+          label: "Recipient",
+        },
+      ],
+    });
+    return NextResponse.json({ status: "SUCCESS", ...prepared });
+  } catch (error) {
+    return sponsorshipErrorResponse(error, "Failed to prepare sponsored transfer");
+  }
+}
@@ -0,0 +1,52 @@
+/// @notice Imports Next.js request and response helpers for building typed API routes.
+import { NextRequest, NextResponse, after } from "next/server";
+/// @notice Verifies, co-signs, and broadcasts the prepared transfer.
+import { submitSponsoredTransfer } from "@/lib/sponsorship/sponsoredTransfer";
+/// @notice Follows the broadcast transaction to update the ledger after the response is sent.
+import { trackSponsorshipConfirmation } from "@/lib/ledger/ledger";
+/// @notice Provides the server-side RPC connection used for confirmation tracking.
+import { getServerConnection } from "@/lib/solana/connection";
+/// @notice Shares the structured refusal format with the other sponsorship routes.
+import { SponsorshipError, sponsorshipErrorResponse } from "@/lib/sponsorship/errors";
+/// @notice Applies per-IP request limits.
+import { checkRateLimit } from "@/lib/quota/rateLimit";
+/// @notice Requires a session; its wallet must be the transaction's token authority.
+import { requireSession } from "@/lib/auth/session";
+
+/// @notice Accepts User A's signature over a prepared message, adds the developer signature, and broadcasts the transaction.
+export async function POST(request: NextRequest) {
+  const rateLimited = await checkRateLimit(request, "sponsored-transfer:submit");
+  if (rateLimited) {
+    return rateLimited;
+  }
+  try {
+    const session = requireSession(request);
+    const { message, token, userSignature } = await request.json();
+    if (
+      typeof message !== "string" ||
+      typeof token !== "string" ||
+      typeof userSignature !== "string"
+    ) {
+      throw new SponsorshipError(
+        "INVALID_REQUEST",
+        "message, token, and userSignature are required"
+      );
+    }
+    const submitted = await submitSponsoredTransfer(
+      { message, token, userSignature },
+      session
+    );
+    after(() =>
+      trackSponsorshipConfirmation(
+        getServerConnection(),
+        submitted.ledgerId,
+        submitted.signature,
+        submitted.blockhash,
+        submitted.nonceAccount
+      )
+    );
+    return NextResponse.json({ status: "SUCCESS", ...submitted });
+  } catch (error) {
+    return sponsorshipErrorResponse(error, "Failed to submit sponsored transfer");
+  }
+}
@@ -0,0 +1,35 @@
+/// @notice Imports Next.js request and response helpers for building typed API routes.
+import { NextRequest, NextResponse } from "next/server";
+/// @notice Imports the public key type used to validate wallet addresses.
+import { PublicKey } from "@solana/web3.js";
+/// @notice Computes the remaining sponsorship allowance.
+import { getSponsorshipAllowance } from "@/lib/quota/quota";
+/// @notice Applies per-IP request limits.
+import { checkRateLimit } from "@/lib/quota/rateLimit";
+/// @notice Limits the lookup to the signed-in wallet.
+import { assertSessionWallet, requireSession } from "@/lib/auth/session";
+/// @notice Shares the structured refusal format with the other sponsorship routes.
+import { SponsorshipError, sponsorshipErrorResponse } from "@/lib/sponsorship/errors";
+
+/// @notice Reports how many sponsored transactions and lamports a User A wallet has left.
+export async function POST(request: NextRequest) {
+  const rateLimited = await checkRateLimit(request, "sponsorship-quota");
+  if (rateLimited) {
+    return rateLimited;
+  }
+  try {
+    const session = requireSession(request);
+    const { address } = await request.json();
+    let wallet: string;
+    try {
+      wallet = new PublicKey(String(address).trim()).toBase58();
+    } catch {
+      throw new SponsorshipError("INVALID_ADDRESS", "Invalid Solana address format");
+    }
+    assertSessionWallet(session, [wallet]);
+    const allowance = await getSponsorshipAllowance(wallet);
+    return NextResponse.json({ status: "SUCCESS", allowance });
+  } catch (error) {
+    return sponsorshipErrorResponse(error, "Failed to get sponsorship allowance");
+  }
+}
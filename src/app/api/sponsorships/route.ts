@@ -0,0 +1,66 @@
+/// @notice Imports Next.js request and response helpers for building typed API routes.
+import { NextRequest, NextResponse } from "next/server";
+/// @notice Parses the wallet and mint filters.
+import { parseAddress } from "@/lib/sponsorship/address";
+/// @notice Reads records from the sponsorship ledger.
+import { getLedgerStore } from "@/lib/ledger/store";
+/// @notice Applies per-IP request limits.
+import { checkRateLimit } from "@/lib/quota/rateLimit";
+/// @notice Limits the history to the signed-in wallet.
+import { assertSessionWallet, requireSession } from "@/lib/auth/session";
+/// @notice Shares the structured refusal format with the other sponsorship routes.
+import { SponsorshipError, sponsorshipErrorResponse } from "@/lib/sponsorship/errors";
+/// @notice Imports the ledger status type for filter validation.
+import type { SponsorshipStatus } from "@/types/sponsorship";
+
+/// @notice Lifecycle stages accepted by the `status` filter.
+const STATUSES: SponsorshipStatus[] = ["pending", "signed", "submitted", "confirmed", "failed"];
+/// @notice Page size bounds.
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/// @notice Validates an optional base58 address filter.
+const parseAddressFilter = (value: string | null, field: string) => {
+  if (!value) {
+    return undefined;
+  }
+  return parseAddress(value, field).toBase58();
+};
+
+/// @notice Lists the signed-in wallet's sponsored transactions newest first, filtered by `status` or `mint`, paginated with `limit` and `cursor`.
+export async function GET(request: NextRequest) {
+  const rateLimited = await checkRateLimit(request, "sponsorships");
+  if (rateLimited) {
+    return rateLimited;
+  }
+  try {
+    const session = requireSession(request);
+    const params = request.nextUrl.searchParams;
+    const wallet = parseAddressFilter(params.get("wallet"), "wallet") ?? session.wallet;
+    assertSessionWallet(session, [wallet]);
+    const status = params.get("status");
+    if (status && !STATUSES.includes(status as SponsorshipStatus)) {
+      throw new SponsorshipError(
+        "INVALID_FILTER",
+        `status must be one of ${STATUSES.join(", ")}.`
+      );
+    }
+    const limit = Number(params.get("limit") ?? DEFAULT_LIMIT);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      throw new SponsorshipError(
+        "INVALID_FILTER",
+        `limit must be an integer between 1 and ${MAX_LIMIT}.`
+      );
+    }
+    const page = await getLedgerStore().list({
+      wallet,
+      mint: parseAddressFilter(params.get("mint"), "mint"),
+      status: (status as SponsorshipStatus) || undefined,
+      limit,
+      cursor: params.get("cursor") || undefined,
+    });
+    return NextResponse.json({ status: "SUCCESS", ...page });
+  } catch (error) {
+    return sponsorshipErrorResponse(error, "Failed to list sponsorships");
+  }
+}
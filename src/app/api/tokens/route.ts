@@ -0,0 +1,24 @@
+/// @notice Imports Next.js request and response helpers for building typed API routes.
+import { NextRequest, NextResponse } from "next/server";
+/// @notice Reads the sponsored tokens and their mint data.
+import { loadTokenRegistry } from "@/lib/tokens/registry";
+/// @notice Provides the server-side RPC connection used to read mints.
+import { getServerConnection } from "@/lib/solana/connection";
+/// @notice Applies per-IP request limits.
+import { checkRateLimit } from "@/lib/quota/rateLimit";
+/// @notice Shares the structured refusal format with the other sponsorship routes.
+import { sponsorshipErrorResponse } from "@/lib/sponsorship/errors";
+
+/// @notice Lists the tokens the developer wallet sponsors, with symbol, decimals, program, cap, and transfer fee.
+export async function GET(request: NextRequest) {
+  const rateLimited = await checkRateLimit(request, "tokens");
+  if (rateLimited) {
+    return rateLimited;
+  }
+  try {
+    const tokens = await loadTokenRegistry(getServerConnection());
+    return NextResponse.json({ status: "SUCCESS", tokens });
+  } catch (error) {
+    return sponsorshipErrorResponse(error, "Failed to load the token registry");
+  }
+}
@@ -0,0 +1,62 @@
+/// @notice Imports Next.js request and response helpers for building typed API routes.
+import { NextRequest, NextResponse } from "next/server";
+/// @notice Parses the wallet address.
+import { parseAddress } from "@/lib/sponsorship/address";
+/// @notice Reads and describes the wallet's transactions.
+import {
+  MAX_HISTORY_PAGE_SIZE,
+  decodeHistoryCursor,
+  fetchWalletHistory,
+} from "@/lib/solana/history";
+/// @notice Identifies transactions whose fee the developer wallet paid.
+import { getDeveloperWalletAddress } from "@/lib/developerWallet";
+/// @notice Provides the server-side RPC connection.
+import { getServerConnection } from "@/lib/solana/connection";
+/// @notice Applies per-IP request limits.
+import { checkRateLimit } from "@/lib/quota/rateLimit";
+/// @notice Limits the history to the signed-in wallet.
+import { assertSessionWallet, requireSession } from "@/lib/auth/session";
+/// @notice Shares the structured refusal format with the other routes.
+import { SponsorshipError, sponsorshipErrorResponse } from "@/lib/sponsorship/errors";
+
+/// @notice Default page size.
+const DEFAULT_LIMIT = 10;
+
+/// @notice Lists the signed-in wallet's on-chain transactions newest first, with direction, counterparty, amount, fee payer, and whether the developer wallet sponsored them, paginated with `limit` and `cursor`.
+export async function GET(request: NextRequest) {
+  const rateLimited = await checkRateLimit(request, "wallet-history");
+  if (rateLimited) {
+    return rateLimited;
+  }
+  try {
+    const session = requireSession(request);
+    const params = request.nextUrl.searchParams;
+    const wallet = parseAddress(params.get("wallet") ?? session.wallet, "wallet");
+    assertSessionWallet(session, [wallet.toBase58()]);
+    const limit = Number(params.get("limit") ?? DEFAULT_LIMIT);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_PAGE_SIZE) {
+      throw new SponsorshipError(
+        "INVALID_FILTER",
+        `limit must be an integer between 1 and ${MAX_HISTORY_PAGE_SIZE}.`
+      );
+    }
+    const rawCursor = params.get("cursor");
+    const cursor = rawCursor ? decodeHistoryCursor(rawCursor) : null;
+    if (rawCursor && !cursor) {
+      throw new SponsorshipError(
+        "INVALID_CURSOR",
+        "cursor is not a cursor returned by this route."
+      );
+    }
+    const page = await fetchWalletHistory(
+      getServerConnection(),
+      wallet,
+      await getDeveloperWalletAddress(),
+      limit,
+      cursor
+    );
+    return NextResponse.json({ status: "SUCCESS", ...page });
+  } catch (error) {
+    return sponsorshipErrorResponse(error, "Failed to load wallet history");
+  }
+}
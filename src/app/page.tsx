@@ -1,16 +1,25 @@
 /// @notice Imports the top-level MetaKeep experience so the page can stay server-rendered while delegating interactivity.
 import { MetaKeepApp } from "@/components/MetaKeepApp";
+/// @notice Reads the browser-safe part of the cluster picked by server configuration.
+import { loadPublicClusterConfig } from "@/lib/cluster";
+
+/// @notice Renders per request so the cluster follows the runtime environment rather than the build.
+export const dynamic = "force-dynamic";
 
 /// @notice Renders the marketing shell that wraps the interactive MetaKeep transfer experience.
 export default function Home() {
+  /// @notice Resolves the cluster once on the server and hands its public settings to the client experience.
+  const cluster = loadPublicClusterConfig();
+
   /// @notice Outputs the hero, copy, and interactive widget in a centered container.
   return (
     <div className="container">
       <header>
         <h1>MetaKeep Gas Sponsorship Demo</h1>
-        <p>Developer-sponsored USDC transfer on Solana Devnet</p>
+        <p>Developer-sponsored token transfers on Solana {cluster.label}</p>
+        <span className={`cluster-badge ${cluster.name}`}>{cluster.name}</span>
       </header>
-      <MetaKeepApp />
+      <MetaKeepApp cluster={cluster} />
     </div>
   );
 }
@@ -2,14 +2,26 @@
 interface ActionButtonsProps {
   /// @notice Handler that refreshes balances by calling the backend proxies.
   onRefreshBalances: () => void;
-  /// @notice Handler that kicks off the MetaKeep-assisted USDC transfer.
-  onTransferUSDC: () => void;
+  /// @notice Handler that kicks off the MetaKeep-assisted token transfer.
+  onTransfer: () => void;
+  /// @notice Symbol of the selected token, shown on the transfer CTA.
+  tokenSymbol: string;
+  /// @notice Amount entered in the transfer form, shown on the transfer CTA.
+  amountLabel: string;
   /// @notice Disables the buttons while the app is initializing.
   disabled?: boolean;
   /// @notice Indicates whether a transfer is currently in-flight.
   isTransferring?: boolean;
-  /// @notice Signals that User A lacks enough USDC to run the happy path.
-  hasInsufficientUSDC?: boolean;
+  /// @notice Indicates whether a transfer is being simulated or awaiting review.
+  isPreparing?: boolean;
+  /// @notice Signals that User A lacks enough of the selected token to run the happy path.
+  hasInsufficientBalance?: boolean;
+  /// @notice Signals that User A has no gas-sponsorship allowance left.
+  isQuotaExhausted?: boolean;
+  /// @notice Signals that the recipient or amount in the transfer form is invalid.
+  isFormInvalid?: boolean;
+  /// @notice Signals that the sponsor is critical, so new transfers are paused.
+  isSponsorDegraded?: boolean;
 }
 
 /// @notice Provides the refresh and transfer controls with a status-aware CTA label.
@@ -17,27 +29,44 @@ export function ActionButtons({
   /// @notice Callback invoked when the refresh button is pressed.
   onRefreshBalances,
   /// @notice Callback invoked when the transfer CTA is activated.
-  onTransferUSDC,
+  onTransfer,
+  /// @notice Symbol of the token being sent.
+  tokenSymbol,
+  /// @notice Amount being sent.
+  amountLabel,
   /// @notice Reflects whether the module is still bootstrapping credentials.
   disabled = false,
   /// @notice Toggles the spinner text while MetaKeep signs the transaction.
   isTransferring = false,
-  /// @notice Communicates whether the CTA should be locked due to low USDC.
-  hasInsufficientUSDC = false,
+  /// @notice Toggles the simulation label while the preview is built or open.
+  isPreparing = false,
+  /// @notice Communicates whether the CTA should be locked due to a low token balance.
+  hasInsufficientBalance = false,
+  /// @notice Communicates whether the CTA should be locked because sponsorship is used up.
+  isQuotaExhausted = false,
+  /// @notice Communicates whether the CTA should be locked until the form is corrected.
+  isFormInvalid = false,
+  /// @notice Communicates whether the CTA should be locked until the sponsor recovers.
+  isSponsorDegraded = false,
 }: ActionButtonsProps) {
-  /// @notice Determines the transfer amount label so the CTA mirrors configuration.
-  const configuredTransferAmount =
-    process.env.NEXT_PUBLIC_TRANSFER_AMOUNT ?? "0.01";
-
   /// @notice Builds the CTA copy so the render tree stays tidy.
   const transferCtaLabel = (() => {
     if (isTransferring) {
       return "Transferring...";
     }
-    if (hasInsufficientUSDC) {
-      return "Insufficient USDC";
+    if (isPreparing) {
+      return "Reviewing Transfer...";
+    }
+    if (hasInsufficientBalance) {
+      return `Insufficient ${tokenSymbol}`;
+    }
+    if (isQuotaExhausted) {
+      return "Sponsorship Quota Used Up";
+    }
+    if (isSponsorDegraded) {
+      return "Sponsorship Paused";
     }
-    return `Transfer ${configuredTransferAmount} USDC (A → B)`;
+    return `Transfer ${amountLabel.trim()} ${tokenSymbol}`;
   })();
 
   /// @notice Renders the action buttons with state-aware disabled flags.
@@ -51,9 +80,17 @@ export function ActionButtons({
         Refresh Balances
       </button>
       <button
-        onClick={onTransferUSDC}
+        onClick={onTransfer}
         className="btn btn-primary"
-        disabled={disabled || isTransferring || hasInsufficientUSDC}
+        disabled={
+          disabled ||
+          isTransferring ||
+          isPreparing ||
+          hasInsufficientBalance ||
+          isQuotaExhausted ||
+          isFormInvalid ||
+          isSponsorDegraded
+        }
       >
         {transferCtaLabel}
       </button>
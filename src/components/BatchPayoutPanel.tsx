@@ -0,0 +1,212 @@
+/// @notice Builds explorer links for submitted batch transactions.
+import { explorerTxLink } from "@/lib/explorer";
+/// @notice Formats the batch total with the token's decimals.
+import { formatTokenAmount } from "@/lib/tokenAmount";
+/// @notice Imports the cluster configuration that supplies the explorer URL.
+import type { PublicClusterConfig } from "@/types/cluster";
+/// @notice Imports the token shape used to name amounts.
+import type { TokenInfo } from "@/types/token";
+/// @notice Imports the batch shapes rendered by the panel.
+import type { PayoutPlan, PayoutRowResult } from "@/types/batch";
+
+/// @notice Declares the data and callbacks consumed by the batch payout panel.
+interface BatchPayoutPanelProps {
+  /// @notice Payout list as pasted or loaded from a file.
+  listText: string;
+  /// @notice Handler invoked with new list text.
+  onListTextChange: (text: string) => void;
+  /// @notice Validated plan, or null before the list is checked.
+  plan: PayoutPlan | null;
+  /// @notice Outcome of every row, keyed by row number.
+  results: Record<number, PayoutRowResult>;
+  /// @notice Token the batch pays out, or null until the registry loads.
+  token: TokenInfo | null;
+  /// @notice Cluster used for explorer links.
+  cluster: PublicClusterConfig;
+  /// @notice Why the last check or run stopped, or null.
+  batchError: string | null;
+  /// @notice Indicates whether the list is being validated.
+  isPlanning?: boolean;
+  /// @notice Indicates whether transactions are being signed and submitted.
+  isRunning?: boolean;
+  /// @notice Disables the controls while the app is initializing or another transfer runs.
+  disabled?: boolean;
+  /// @notice Handler that validates the list.
+  onCheck: () => void;
+  /// @notice Handler that runs (or resumes) the batch.
+  onRun: () => void;
+  /// @notice Handler that discards the batch.
+  onReset: () => void;
+}
+
+/// @notice Labels shown for each row status.
+const STATUS_LABELS: Record<PayoutRowResult["status"], string> = {
+  invalid: "Invalid",
+  pending: "Pending",
+  signing: "Signing…",
+  confirmed: "Confirmed",
+  failed: "Failed",
+};
+
+/// @notice Shortens a base58 address for table cells.
+const shortenAddress = (address: string) =>
+  address.length > 12 ? `${address.slice(0, 4)}…${address.slice(-4)}` : address;
+
+/// @notice Lets ops upload a payout list, reviews every row, and runs it as packed sponsored transactions.
+export function BatchPayoutPanel({
+  /// @notice List text.
+  listText,
+  /// @notice List change callback.
+  onListTextChange,
+  /// @notice Validated plan.
+  plan,
+  /// @notice Per-row outcomes.
+  results,
+  /// @notice Token being paid out.
+  token,
+  /// @notice Cluster used for explorer links.
+  cluster,
+  /// @notice Batch-level error.
+  batchError,
+  /// @notice Validation spinner flag.
+  isPlanning = false,
+  /// @notice Run spinner flag.
+  isRunning = false,
+  /// @notice Locks the panel.
+  disabled = false,
+  /// @notice Check callback.
+  onCheck,
+  /// @notice Run callback.
+  onRun,
+  /// @notice Reset callback.
+  onReset,
+}: BatchPayoutPanelProps) {
+  /// @notice Collects row statuses for the summary and the run button.
+  const statuses = Object.values(results).map((result) => result.status);
+  /// @notice Rows that passed validation.
+  const validRows = statuses.filter((status) => status !== "invalid").length;
+  /// @notice Rows whose transaction is confirmed.
+  const confirmedRows = statuses.filter((status) => status === "confirmed").length;
+  /// @notice Whether a previous run already processed some rows.
+  const isResume = statuses.some((status) => status === "confirmed" || status === "failed");
+  /// @notice Whether every valid row is paid.
+  const isComplete = validRows > 0 && confirmedRows === validRows;
+
+  /// @notice Loads a CSV or JSON file into the list field.
+  const handleFile = (file: File | undefined) => {
+    if (file) {
+      void file.text().then(onListTextChange);
+    }
+  };
+
+  /// @notice Renders the list input, plan summary, and per-row results.
+  return (
+    <div className="batch-section">
+      <h4>📦 Batch Payouts</h4>
+      <p className="batch-help">
+        One row per payout as <code>recipient,amount</code>, or a JSON array of{" "}
+        <code>{"{ recipient, amount }"}</code> objects.
+      </p>
+      <textarea
+        value={listText}
+        onChange={(event) => onListTextChange(event.target.value)}
+        placeholder={"recipient,amount\n7EcD…LtV,0.25"}
+        rows={5}
+        spellCheck={false}
+        disabled={disabled || isRunning}
+      />
+      <div className="batch-actions">
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={(event) => handleFile(event.target.files?.[0])}
+          disabled={disabled || isRunning}
+        />
+        <button
+          onClick={onCheck}
+          className="btn btn-secondary"
+          disabled={disabled || isRunning || isPlanning || !listText.trim() || !token}
+        >
+          {isPlanning ? "Checking..." : "Check List"}
+        </button>
+        {plan && (
+          <>
+            <button
+              onClick={onRun}
+              className="btn btn-primary"
+              disabled={
+                disabled ||
+                isRunning ||
+                isComplete ||
+                Boolean(plan.error) ||
+                plan.transactions.length === 0
+              }
+            >
+              {isRunning ? "Running..." : isResume ? "Resume Batch" : "Run Batch"}
+            </button>
+            <button onClick={onReset} className="btn btn-secondary" disabled={isRunning}>
+              Clear
+            </button>
+          </>
+        )}
+      </div>
+
+      {batchError && <p className="field-error">{batchError}</p>}
+
+      {plan && token && (
+        <>
+          <p className="batch-summary">
+            {validRows} of {plan.rows.length} rows valid ·{" "}
+            {formatTokenAmount(plan.totalAmount, token.decimals)} {token.symbol} in{" "}
+            {plan.transactions.length} transaction{plan.transactions.length === 1 ? "" : "s"} (one
+            MetaKeep approval each) · {confirmedRows} confirmed
+          </p>
+          <table className="history-table">
+            <thead>
+              <tr>
+                <th>Row</th>
+                <th>Recipient</th>
+                <th>Amount</th>
+                <th>Status</th>
+                <th>Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {plan.rows.map((row) => {
+                const result = results[row.row];
+                return (
+                  <tr key={row.row}>
+                    <td>{row.row}</td>
+                    <td>
+                      <span title={row.recipient}>{shortenAddress(row.recipient) || "—"}</span>
+                    </td>
+                    <td>
+                      {row.amount || "—"} {token.symbol}
+                    </td>
+                    <td>
+                      <span className={`history-status ${result?.status ?? "pending"}`}>
+                        {STATUS_LABELS[result?.status ?? "pending"]}
+                      </span>
+                    </td>
+                    <td>
+                      {result?.signature && (
+                        <a
+                          href={explorerTxLink(cluster, result.signature)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                        >
+                          Explorer
+                        </a>
+                      )}{" "}
+                      {result?.error ?? (row.warning && `⚠️ ${row.warning}`)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
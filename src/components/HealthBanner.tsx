@@ -0,0 +1,46 @@
+/// @notice Imports the lamports-per-SOL ratio used to format balances.
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+/// @notice Imports the health snapshot shape rendered by the banner.
+import type { SponsorHealth } from "@/types/health";
+
+/// @notice Declares the snapshot consumed by the health banner.
+interface HealthBannerProps {
+  /// @notice Latest sponsor health, or null before the first check.
+  health: SponsorHealth | null;
+}
+
+/// @notice Formats lamports as a SOL label.
+const formatSol = (lamports: number) => `${(lamports / LAMPORTS_PER_SOL).toFixed(4)} SOL`;
+
+/// @notice Warns when the sponsor runs low and explains why transfers are paused once it is critical; renders nothing while healthy.
+export function HealthBanner({
+  /// @notice Snapshot to summarize.
+  health,
+}: HealthBannerProps) {
+  if (!health || health.level === "ok") {
+    return null;
+  }
+
+  /// @notice Renders the severity headline, the reasons, and the remaining runway.
+  return (
+    <div className={`health-banner ${health.level}`} role="alert">
+      <h4>
+        {health.level === "critical"
+          ? "⛔ Sponsorship degraded: new transfers are paused"
+          : "⚠️ Sponsor balance is running low"}
+      </h4>
+      <ul>
+        {health.issues.map((issue) => (
+          <li key={issue}>{issue}</li>
+        ))}
+      </ul>
+      {health.balanceLamports !== null && health.runwayTransactions !== null && (
+        <p>
+          {formatSol(health.balanceLamports)} left, enough for about{" "}
+          {health.runwayTransactions.toLocaleString()} sponsored transactions at{" "}
+          {formatSol(health.averageCostLamports)} each.
+        </p>
+      )}
+    </div>
+  );
+}
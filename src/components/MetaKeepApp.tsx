@@ -2,21 +2,81 @@
 "use client";
 
 /// @notice Imports React state plus lifecycle utilities for orchestrating the demo flow.
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 /// @notice Brings in the wallet summary card component.
 import { WalletCard } from "@/components/WalletCard";
 /// @notice Brings in the call-to-action button cluster.
 import { ActionButtons } from "@/components/ActionButtons";
+/// @notice Brings in the sponsored token picker.
+import { TokenPicker } from "@/components/TokenPicker";
+/// @notice Brings in the recipient and amount form.
+import { TransferForm } from "@/components/TransferForm";
+/// @notice Brings in the CSV/JSON batch payout panel.
+import { BatchPayoutPanel } from "@/components/BatchPayoutPanel";
 /// @notice Brings in the status and signature summary component.
 import { StatusSection } from "@/components/StatusSection";
-/// @notice Provides access to the MetaKeep SDK along with wallet metadata.
-import { useMetaKeepSDK } from "@/hooks/useMetaKeepSDK";
+/// @notice Brings in the pre-sign simulation preview dialog.
+import { TransferPreviewDialog } from "@/components/TransferPreviewDialog";
+/// @notice Brings in the loading and failure notice for browser SDKs.
+import { SdkLoadNotice } from "@/components/SdkLoadNotice";
+/// @notice Brings in the MetaKeep / browser wallet chooser.
+import { WalletChooser } from "@/components/WalletChooser";
+/// @notice Brings in the degraded-sponsor banner.
+import { HealthBanner } from "@/components/HealthBanner";
+/// @notice Brings in the ledger-backed sponsorship history panel.
+import { SponsorshipHistory } from "@/components/SponsorshipHistory";
+/// @notice Lists User A's on-chain transactions.
+import { WalletHistory } from "@/components/WalletHistory";
+/// @notice Loads the bundled Solana and MetaKeep SDKs.
+import { useBrowserSdks } from "@/hooks/useBrowserSdks";
+/// @notice Provides the chosen user signer along with wallet metadata.
+import { useUserSigner } from "@/hooks/useUserSigner";
 /// @notice Provides a Solana RPC connection cached across renders.
 import { useSolanaConnection } from "@/hooks/useSolanaConnection";
 /// @notice Fetches and caches wallet balances from backend RPC proxies.
 import { useWalletBalances } from "@/hooks/useWalletBalances";
-/// @notice Transfers USDC while letting the developer wallet cover fees.
-import { useTransfer } from "@/hooks/useTransfer";
+/// @notice Transfers tokens while letting the developer wallet cover fees.
+import {
+  SponsorshipRequestError,
+  isExpiredTransferError,
+  isUnconfirmedTransferError,
+  useTransfer,
+} from "@/hooks/useTransfer";
+/// @notice Fetches User A's remaining gas-sponsorship allowance.
+import { useSponsorshipQuota } from "@/hooks/useSponsorshipQuota";
+/// @notice Checks the developer wallet balance and upstream reachability.
+import { useSponsorHealth } from "@/hooks/useSponsorHealth";
+/// @notice Loads the tokens the developer wallet sponsors.
+import { useTokenRegistry } from "@/hooks/useTokenRegistry";
+/// @notice Plans and runs batch payouts.
+import { useBatchPayout } from "@/hooks/useBatchPayout";
+/// @notice Loads User A's sponsored transfers from the ledger.
+import { useSponsorshipHistory } from "@/hooks/useSponsorshipHistory";
+/// @notice Loads User A's on-chain transactions.
+import { useWalletHistory } from "@/hooks/useWalletHistory";
+/// @notice Validates the recipient and amount entered in the transfer form.
+import { checkRecipient, checkTransferAmount } from "@/lib/transferForm";
+/// @notice Formats the sponsor's per-token cap for the form hint.
+import { formatTokenAmount } from "@/lib/tokenAmount";
+/// @notice Parses uploaded payout lists.
+import { parsePayoutList } from "@/lib/payoutList";
+/// @notice Reads the optional default transfer amount.
+import { readPublicEnv } from "@/lib/env";
+/// @notice Builds explorer deep links for transaction signatures.
+import { explorerTxLink } from "@/lib/explorer";
+/// @notice Imports the cluster configuration chosen by the server.
+import type { PublicClusterConfig } from "@/types/cluster";
+/// @notice Imports the ledger status type used by the history filter.
+import type { SponsorshipStatus } from "@/types/sponsorship";
+/// @notice Imports the loaded Solana SDK shape plus the SDK labels used in notices.
+import { SDK_LABELS, type BrowserSdks } from "@/lib/sdkLoader";
+/// @notice Imports the chooser option shape.
+import type { UserSignerOption } from "@/types/signer";
+/// @notice Imports the prepared transfer shape held while the preview is open.
+import type { PreparedSponsoredTransfer } from "@/lib/sponsorship/sponsoredTransfer";
+
+/// @notice How often the sponsor's health is checked while the page is open.
+const HEALTH_POLL_MS = 60_000;
 
 /// @notice Enumerates the kinds of status banners the UI can surface.
 type StatusType = "info" | "success" | "error" | "warning";
@@ -29,34 +89,113 @@ type StatusState = {
   type: StatusType;
 };
 
-/// @notice Encapsulates the entire MetaKeep USDC transfer walkthrough.
-export function MetaKeepApp() {
-  /// @notice Accesses the SDK plus wallet metadata that originate from MetaKeep.
+/// @notice Declares the server-provided configuration consumed by the walkthrough.
+interface MetaKeepAppProps {
+  /// @notice Cluster the app targets, picked by server configuration.
+  cluster: PublicClusterConfig;
+}
+
+/// @notice Encapsulates the entire MetaKeep token transfer walkthrough.
+export function MetaKeepApp({
+  /// @notice Cluster configuration for RPC, mint, and explorer links.
+  cluster,
+}: MetaKeepAppProps) {
+  /// @notice Tracks the load state of the bundled SDKs.
+  const { solanaSdk, metaKeepSdk, retrySdk } = useBrowserSdks();
+  /// @notice Accesses User A's signer plus the wallet metadata resolved when it connects.
   const {
-    sdk,
+    signer,
+    signerOptions,
     userAWallet,
     userBWallet,
     devWallet,
     isInitializing,
-    initializeWallets,
-  } = useMetaKeepSDK();
+    connectSigner,
+    disconnectSigner,
+    ensureSession,
+  } = useUserSigner(cluster, metaKeepSdk.sdk);
   /// @notice Accesses the Solana connection singleton for RPC calls.
-  const { connection, initializeConnection } = useSolanaConnection();
-  /// @notice Provides SOL/USDC balances plus a refresh helper.
+  const { connection, initializeConnection } = useSolanaConnection(cluster);
+  /// @notice Provides SOL and token balances plus a refresh helper.
   const { balances, refreshBalances } = useWalletBalances();
-  /// @notice Provides the transfer executor plus reactive transfer state.
-  const { transferUSDC, transferState } = useTransfer();
-  /// @notice Tracks UI copy plus severity for status messaging.
+  /// @notice Provides the sponsored tokens for the picker.
+  const { tokens, loadTokens } = useTokenRegistry();
+  /// @notice Tracks the mint of the token the user chose to send.
+  const [selectedMint, setSelectedMint] = useState<string | null>(null);
+  /// @notice Resolves the selected mint to its registry entry.
+  const selectedToken = tokens.find((token) => token.mint === selectedMint) ?? null;
+  /// @notice Symbol used in copy, falling back to a neutral label until the registry loads.
+  const tokenSymbol = selectedToken?.symbol ?? "tokens";
+  /// @notice Tracks the recipient address as typed, or null until User A edits it.
+  const [recipientDraft, setRecipientInput] = useState<string | null>(null);
+  /// @notice Recipient shown in the form: the typed address, prefilled with the configured User B.
+  const recipientInput = recipientDraft ?? userBWallet;
+  /// @notice Tracks the amount as typed, prefilled with the configured default.
+  const [amountInput, setAmountInput] = useState(
+    () => readPublicEnv("NEXT_PUBLIC_TRANSFER_AMOUNT") ?? "0.01"
+  );
+  /// @notice Validates the recipient, warning on program-derived addresses.
+  const recipientCheck = checkRecipient(recipientInput, userAWallet || undefined);
+  /// @notice Recipient the transfer and the recipient card use, or null while the field is invalid.
+  const recipientWallet = recipientCheck.address;
+  /// @notice Validates the amount against the token's decimals, the sponsor cap, and User A's balance.
+  const amountCheck = selectedToken
+    ? checkTransferAmount(amountInput, selectedToken, balances.userA?.tokenAmount ?? null)
+    : null;
+  /// @notice Flags when User A does not hold the entered amount of the selected token.
+  const hasInsufficientBalance = amountCheck?.exceedsBalance ?? false;
+  /// @notice Flags when the recipient or amount cannot be sent for any other reason.
+  const isFormInvalid =
+    !recipientWallet || !amountCheck || (Boolean(amountCheck.error) && !amountCheck.exceedsBalance);
+  /// @notice Provides the prepare and execute steps plus reactive transfer and confirmation state.
+  const { prepareTransfer, executeTransfer, transferState, confirmation } = useTransfer();
+  /// @notice Provides the batch plan, per-row results, and batch actions.
+  const {
+    plan: payoutPlan,
+    results: payoutResults,
+    isPlanning: isPlanningBatch,
+    isRunning: isRunningBatch,
+    batchError,
+    planBatch,
+    runBatch,
+    resetBatch,
+  } = useBatchPayout();
+  /// @notice Tracks the payout list as pasted or loaded from a file.
+  const [payoutListText, setPayoutListText] = useState("");
+  /// @notice Provides User A's sponsorship allowance plus a refresh helper.
+  const { allowance, refreshAllowance } = useSponsorshipQuota();
+  /// @notice Provides the sponsor's health and whether new transfers are paused.
+  const { health, isSponsorDegraded, refreshHealth } = useSponsorHealth();
+  /// @notice Provides the ledger history plus pagination helpers.
+  const { records, nextCursor, isLoadingHistory, loadHistory } = useSponsorshipHistory();
+  /// @notice Provides User A's on-chain transactions plus pagination helpers.
+  const {
+    transactions,
+    nextCursor: nextTransactionsCursor,
+    untrackedTokenAccounts,
+    isLoadingTransactions,
+    loadWalletHistory,
+  } = useWalletHistory();
+  /// @notice Tracks the status filter applied to the history panel.
+  const [historyStatusFilter, setHistoryStatusFilter] = useState<SponsorshipStatus | "">(
+    ""
+  );
+  /// @notice Tracks UI copy plus severity for status messaging, starting with the initialization notice.
   const [status, setStatus] = useState<StatusState>({
-    message: "",
+    message: "Initializing Solana connection...",
     type: "info",
   });
-  /// @notice Captures the latest transaction signature and Solscan deeplink.
+  /// @notice Captures the latest transaction signature, explorer deeplink, and sponsored costs.
   const [transactionInfo, setTransactionInfo] = useState<{
     signature: string;
-    solscanLink: string;
+    explorerLink: string;
+    feeLamports: number;
+    priorityFeeLamports: number;
+    rentLamports: number;
+    computeUnitLimit: number | null;
+    computeUnitPrice: number;
   } | null>(null);
-  /// @notice Stores the MetaKeep response for the user signature.
+  /// @notice Stores User A's signature, as returned by the connected wallet.
   const [userSignature, setUserSignature] = useState<{ signature: string } | null>(
     null
   );
@@ -64,74 +203,188 @@ export function MetaKeepApp() {
   const [developerSignature, setDeveloperSignature] = useState<{
     signature: string;
   } | null>(null);
-  /// @notice Indicates whether both the SDK and Solana connection finished initializing.
+  /// @notice Holds the prepared transfer while User A reviews its simulated outcome.
+  const [pendingTransfer, setPendingTransfer] = useState<PreparedSponsoredTransfer | null>(
+    null
+  );
+  /// @notice Holds the simulation failure that blocked the last transfer attempt.
+  const [simulationFailure, setSimulationFailure] = useState<{
+    error: string;
+    logs: string[];
+  } | null>(null);
+  /// @notice Holds why the last signed transfer expired, so the dialog can offer a re-sign.
+  const [expiredReason, setExpiredReason] = useState<string | null>(null);
+  /// @notice Indicates whether the Solana connection and the token registry finished initializing.
   const [isInitialized, setIsInitialized] = useState(false);
-  /// @notice Flags when User A does not have enough USDC to transfer 0.01 tokens.
-  const [hasInsufficientUSDC, setHasInsufficientUSDC] = useState(false);
 
-  /// @notice Computes the transfer amount configured for the sample (defaults to 0.01).
-  const configuredTransferAmount =
-    Number(process.env.NEXT_PUBLIC_TRANSFER_AMOUNT) || 0.01;
+  /// @notice Initializes the Solana connection and the token registry, clearing the initialization notice or reporting the failure; User A connects a wallet afterwards.
+  const initializeApp = useCallback(
+    (solana: BrowserSdks["solana"]) => {
+      initializeConnection(solana);
+      return loadTokens()
+        .then((registry) => {
+          setSelectedMint(registry[0]?.mint ?? null);
+          setIsInitialized(true);
+          setStatus({ message: "", type: "info" });
+        })
+        .catch((error) => {
+          setStatus({
+            message: `Initialization failed: ${
+              error instanceof Error ? error.message : "Unknown error"
+            }`,
+            type: "error",
+          });
+          setIsInitialized(false);
+        });
+    },
+    [initializeConnection, loadTokens]
+  );
+
+  /// @notice Reloads the wallet cards' balances, logging a failed lookup; `fresh` skips the server cache.
+  const reloadBalances = useCallback(
+    async (fresh = false) =>
+      refreshBalances(
+        userAWallet,
+        recipientWallet ?? undefined,
+        devWallet,
+        selectedToken ?? undefined,
+        fresh
+      ).catch((error) => console.error("Balance lookup failed", error)),
+    [userAWallet, recipientWallet, devWallet, selectedToken, refreshBalances]
+  );
+
+  /// @notice Reloads User A's sponsorship allowance, logging a failed lookup.
+  const reloadAllowance = useCallback(async () => {
+    if (userAWallet) {
+      await refreshAllowance(userAWallet).catch((error) =>
+        console.error("Sponsorship allowance lookup failed", error)
+      );
+    }
+  }, [userAWallet, refreshAllowance]);
+
+  /// @notice Checks the sponsor's health, logging a failed check.
+  const reloadHealth = useCallback(
+    async () =>
+      refreshHealth().catch((error) => console.error("Sponsor health check failed", error)),
+    [refreshHealth]
+  );
+
+  /// @notice Loads a page of the sponsorship history under the current filter (the first page without a cursor), logging a failed lookup.
+  const reloadHistory = useCallback(
+    async (cursor?: string) => {
+      if (userAWallet) {
+        await loadHistory(userAWallet, historyStatusFilter || undefined, cursor).catch((error) =>
+          console.error("Sponsorship history lookup failed", error)
+        );
+      }
+    },
+    [userAWallet, historyStatusFilter, loadHistory]
+  );
+
+  /// @notice Loads a page of User A's on-chain transactions (the first page without a cursor), logging a failed lookup.
+  const reloadWalletHistory = useCallback(
+    async (cursor?: string) => {
+      if (userAWallet) {
+        await loadWalletHistory(userAWallet, cursor).catch((error) =>
+          console.error("Wallet history lookup failed", error)
+        );
+      }
+    },
+    [userAWallet, loadWalletHistory]
+  );
 
-  /// @notice Bootstraps the SDK plus Solana connection immediately after mount.
+  /// @notice Reloads everything a sponsored transaction changes: balances (skipping the cache), the allowance, the sponsor's health, and both histories.
+  const reloadAfterTransaction = useCallback(() => {
+    void reloadBalances(true);
+    void reloadAllowance();
+    void reloadHealth();
+    void reloadHistory();
+    void reloadWalletHistory();
+  }, [reloadBalances, reloadAllowance, reloadHealth, reloadHistory, reloadWalletHistory]);
+
+  /// @notice Bootstraps the Solana connection as soon as the Solana SDK has loaded.
   useEffect(() => {
-    void initializeApp();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+    if (solanaSdk.sdk) {
+      void initializeApp(solanaSdk.sdk);
+    }
+  }, [solanaSdk.sdk, initializeApp]);
 
-  /// @notice Refreshes balances each time wallets become available after initialization.
+  /// @notice Refreshes balances each time the wallets, the recipient, or the token change after initialization.
   useEffect(() => {
-    if (userAWallet && userBWallet && devWallet && isInitialized) {
-      void refreshBalances(userAWallet, userBWallet, devWallet);
+    if (isInitialized) {
+      void reloadBalances();
     }
-  }, [userAWallet, userBWallet, devWallet, isInitialized, refreshBalances]);
+  }, [isInitialized, reloadBalances]);
 
-  /// @notice Watches the USDC balance for User A to surface funding guidance.
+  /// @notice Discards a checked batch when the token changes, since its rows were validated for the previous mint.
   useEffect(() => {
-    const userABalanceLabel = balances.userA?.usdc;
-    if (!userABalanceLabel || userABalanceLabel === "Loading...") {
+    resetBatch();
+  }, [selectedMint, resetBatch]);
+
+  /// @notice Loads User A's sponsorship allowance once the wallet is known.
+  useEffect(() => {
+    if (isInitialized) {
+      void reloadAllowance();
+    }
+  }, [isInitialized, reloadAllowance]);
+
+  /// @notice Checks the sponsor's health after initialization and then periodically.
+  useEffect(() => {
+    if (!isInitialized) {
       return;
     }
-    const balanceValue = parseFloat(userABalanceLabel.replace(" USDC", ""));
-    const insufficient = Number.isFinite(balanceValue)
-      ? balanceValue < configuredTransferAmount
-      : true;
-    setHasInsufficientUSDC(insufficient);
-    if (insufficient && userABalanceLabel !== "Error") {
-      setStatus({
-        message:
-          "User A has insufficient USDC on devnet. Please fund this wallet to replay the sponsorship flow.",
-        type: "warning",
-      });
+    void reloadHealth();
+    const timer = setInterval(() => void reloadHealth(), HEALTH_POLL_MS);
+    return () => clearInterval(timer);
+  }, [isInitialized, reloadHealth]);
+
+  /// @notice Reloads the history panel whenever User A or the status filter changes.
+  useEffect(() => {
+    if (isInitialized) {
+      void reloadHistory();
+    }
+  }, [isInitialized, reloadHistory]);
+
+  /// @notice Loads User A's on-chain transactions once the app is initialized.
+  useEffect(() => {
+    if (isInitialized) {
+      void reloadWalletHistory();
     }
-  }, [balances.userA?.usdc, configuredTransferAmount]);
+  }, [isInitialized, reloadWalletHistory]);
 
-  /// @notice Initializes Solana plus MetaKeep while handling user-friendly status copy.
-  const initializeApp = async () => {
+  /// @notice Connects the chosen wallet and signs User A in with it.
+  const handleConnectWallet = async (option: UserSignerOption) => {
     try {
-      setStatus({
-        message: "Initializing MetaKeep SDK and Solana connection...",
-        type: "info",
-      });
-      await initializeConnection();
-      await initializeWallets();
-      setIsInitialized(true);
-      setStatus({ message: "", type: "info" });
+      setStatus({ message: `Connecting ${option.name}...`, type: "info" });
+      const connected = await connectSigner(option);
+      setStatus(
+        connected
+          ? { message: "", type: "info" }
+          : { message: `${option.name} connection was cancelled.`, type: "warning" }
+      );
     } catch (error) {
       setStatus({
-        message: `Initialization failed: ${
+        message: `Wallet connection failed: ${
           error instanceof Error ? error.message : "Unknown error"
         }`,
         type: "error",
       });
-      setIsInitialized(false);
+    }
+  };
+
+  /// @notice Disconnects User A's wallet so another one can be chosen.
+  const handleDisconnectWallet = async () => {
+    try {
+      await disconnectSigner();
+    } catch (error) {
+      console.error("Sign-out failed", error);
     }
   };
 
   /// @notice Refreshes all balances with optimistic UI updates.
   const handleRefreshBalances = async () => {
     try {
-      if (!userAWallet || !userBWallet || !devWallet) {
+      if (!userAWallet || !devWallet) {
         setStatus({
           message: "Wallet addresses are not ready yet. Please try again shortly.",
           type: "error",
@@ -139,7 +392,18 @@ export function MetaKeepApp() {
         return;
       }
       setStatus({ message: "Refreshing balances...", type: "info" });
-      await refreshBalances(userAWallet, userBWallet, devWallet);
+      await ensureSession();
+      await Promise.all([
+        refreshBalances(
+          userAWallet,
+          recipientWallet ?? undefined,
+          devWallet,
+          selectedToken ?? undefined,
+          true
+        ),
+        refreshAllowance(userAWallet),
+        refreshHealth(),
+      ]);
       setStatus({
         message: "Balances refreshed successfully!",
         type: "success",
@@ -156,10 +420,12 @@ export function MetaKeepApp() {
     }
   };
 
-  /// @notice Orchestrates the MetaKeep-assisted USDC transfer with developer-sponsored gas.
-  const handleTransferUSDC = async () => {
+  /// @notice Prepares and simulates the transfer on the server, then opens the preview dialog.
+  const handleTransfer = async () => {
+    setExpiredReason(null);
+    setSimulationFailure(null);
     try {
-      if (!connection || !sdk || !userAWallet || !userBWallet || !devWallet) {
+      if (!userAWallet || !selectedToken) {
         setStatus({
           message:
             "Missing wallet or connection details. Please initialize the experience again.",
@@ -167,25 +433,79 @@ export function MetaKeepApp() {
         });
         return;
       }
-      if (hasInsufficientUSDC) {
+      if (isSponsorDegraded) {
+        setStatus({
+          message: "Sponsorship is paused until the developer wallet recovers.",
+          type: "error",
+        });
+        return;
+      }
+      if (!recipientWallet || !amountCheck?.amount) {
+        setStatus({
+          message: recipientCheck.error ?? amountCheck?.error ?? "Check the recipient and amount.",
+          type: "error",
+        });
+        return;
+      }
+      await ensureSession();
+      setStatus({
+        message: `Simulating ${selectedToken.symbol} transfer...`,
+        type: "info",
+      });
+      const prepared = await prepareTransfer(
+        userAWallet,
+        recipientWallet,
+        selectedToken.mint,
+        amountInput.trim()
+      );
+      setPendingTransfer(prepared);
+      setStatus({ message: "Review the transfer before signing.", type: "info" });
+    } catch (error) {
+      if (error instanceof SponsorshipRequestError && error.code === "SIMULATION_FAILED") {
+        setSimulationFailure({ error: error.message, logs: error.logs });
+        setStatus({ message: "Transfer blocked: simulation failed.", type: "error" });
+        return;
+      }
+      setStatus({
+        message: `Transfer failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+        type: "error",
+      });
+      setTimeout(() => setStatus({ message: "", type: "info" }), 5000);
+    }
+  };
+
+  /// @notice Dismisses the preview dialog without signing.
+  const handleCancelPreview = () => {
+    setPendingTransfer(null);
+    setSimulationFailure(null);
+    setExpiredReason(null);
+    setStatus({ message: "", type: "info" });
+  };
+
+  /// @notice Signs the previewed transfer with User A's wallet and submits it for developer-sponsored gas.
+  const handleConfirmTransfer = async () => {
+    const prepared = pendingTransfer;
+    setPendingTransfer(null);
+    try {
+      if (!prepared || !connection || !signer || !userAWallet || !recipientWallet || !devWallet) {
         setStatus({
           message:
-            "User A has insufficient USDC on devnet. Please fund this wallet to continue.",
+            "Missing wallet or connection details. Please initialize the experience again.",
           type: "error",
         });
         return;
       }
       setStatus({
-        message: "Starting USDC transfer...",
+        message: `Starting ${prepared.tokenInfo.symbol} transfer...`,
         type: "info",
       });
-      const result = await transferUSDC(
+      const result = await executeTransfer(
         connection,
-        sdk,
-        userAWallet,
-        userBWallet,
-        devWallet,
-        configuredTransferAmount
+        signer,
+        prepared,
+        `Transfer ${amountInput.trim()} ${prepared.tokenInfo.symbol} to ${recipientWallet}`
       );
       if (result.success) {
         setStatus({
@@ -194,17 +514,31 @@ export function MetaKeepApp() {
         });
         setTransactionInfo({
           signature: result.signature,
-          solscanLink: `https://solscan.io/tx/${result.signature}?cluster=devnet`,
+          explorerLink: explorerTxLink(cluster, result.signature),
+          feeLamports: result.feeLamports,
+          priorityFeeLamports: result.priorityFeeLamports,
+          rentLamports: result.rentLamports,
+          computeUnitLimit: result.computeUnitLimit,
+          computeUnitPrice: result.computeUnitPrice,
         });
         setUserSignature(result.userSignature);
         setDeveloperSignature(result.developerSignature);
-        setTimeout(
-          () => void refreshBalances(userAWallet, userBWallet, devWallet),
-          2000
-        );
+        setTimeout(reloadAfterTransaction, 2000);
         setTimeout(() => setStatus({ message: "", type: "info" }), 5000);
       }
     } catch (error) {
+      if (isExpiredTransferError(error)) {
+        setExpiredReason((error as Error).message);
+        setStatus({ message: "Transfer expired before it landed.", type: "warning" });
+        return;
+      }
+      if (isUnconfirmedTransferError(error)) {
+        setStatus({
+          message: `${(error as Error).message} Check the explorer before sending it again.`,
+          type: "warning",
+        });
+        return;
+      }
       setStatus({
         message: `Transfer failed: ${
           error instanceof Error ? error.message : "Unknown error"
@@ -215,37 +549,176 @@ export function MetaKeepApp() {
     }
   };
 
+  /// @notice Parses the payout list and has the server validate and pack its rows.
+  const handleCheckBatch = async () => {
+    if (!userAWallet || !selectedToken) {
+      return;
+    }
+    try {
+      await ensureSession();
+      const plan = await planBatch(
+        userAWallet,
+        selectedToken.mint,
+        parsePayoutList(payoutListText)
+      );
+      const invalidRows = plan.rows.filter((row) => row.error).length;
+      setStatus({
+        message: `Payout list checked: ${plan.rows.length - invalidRows} valid and ${invalidRows} invalid rows in ${plan.transactions.length} transactions.`,
+        type: invalidRows || plan.error ? "warning" : "info",
+      });
+    } catch (error) {
+      setStatus({
+        message: `Payout list rejected: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+        type: "error",
+      });
+    }
+  };
+
+  /// @notice Runs (or resumes) the checked batch, then refreshes balances, allowance, and history.
+  const handleRunBatch = async () => {
+    if (!connection || !signer || !userAWallet || !selectedToken) {
+      setStatus({
+        message:
+          "Missing wallet or connection details. Please initialize the experience again.",
+        type: "error",
+      });
+      return;
+    }
+    if (isSponsorDegraded) {
+      setStatus({
+        message: "Sponsorship is paused until the developer wallet recovers.",
+        type: "error",
+      });
+      return;
+    }
+    try {
+      await ensureSession();
+    } catch (error) {
+      setStatus({
+        message: `Sign-in failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+        type: "error",
+      });
+      return;
+    }
+    setStatus({
+      message: `Running batch payouts: approve each transaction in ${signer.name}.`,
+      type: "info",
+    });
+    await runBatch(connection, signer, userAWallet, selectedToken);
+    setStatus({ message: "Batch run finished. See the per-row results below.", type: "info" });
+    reloadAfterTransaction();
+  };
+
+  /// @notice Summarizes User A's remaining sponsorship for the wallet card.
+  const sponsorshipAllowanceLabel = allowance
+    ? `${allowance.remainingTransactions}/${allowance.maxTransactions} tx · ${(
+        allowance.remainingLamports / 1_000_000_000
+      ).toFixed(4)} SOL`
+    : undefined;
+
   /// @notice Presents the wallet grid, CTA cluster, and transactional telemetry.
   return (
     <>
+      <HealthBanner health={health} />
+
+      <SdkLoadNotice
+        label={SDK_LABELS.solana}
+        state={solanaSdk}
+        impact="Balances and transfers are unavailable until it loads."
+        onRetry={() => retrySdk("solana")}
+      />
+      <SdkLoadNotice
+        label={SDK_LABELS.metaKeep}
+        state={metaKeepSdk}
+        impact="You can still connect a browser wallet."
+        onRetry={() => retrySdk("metaKeep")}
+      />
+
+      <WalletChooser
+        options={signerOptions}
+        connectedName={signer?.name ?? null}
+        onConnect={(option) => void handleConnectWallet(option)}
+        onDisconnect={() => void handleDisconnectWallet()}
+        disabled={
+          isInitializing ||
+          transferState.isTransferring ||
+          Boolean(pendingTransfer) ||
+          isRunningBatch
+        }
+      />
+
       <div className="wallet-section">
         <WalletCard
           title=" User A"
-          address={userAWallet || "Loading..."}
-          solBalance={balances.userA?.sol || "Loading..."}
-          usdcBalance={balances.userA?.usdc || "Loading..."}
+          address={userAWallet || "Not connected"}
+          solBalance={userAWallet ? balances.userA?.sol || "Loading..." : "—"}
+          tokenBalance={userAWallet ? balances.userA?.token || "Loading..." : "—"}
+          tokenSymbol={tokenSymbol}
+          sponsorshipAllowance={sponsorshipAllowanceLabel}
         />
         <WalletCard
-          title=" User B"
-          address={userBWallet || "Loading..."}
-          solBalance={balances.userB?.sol || "Loading..."}
-          usdcBalance={balances.userB?.usdc || "Loading..."}
+          title=" Recipient"
+          address={recipientWallet || "Enter a recipient below"}
+          solBalance={recipientWallet ? balances.recipient?.sol || "Loading..." : "—"}
+          tokenBalance={recipientWallet ? balances.recipient?.token || "Loading..." : "—"}
+          tokenSymbol={tokenSymbol}
         />
         <WalletCard
           title=" Developer Wallet"
           address={devWallet || "Loading..."}
           solBalance={balances.dev?.sol || "Loading..."}
-          usdcBalance={balances.dev?.usdc || "Loading..."}
+          tokenBalance={balances.dev?.token || "Loading..."}
+          tokenSymbol={tokenSymbol}
           isDeveloper
         />
       </div>
 
+      <TokenPicker
+        tokens={tokens}
+        selectedMint={selectedMint}
+        onSelect={setSelectedMint}
+        disabled={transferState.isTransferring || Boolean(pendingTransfer) || isRunningBatch}
+      />
+
+      <TransferForm
+        recipient={recipientInput}
+        amount={amountInput}
+        tokenSymbol={tokenSymbol}
+        maxAmountLabel={
+          selectedToken
+            ? formatTokenAmount(selectedToken.maxTransferAmount, selectedToken.decimals)
+            : undefined
+        }
+        recipientCheck={recipientCheck}
+        amountCheck={amountCheck}
+        onRecipientChange={setRecipientInput}
+        onAmountChange={setAmountInput}
+        disabled={transferState.isTransferring || Boolean(pendingTransfer) || isRunningBatch}
+      />
+
       <ActionButtons
         onRefreshBalances={handleRefreshBalances}
-        onTransferUSDC={handleTransferUSDC}
-        disabled={isInitializing}
+        onTransfer={handleTransfer}
+        tokenSymbol={tokenSymbol}
+        amountLabel={amountInput}
+        disabled={isInitializing || isRunningBatch || !userAWallet}
         isTransferring={transferState.isTransferring}
-        hasInsufficientUSDC={hasInsufficientUSDC}
+        isPreparing={transferState.isPreparing || Boolean(pendingTransfer)}
+        hasInsufficientBalance={hasInsufficientBalance}
+        isQuotaExhausted={allowance?.exhausted ?? false}
+        isFormInvalid={isFormInvalid}
+        isSponsorDegraded={isSponsorDegraded}
+      />
+
+      <TransferPreviewDialog
+        prepared={pendingTransfer}
+        simulationFailure={simulationFailure}
+        expiredReason={expiredReason}
+        onRetry={() => void handleTransfer()}
+        onConfirm={() => void handleConfirmTransfer()}
+        onCancel={handleCancelPreview}
       />
 
       <StatusSection
@@ -253,7 +726,56 @@ export function MetaKeepApp() {
         transactionInfo={transactionInfo}
         userSignature={userSignature}
         developerSignature={developerSignature}
+        confirmation={confirmation}
       />
+
+      {userAWallet && (
+        <BatchPayoutPanel
+          listText={payoutListText}
+          onListTextChange={setPayoutListText}
+          plan={payoutPlan}
+          results={payoutResults}
+          token={selectedToken}
+          cluster={cluster}
+          batchError={batchError}
+          isPlanning={isPlanningBatch}
+          isRunning={isRunningBatch}
+          disabled={
+            isInitializing ||
+            transferState.isTransferring ||
+            Boolean(pendingTransfer) ||
+            isSponsorDegraded
+          }
+          onCheck={() => void handleCheckBatch()}
+          onRun={() => void handleRunBatch()}
+          onReset={resetBatch}
+        />
+      )}
+
+      {userAWallet && (
+        <SponsorshipHistory
+          records={records}
+          cluster={cluster}
+          tokens={tokens}
+          statusFilter={historyStatusFilter}
+          onStatusFilterChange={setHistoryStatusFilter}
+          hasMore={Boolean(nextCursor)}
+          onLoadMore={() => void reloadHistory(nextCursor ?? undefined)}
+          isLoading={isLoadingHistory}
+        />
+      )}
+
+      {userAWallet && (
+        <WalletHistory
+          transactions={transactions}
+          cluster={cluster}
+          tokens={tokens}
+          untrackedTokenAccounts={untrackedTokenAccounts}
+          hasMore={Boolean(nextTransactionsCursor)}
+          onLoadMore={() => void reloadWalletHistory(nextTransactionsCursor ?? undefined)}
+          isLoading={isLoadingTransactions}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,51 @@
+/// @notice Imports the load-state shape rendered by the notice.
+import type { SdkLoadState } from "@/lib/sdkLoader";
+
+/// @notice Declares the SDK state and callbacks consumed by the notice.
+interface SdkLoadNoticeProps {
+  /// @notice SDK name shown in the copy.
+  label: string;
+  /// @notice Load state of the SDK.
+  state: SdkLoadState<unknown>;
+  /// @notice What stops working while the SDK is missing.
+  impact: string;
+  /// @notice Handler that loads the SDK again.
+  onRetry: () => void;
+}
+
+/// @notice Reports an SDK that is still loading or failed to load, with a retry; renders nothing once it is ready.
+export function SdkLoadNotice({
+  /// @notice SDK name.
+  label,
+  /// @notice Load state.
+  state,
+  /// @notice Impact copy.
+  impact,
+  /// @notice Retry callback.
+  onRetry,
+}: SdkLoadNoticeProps) {
+  if (state.status === "ready") {
+    return null;
+  }
+
+  /// @notice Renders the loading line, or the failure with its reason and a retry button.
+  return (
+    <div
+      className={`sdk-notice ${state.status}`}
+      role={state.status === "failed" ? "alert" : "status"}
+    >
+      {state.status === "loading" ? (
+        <span>Loading {label} SDK...</span>
+      ) : (
+        <>
+          <span>
+            {state.error} {impact}
+          </span>
+          <button className="btn btn-secondary" onClick={onRetry}>
+            Retry
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
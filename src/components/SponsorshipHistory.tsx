@@ -0,0 +1,158 @@
+/// @notice Builds explorer links for ledger rows.
+import { explorerTxLink } from "@/lib/explorer";
+/// @notice Formats base-unit token amounts with the mint's decimals.
+import { formatTokenAmount } from "@/lib/tokenAmount";
+/// @notice Imports the token shape used to name and scale amounts.
+import type { TokenInfo } from "@/types/token";
+/// @notice Imports the cluster configuration that supplies the explorer URL.
+import type { PublicClusterConfig } from "@/types/cluster";
+/// @notice Imports the ledger shapes rendered by the panel.
+import type { SponsorshipRecord, SponsorshipStatus } from "@/types/sponsorship";
+
+/// @notice Declares the data and callbacks consumed by the history panel.
+interface SponsorshipHistoryProps {
+  /// @notice Ledger records to render, newest first.
+  records: SponsorshipRecord[];
+  /// @notice Cluster the records were sent on, used for explorer links.
+  cluster: PublicClusterConfig;
+  /// @notice Sponsored tokens, used to format amounts by mint.
+  tokens: TokenInfo[];
+  /// @notice Currently selected status filter (empty string for all).
+  statusFilter: SponsorshipStatus | "";
+  /// @notice Handler invoked when the status filter changes.
+  onStatusFilterChange: (status: SponsorshipStatus | "") => void;
+  /// @notice Whether another page is available.
+  hasMore: boolean;
+  /// @notice Handler that loads the next page.
+  onLoadMore: () => void;
+  /// @notice Indicates whether a page request is in flight.
+  isLoading?: boolean;
+}
+
+/// @notice Shortens a base58 address for table cells.
+const shortenAddress = (address: string) =>
+  address.length > 12 ? `${address.slice(0, 4)}…${address.slice(-4)}` : address;
+
+/// @notice Formats a base-unit amount with its token's decimals and symbol, or raw base units for unknown mints.
+const formatMintAmount = (amount: string, mint: string, tokens: TokenInfo[]) => {
+  const token = tokens.find((entry) => entry.mint === mint);
+  return token
+    ? `${formatTokenAmount(amount, token.decimals)} ${token.symbol}`
+    : `${amount} base units`;
+};
+
+/// @notice Formats a record's total amount across its recipients.
+const formatRecordAmount = (record: SponsorshipRecord, tokens: TokenInfo[]) =>
+  formatMintAmount(record.amount, record.mint, tokens);
+
+/// @notice Lists every recipient of a record with its own amount, one per line, for the cell tooltip.
+const describeRecipients = (record: SponsorshipRecord, tokens: TokenInfo[]) =>
+  record.recipients
+    .map((leg) => `${leg.recipient}: ${formatMintAmount(leg.amount, leg.mint, tokens)}`)
+    .join("\n");
+
+/// @notice Formats the lamports the developer wallet spent on a record.
+const formatSponsoredCost = (record: SponsorshipRecord) =>
+  `${(
+    (record.feeLamports + record.rentLamports + record.priorityFeeLamports) /
+    1_000_000_000
+  ).toFixed(6)} SOL`;
+
+/// @notice Lists past sponsored transfers from the ledger with explorer links.
+export function SponsorshipHistory({
+  /// @notice Rows to render.
+  records,
+  /// @notice Cluster used for explorer links.
+  cluster,
+  /// @notice Tokens used to format amounts.
+  tokens,
+  /// @notice Selected status filter.
+  statusFilter,
+  /// @notice Status filter callback.
+  onStatusFilterChange,
+  /// @notice Whether the load-more button is shown.
+  hasMore,
+  /// @notice Load-more callback.
+  onLoadMore,
+  /// @notice Disables controls while loading.
+  isLoading = false,
+}: SponsorshipHistoryProps) {
+  /// @notice Renders the filter, the table of transfers, and the pagination control.
+  return (
+    <div className="history-section">
+      <div className="history-header">
+        <h4>📜 Sponsorship History</h4>
+        <select
+          value={statusFilter}
+          onChange={(event) =>
+            onStatusFilterChange(event.target.value as SponsorshipStatus | "")
+          }
+          disabled={isLoading}
+        >
+          <option value="">All statuses</option>
+          <option value="pending">Pending</option>
+          <option value="signed">Signed</option>
+          <option value="submitted">Submitted</option>
+          <option value="confirmed">Confirmed</option>
+          <option value="failed">Failed</option>
+        </select>
+      </div>
+
+      {records.length === 0 ? (
+        <p className="history-empty">
+          {isLoading ? "Loading history..." : "No sponsored transfers yet."}
+        </p>
+      ) : (
+        <table className="history-table">
+          <thead>
+            <tr>
+              <th>When</th>
+              <th>Recipient</th>
+              <th>Amount</th>
+              <th>Sponsored</th>
+              <th>Status</th>
+              <th>Explorer</th>
+            </tr>
+          </thead>
+          <tbody>
+            {records.map((record) => (
+              <tr key={record.id}>
+                <td>{new Date(record.createdAt).toLocaleString()}</td>
+                <td>
+                  <span title={describeRecipients(record, tokens)}>
+                    {shortenAddress(record.recipient)}
+                    {record.recipients.length > 1 ? ` +${record.recipients.length - 1} more` : ""}
+                  </span>
+                </td>
+                <td>{formatRecordAmount(record, tokens)}</td>
+                <td>{formatSponsoredCost(record)}</td>
+                <td className={`history-status ${record.status}`} title={record.failureReason ?? ""}>
+                  {record.status}
+                </td>
+                <td>
+                  {record.signature ? (
+                    <a
+                      href={explorerTxLink(cluster, record.signature)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                    >
+                      View
+                    </a>
+                  ) : (
+                    "—"
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {hasMore && (
+        <button className="btn btn-secondary" onClick={onLoadMore} disabled={isLoading}>
+          {isLoading ? "Loading..." : "Load More"}
+        </button>
+      )}
+    </div>
+  );
+}
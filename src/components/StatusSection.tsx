@@ -1,15 +1,45 @@
+/// @notice Imports the confirmation progress shape reported while the transfer lands.
+import type { ConfirmationProgress } from "@/types/confirmation";
+
 /// @notice Shapes the props passed into the status and transaction summary block.
 interface StatusSectionProps {
   /// @notice Current status message surface along with its severity.
   status: { message: string; type: "info" | "success" | "error" | "warning" };
-  /// @notice Details about the last confirmed transfer, including Solscan deep link.
-  transactionInfo: { signature: string; solscanLink: string } | null;
+  /// @notice Details about the last confirmed transfer, including explorer deep link, sponsored costs, and compute budget.
+  transactionInfo: {
+    signature: string;
+    explorerLink: string;
+    feeLamports: number;
+    priorityFeeLamports: number;
+    rentLamports: number;
+    computeUnitLimit: number | null;
+    computeUnitPrice: number;
+  } | null;
   /// @notice Signature payload returned by MetaKeep for the user wallet.
   userSignature?: { signature: string } | null;
   /// @notice Signature payload returned by MetaKeep for the developer wallet.
   developerSignature?: { signature: string } | null;
+  /// @notice Live progress of the submitted transaction through its commitment stages.
+  confirmation?: ConfirmationProgress | null;
 }
 
+/// @notice Commitment stages shown in the confirmation tracker, in order.
+const CONFIRMATION_STEPS = ["processed", "confirmed", "finalized"] as const;
+
+/// @notice Headline of each way tracking can end without the transaction confirming.
+const OUTCOME_LABELS = {
+  expired: "⌛ Dropped / expired",
+  failed: "❌ Failed",
+  unconfirmed: "⏳ Unconfirmed",
+} as const;
+
+/// @notice Formats elapsed milliseconds as seconds.
+const formatElapsed = (elapsedMs: number) => `${(elapsedMs / 1000).toFixed(1)}s`;
+
+/// @notice Formats a lamport amount as a SOL label.
+const formatLamports = (lamports: number) =>
+  `${(lamports / 1_000_000_000).toFixed(6)} SOL`;
+
 /// @notice Renders operational status, signatures, and transaction metadata to help auditors follow along.
 export function StatusSection({
   /// @notice Live status copy.
@@ -20,6 +50,8 @@ export function StatusSection({
   userSignature,
   /// @notice Signature data produced for the developer wallet.
   developerSignature,
+  /// @notice Commitment progress of the submitted transaction.
+  confirmation,
 }: StatusSectionProps) {
   /// @notice Indicates whether the status banner has actionable copy.
   const hasStatus = Boolean(status.message);
@@ -45,6 +77,40 @@ export function StatusSection({
         </div>
       )}
 
+      {confirmation && (
+        <div className="confirmation-tracker">
+          <h4>📡 Confirmation</h4>
+          <ol className="confirmation-steps">
+            {CONFIRMATION_STEPS.map((step) => {
+              const milestone = confirmation.milestones[step];
+              return (
+                <li key={step} className={milestone ? "reached" : "pending"}>
+                  <span className="confirmation-stage">{step}</span>
+                  <span className="confirmation-detail">
+                    {milestone
+                      ? `${milestone.slot !== null ? `slot ${milestone.slot.toLocaleString()} · ` : ""}${formatElapsed(milestone.elapsedMs)}`
+                      : "waiting"}
+                  </span>
+                </li>
+              );
+            })}
+          </ol>
+          {confirmation.stage === "expired" ||
+          confirmation.stage === "failed" ||
+          confirmation.stage === "unconfirmed" ? (
+            <p className={`confirmation-outcome ${confirmation.stage}`}>
+              {OUTCOME_LABELS[confirmation.stage]}: {confirmation.error}
+            </p>
+          ) : (
+            <p className="confirmation-elapsed">
+              {confirmation.stage === "finalized" ? "Finalized after" : "Elapsed:"}{" "}
+              {formatElapsed(confirmation.elapsedMs)}
+              {confirmation.slot !== null && ` · last seen at slot ${confirmation.slot.toLocaleString()}`}
+            </p>
+          )}
+        </div>
+      )}
+
       {transactionInfo && (
         <div className="transaction-info">
           <h4>✅ Transaction Details</h4>
@@ -53,14 +119,37 @@ export function StatusSection({
             <span>{transactionInfo.signature}</span>
           </p>
           <p>
-            <strong>Solscan:</strong>{" "}
+            <strong>Network Fee (sponsored):</strong>{" "}
+            <span>{formatLamports(transactionInfo.feeLamports)}</span>
+          </p>
+          <p>
+            <strong>Priority Fee (sponsored):</strong>{" "}
+            <span>{formatLamports(transactionInfo.priorityFeeLamports)}</span>
+          </p>
+          {transactionInfo.computeUnitLimit !== null && (
+            <p>
+              <strong>Compute Budget:</strong>{" "}
+              <span>
+                {transactionInfo.computeUnitLimit.toLocaleString()} CU at{" "}
+                {transactionInfo.computeUnitPrice.toLocaleString()} micro-lamports/CU
+              </span>
+            </p>
+          )}
+          {transactionInfo.rentLamports > 0 && (
+            <p>
+              <strong>User B Token Account Rent (sponsored):</strong>{" "}
+              <span>{formatLamports(transactionInfo.rentLamports)}</span>
+            </p>
+          )}
+          <p>
+            <strong>Explorer:</strong>{" "}
             <a
-              href={transactionInfo.solscanLink}
+              href={transactionInfo.explorerLink}
               target="_blank"
               rel="noopener noreferrer"
               className="solscan-link"
             >
-              View on Solscan
+              View in Explorer
             </a>
           </p>
         </div>
@@ -0,0 +1,63 @@
+/// @notice Imports the token shape listed by the picker.
+import type { TokenInfo } from "@/types/token";
+
+/// @notice Declares the data and callbacks consumed by the token picker.
+interface TokenPickerProps {
+  /// @notice Tokens the developer wallet sponsors.
+  tokens: TokenInfo[];
+  /// @notice Mint of the selected token, or null before the registry loads.
+  selectedMint: string | null;
+  /// @notice Handler invoked with the mint the user picks.
+  onSelect: (mint: string) => void;
+  /// @notice Disables the picker while a transfer is underway.
+  disabled?: boolean;
+}
+
+/// @notice Token-2022 program id, compared as a string so the picker stays free of web3.js.
+const TOKEN_2022_PROGRAM_ID = "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb";
+
+/// @notice Labels Token-2022 mints and their transfer fee so the choice is informed.
+const describeToken = (token: TokenInfo) => {
+  const details = [token.programId === TOKEN_2022_PROGRAM_ID ? "Token-2022" : null];
+  if (token.transferFee) {
+    details.push(`${token.transferFee.basisPoints / 100}% transfer fee`);
+  }
+  const suffix = details.filter(Boolean).join(", ");
+  return suffix ? `${token.symbol} (${suffix})` : token.symbol;
+};
+
+/// @notice Lets the user pick which sponsored token to send.
+export function TokenPicker({
+  /// @notice Options to list.
+  tokens,
+  /// @notice Current selection.
+  selectedMint,
+  /// @notice Selection callback.
+  onSelect,
+  /// @notice Locks the picker.
+  disabled = false,
+}: TokenPickerProps) {
+  /// @notice Renders nothing until there is more than one token to choose from.
+  if (tokens.length < 2) {
+    return null;
+  }
+
+  /// @notice Renders the token select.
+  return (
+    <div className="token-picker">
+      <label htmlFor="token-picker">Token to send</label>
+      <select
+        id="token-picker"
+        value={selectedMint ?? ""}
+        onChange={(event) => onSelect(event.target.value)}
+        disabled={disabled}
+      >
+        {tokens.map((token) => (
+          <option key={token.mint} value={token.mint}>
+            {describeToken(token)}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
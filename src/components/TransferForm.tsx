@@ -0,0 +1,89 @@
+/// @notice Imports the validation outcomes rendered under each field.
+import type { AmountCheck, RecipientCheck } from "@/lib/transferForm";
+
+/// @notice Declares the field values, validation results, and callbacks consumed by the transfer form.
+interface TransferFormProps {
+  /// @notice Recipient address as typed.
+  recipient: string;
+  /// @notice Amount as typed, in whole tokens.
+  amount: string;
+  /// @notice Symbol of the selected token, shown next to the amount.
+  tokenSymbol: string;
+  /// @notice Largest amount the sponsor covers for the selected token, already formatted.
+  maxAmountLabel?: string;
+  /// @notice Validation result for the recipient field.
+  recipientCheck: RecipientCheck;
+  /// @notice Validation result for the amount field, or null before a token is selected.
+  amountCheck: AmountCheck | null;
+  /// @notice Handler invoked with the new recipient text.
+  onRecipientChange: (value: string) => void;
+  /// @notice Handler invoked with the new amount text.
+  onAmountChange: (value: string) => void;
+  /// @notice Locks the fields while a transfer is underway.
+  disabled?: boolean;
+}
+
+/// @notice Collects the recipient and amount of the next transfer and shows their validation.
+export function TransferForm({
+  /// @notice Recipient text.
+  recipient,
+  /// @notice Amount text.
+  amount,
+  /// @notice Token symbol.
+  tokenSymbol,
+  /// @notice Sponsor cap label.
+  maxAmountLabel,
+  /// @notice Recipient validation.
+  recipientCheck,
+  /// @notice Amount validation.
+  amountCheck,
+  /// @notice Recipient change callback.
+  onRecipientChange,
+  /// @notice Amount change callback.
+  onAmountChange,
+  /// @notice Locks the form.
+  disabled = false,
+}: TransferFormProps) {
+  /// @notice Renders the two fields with their inline errors and warnings.
+  return (
+    <div className="transfer-form">
+      <div className="transfer-field">
+        <label htmlFor="transfer-recipient">Recipient</label>
+        <input
+          id="transfer-recipient"
+          type="text"
+          value={recipient}
+          onChange={(event) => onRecipientChange(event.target.value)}
+          placeholder="Solana wallet address"
+          spellCheck={false}
+          autoComplete="off"
+          disabled={disabled}
+        />
+        {recipientCheck.error && <p className="field-error">{recipientCheck.error}</p>}
+        {recipientCheck.warning && <p className="field-warning">⚠️ {recipientCheck.warning}</p>}
+      </div>
+      <div className="transfer-field">
+        <label htmlFor="transfer-amount">Amount ({tokenSymbol})</label>
+        <input
+          id="transfer-amount"
+          type="text"
+          inputMode="decimal"
+          value={amount}
+          onChange={(event) => onAmountChange(event.target.value)}
+          placeholder="0.00"
+          autoComplete="off"
+          disabled={disabled}
+        />
+        {amountCheck?.error ? (
+          <p className="field-error">{amountCheck.error}</p>
+        ) : (
+          maxAmountLabel && (
+            <p className="field-hint">
+              Sponsored up to {maxAmountLabel} {tokenSymbol} per transfer.
+            </p>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
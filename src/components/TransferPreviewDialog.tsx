@@ -0,0 +1,174 @@
+/// @notice Formats base-unit token amounts with the mint's decimals.
+import { formatTokenAmount } from "@/lib/tokenAmount";
+/// @notice Imports the prepare payload the dialog previews.
+import type { PreparedSponsoredTransfer } from "@/lib/sponsorship/sponsoredTransfer";
+
+/// @notice Declares the data and callbacks consumed by the pre-sign preview dialog.
+interface TransferPreviewDialogProps {
+  /// @notice Prepared transfer awaiting User A's approval, or null when simulation failed.
+  prepared: PreparedSponsoredTransfer | null;
+  /// @notice Simulation failure that blocks the transfer, with the program logs.
+  simulationFailure: { error: string; logs: string[] } | null;
+  /// @notice Reason the last signed transfer expired before landing, or null.
+  expiredReason: string | null;
+  /// @notice Handler that prepares a fresh transfer for User A to sign again.
+  onRetry: () => void;
+  /// @notice Handler that signs and submits the previewed transfer.
+  onConfirm: () => void;
+  /// @notice Handler that dismisses the dialog without signing.
+  onCancel: () => void;
+}
+
+/// @notice Formats a lamport amount as a SOL label.
+const formatLamports = (lamports: number) =>
+  `${(lamports / 1_000_000_000).toFixed(6)} SOL`;
+
+/// @notice Formats the signed difference between two base-unit balances.
+const formatBalanceChange = (before: string, after: string, decimals: number) => {
+  const change = BigInt(after) - BigInt(before);
+  return `${change > BigInt(0) ? "+" : ""}${formatTokenAmount(change, decimals)}`;
+};
+
+/// @notice Shows what a prepared transfer will do, as simulated, before MetaKeep asks User A to sign it.
+export function TransferPreviewDialog({
+  /// @notice Transfer being previewed.
+  prepared,
+  /// @notice Blocking simulation failure.
+  simulationFailure,
+  /// @notice Expiry notice offering a re-sign.
+  expiredReason,
+  /// @notice Re-sign callback.
+  onRetry,
+  /// @notice Confirm callback.
+  onConfirm,
+  /// @notice Cancel callback.
+  onCancel,
+}: TransferPreviewDialogProps) {
+  /// @notice Renders nothing until there is something to preview.
+  if (!prepared && !simulationFailure && !expiredReason) {
+    return null;
+  }
+
+  /// @notice Renders the modal with either the simulated outcome or the blocking failure.
+  return (
+    <div className="preview-overlay">
+      <div className="preview-dialog" role="dialog" aria-modal="true">
+        {expiredReason ? (
+          <>
+            <h4>⌛ Transaction Expired</h4>
+            <p className="preview-error">{expiredReason}</p>
+            <p>
+              Nothing was transferred. Prepare the transfer again to review and sign a fresh
+              transaction.
+            </p>
+            <div className="preview-actions">
+              <button onClick={onCancel} className="btn btn-secondary">
+                Close
+              </button>
+              <button onClick={onRetry} className="btn btn-primary">
+                Prepare Again
+              </button>
+            </div>
+          </>
+        ) : simulationFailure ? (
+          <>
+            <h4>⛔ Transfer Blocked</h4>
+            <p className="preview-error">{simulationFailure.error}</p>
+            {simulationFailure.logs.length > 0 && (
+              <pre className="preview-logs">{simulationFailure.logs.join("\n")}</pre>
+            )}
+            <div className="preview-actions">
+              <button onClick={onCancel} className="btn btn-secondary">
+                Close
+              </button>
+            </div>
+          </>
+        ) : (
+          prepared && (
+            <>
+              <h4>🔍 Review Transfer</h4>
+
+              <h5>Instructions</h5>
+              <ol className="preview-instructions">
+                {prepared.preview.instructions.map((instruction, index) => (
+                  <li key={index}>
+                    <strong>{instruction.program}:</strong> {instruction.description}
+                  </li>
+                ))}
+              </ol>
+
+              <h5>Token Balance Changes</h5>
+              <table className="preview-table">
+                <tbody>
+                  {prepared.preview.balanceChanges.map((change) => (
+                    <tr key={change.account}>
+                      <td>{change.label}</td>
+                      <td>
+                        {formatTokenAmount(change.before, change.decimals)} →{" "}
+                        {formatTokenAmount(change.after, change.decimals)} {change.symbol}
+                      </td>
+                      <td>
+                        <strong>
+                          {formatBalanceChange(change.before, change.after, change.decimals)}
+                        </strong>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {BigInt(prepared.transferFee) > BigInt(0) && (
+                <p className="preview-note">
+                  Includes a {prepared.tokenInfo.symbol} transfer fee of{" "}
+                  {formatTokenAmount(prepared.transferFee, prepared.tokenInfo.decimals)}{" "}
+                  {prepared.tokenInfo.symbol}, withheld by the mint from what User B receives.
+                </p>
+              )}
+
+              <h5>Covered by the Developer Wallet</h5>
+              <table className="preview-table">
+                <tbody>
+                  <tr>
+                    <td>Network fee</td>
+                    <td>{formatLamports(prepared.feeLamports)}</td>
+                  </tr>
+                  <tr>
+                    <td>Priority fee</td>
+                    <td>{formatLamports(prepared.priorityFeeLamports)}</td>
+                  </tr>
+                  {prepared.rentLamports > 0 && (
+                    <tr>
+                      <td>User B token account rent</td>
+                      <td>{formatLamports(prepared.rentLamports)}</td>
+                    </tr>
+                  )}
+                  <tr>
+                    <td>Compute units</td>
+                    <td>
+                      {prepared.preview.unitsConsumed.toLocaleString()} used of{" "}
+                      {prepared.computeUnitLimit.toLocaleString()} requested
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+
+              <p className="preview-note">
+                {prepared.nonce
+                  ? "Signing window: no time limit (durable nonce)."
+                  : `Signing window: until block height ${prepared.lastValidBlockHeight?.toLocaleString()}.`}
+              </p>
+
+              <div className="preview-actions">
+                <button onClick={onCancel} className="btn btn-secondary">
+                  Cancel
+                </button>
+                <button onClick={onConfirm} className="btn btn-primary">
+                  Sign with MetaKeep
+                </button>
+              </div>
+            </>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
@@ -6,13 +6,17 @@ interface WalletCardProps {
   address: string;
   /// @notice SOL balance string (already formatted with the unit suffix).
   solBalance: string;
-  /// @notice USDC balance string (already formatted with the unit suffix).
-  usdcBalance: string;
+  /// @notice Balance string of the selected token (already formatted with the unit suffix).
+  tokenBalance: string;
+  /// @notice Symbol of the selected token, used in the balance label.
+  tokenSymbol: string;
   /// @notice Flag that highlights the developer wallet with a tinted border.
   isDeveloper?: boolean;
+  /// @notice Remaining gas-sponsorship allowance label, shown for User A.
+  sponsorshipAllowance?: string;
 }
 
-/// @notice Presents a single wallet summary including address plus SOL/USDC balances.
+/// @notice Presents a single wallet summary including address plus SOL and token balances.
 export function WalletCard({
   /// @notice User-facing label for the card.
   title,
@@ -20,10 +24,14 @@ export function WalletCard({
   address,
   /// @notice SOL balance label.
   solBalance,
-  /// @notice USDC balance label.
-  usdcBalance,
+  /// @notice Token balance label.
+  tokenBalance,
+  /// @notice Token symbol.
+  tokenSymbol,
   /// @notice Indicates if the wallet belongs to the sponsoring developer.
   isDeveloper = false,
+  /// @notice Optional sponsorship allowance label.
+  sponsorshipAllowance,
 }: WalletCardProps) {
   /// @notice Chooses the CSS class that tints developer cards differently.
   const cardClass = isDeveloper ? "wallet-card developer" : "wallet-card";
@@ -38,8 +46,13 @@ export function WalletCard({
         <strong>SOL Balance:</strong> <span>{solBalance}</span>
       </p>
       <p>
-        <strong>USDC Balance:</strong> <span>{usdcBalance}</span>
+        <strong>{tokenSymbol} Balance:</strong> <span>{tokenBalance}</span>
       </p>
+      {sponsorshipAllowance && (
+        <p>
+          <strong>Sponsorship Left:</strong> <span>{sponsorshipAllowance}</span>
+        </p>
+      )}
     </div>
   );
 
@@ -0,0 +1,66 @@
+/// @notice Imports the chooser option shape.
+import type { UserSignerOption } from "@/types/signer";
+
+/// @notice Declares the options and callbacks consumed by the wallet chooser.
+interface WalletChooserProps {
+  /// @notice Wallets User A can connect: MetaKeep plus detected browser wallets.
+  options: UserSignerOption[];
+  /// @notice Name of the connected wallet, or null before one is connected.
+  connectedName: string | null;
+  /// @notice Handler invoked with the wallet the user picks.
+  onConnect: (option: UserSignerOption) => void;
+  /// @notice Handler that disconnects the wallet so another one can be picked.
+  onDisconnect: () => void;
+  /// @notice Disables the buttons while a wallet is connecting or a transfer is underway.
+  disabled?: boolean;
+}
+
+/// @notice Lets User A pick the wallet that signs sponsored transfers, or switch wallets once connected.
+export function WalletChooser({
+  /// @notice Wallets to offer.
+  options,
+  /// @notice Connected wallet name.
+  connectedName,
+  /// @notice Connect callback.
+  onConnect,
+  /// @notice Disconnect callback.
+  onDisconnect,
+  /// @notice Locks the buttons.
+  disabled = false,
+}: WalletChooserProps) {
+  /// @notice Shows the connected wallet with a switch button once one is connected.
+  if (connectedName) {
+    return (
+      <div className="wallet-chooser">
+        <span>Signing with {connectedName}</span>
+        <button className="btn btn-secondary" onClick={onDisconnect} disabled={disabled}>
+          Switch Wallet
+        </button>
+      </div>
+    );
+  }
+
+  /// @notice Renders one connect button per wallet, with a hint when no browser wallet was found.
+  return (
+    <div className="wallet-chooser">
+      <span>Connect User A with</span>
+      {options.map((option) => (
+        <button
+          key={option.id}
+          className="btn btn-secondary"
+          onClick={() => onConnect(option)}
+          disabled={disabled}
+        >
+          {option.icon && (
+            /* eslint-disable-next-line @next/next/no-img-element */
+            <img src={option.icon} alt="" width={20} height={20} />
+          )}
+          {option.name}
+        </button>
+      ))}
+      {options.every((option) => option.kind !== "wallet-standard") && (
+        <small>No browser wallet detected. Install Phantom or Backpack to use your own.</small>
+      )}
+    </div>
+  );
+}
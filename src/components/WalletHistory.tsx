@@ -0,0 +1,150 @@
+/// @notice Builds explorer links for transaction rows.
+import { explorerTxLink } from "@/lib/explorer";
+/// @notice Formats base-unit amounts with their decimals.
+import { formatTokenAmount } from "@/lib/tokenAmount";
+/// @notice Imports the token shape used to name amounts.
+import type { TokenInfo } from "@/types/token";
+/// @notice Imports the cluster configuration that supplies the explorer URL.
+import type { PublicClusterConfig } from "@/types/cluster";
+/// @notice Imports the transaction shape rendered by the panel.
+import type { WalletTransaction } from "@/types/history";
+
+/// @notice Declares the data and callbacks consumed by the wallet history panel.
+interface WalletHistoryProps {
+  /// @notice Transactions to render, newest first.
+  transactions: WalletTransaction[];
+  /// @notice Cluster the transactions landed on, used for explorer links.
+  cluster: PublicClusterConfig;
+  /// @notice Sponsored tokens, used to name amounts by mint.
+  tokens: TokenInfo[];
+  /// @notice Token accounts whose transfers are not listed.
+  untrackedTokenAccounts?: number;
+  /// @notice Whether another page is available.
+  hasMore: boolean;
+  /// @notice Handler that loads the next page.
+  onLoadMore: () => void;
+  /// @notice Indicates whether a page request is in flight.
+  isLoading?: boolean;
+}
+
+/// @notice Labels shown for each direction.
+const DIRECTION_LABELS: Record<WalletTransaction["direction"], string> = {
+  sent: "↑ Sent",
+  received: "↓ Received",
+  other: "• Other",
+};
+
+/// @notice Shortens a base58 address for table cells.
+const shortenAddress = (address: string) =>
+  address.length > 12 ? `${address.slice(0, 4)}…${address.slice(-4)}` : address;
+
+/// @notice Formats a transaction's amount with its decimals and the token's symbol (SOL when no token moved, the shortened mint for unknown tokens).
+const formatTransactionAmount = (transaction: WalletTransaction, tokens: TokenInfo[]) => {
+  if (transaction.direction === "other") {
+    return "—";
+  }
+  const symbol = transaction.mint
+    ? (tokens.find((token) => token.mint === transaction.mint)?.symbol ??
+      shortenAddress(transaction.mint))
+    : "SOL";
+  return `${formatTokenAmount(transaction.amount, transaction.decimals)} ${symbol}`;
+};
+
+/// @notice Lists User A's on-chain transactions with who paid the fee and explorer links.
+export function WalletHistory({
+  /// @notice Rows to render.
+  transactions,
+  /// @notice Cluster used for explorer links.
+  cluster,
+  /// @notice Tokens used to name amounts.
+  tokens,
+  /// @notice Count shown in the truncation note.
+  untrackedTokenAccounts = 0,
+  /// @notice Whether the load-more button is shown.
+  hasMore,
+  /// @notice Load-more callback.
+  onLoadMore,
+  /// @notice Disables controls while loading.
+  isLoading = false,
+}: WalletHistoryProps) {
+  /// @notice Renders the table of transactions and the pagination control.
+  return (
+    <div className="history-section">
+      <div className="history-header">
+        <h4>🧾 Wallet Transactions</h4>
+      </div>
+      {untrackedTokenAccounts > 0 && (
+        <p className="history-note">
+          Transfers to {untrackedTokenAccounts} other token account
+          {untrackedTokenAccounts === 1 ? " are" : "s are"} not listed.
+        </p>
+      )}
+
+      {transactions.length === 0 ? (
+        <p className="history-empty">
+          {isLoading ? "Loading transactions..." : "No transactions yet."}
+        </p>
+      ) : (
+        <table className="history-table">
+          <thead>
+            <tr>
+              <th>When</th>
+              <th>Direction</th>
+              <th>Counterparty</th>
+              <th>Amount</th>
+              <th>Fee Paid By</th>
+              <th>Explorer</th>
+            </tr>
+          </thead>
+          <tbody>
+            {transactions.map((transaction) => (
+              <tr key={transaction.signature}>
+                <td>
+                  {transaction.blockTime !== null
+                    ? new Date(transaction.blockTime * 1000).toLocaleString()
+                    : `Slot ${transaction.slot.toLocaleString()}`}
+                </td>
+                <td
+                  className={`history-direction ${
+                    transaction.error ? "failed" : transaction.direction
+                  }`}
+                  title={transaction.error ?? ""}
+                >
+                  {transaction.error ? "✕ Failed" : DIRECTION_LABELS[transaction.direction]}
+                </td>
+                <td>
+                  <span>
+                    {transaction.counterparty ? shortenAddress(transaction.counterparty) : "—"}
+                  </span>
+                </td>
+                <td>{formatTransactionAmount(transaction, tokens)}</td>
+                <td>
+                  {transaction.sponsored ? (
+                    <span className="history-sponsored">Developer (sponsored)</span>
+                  ) : (
+                    <span>{shortenAddress(transaction.feePayer)}</span>
+                  )}
+                </td>
+                <td>
+                  <a
+                    href={explorerTxLink(cluster, transaction.signature)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                  >
+                    View
+                  </a>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {hasMore && (
+        <button className="btn btn-secondary" onClick={onLoadMore} disabled={isLoading}>
+          {isLoading ? "Loading..." : "Load More"}
+        </button>
+      )}
+    </div>
+  );
+}
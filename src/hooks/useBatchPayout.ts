@@ -0,0 +1,285 @@
+/// @notice Imports React state utilities to expose batch progress to the UI.
+import { useCallback, useState } from "react";
+/// @notice Imports the Solana connection type used to track submitted transactions.
+import type { Connection } from "@solana/web3.js";
+/// @notice Tells whether an earlier attempt's blockhash or durable nonce can still be used.
+import { hasLifetimeEnded } from "@/lib/solana/confirmation";
+/// @notice Reuses the single-transfer sign, submit, and confirm path for every batch transaction.
+import { postSponsorshipRoute, signAndSubmitTransfer } from "@/hooks/useTransfer";
+/// @notice Formats transaction totals for the wallet approval note.
+import { formatTokenAmount } from "@/lib/tokenAmount";
+/// @notice Pauses the run instead of failing rows when User A declines an approval.
+import { isSigningCancelled } from "@/lib/signers/errors";
+/// @notice Imports the signer contract User A's wallet implements.
+import type { UserSigner } from "@/types/signer";
+/// @notice Imports the prepare payload returned for each batch transaction.
+import type { PreparedSponsoredTransfer } from "@/lib/sponsorship/sponsoredTransfer";
+/// @notice Imports the token and batch shapes shared with the server.
+import type { TokenInfo } from "@/types/token";
+import type {
+  PayoutAttempt,
+  PayoutPlan,
+  PayoutRowInput,
+  PayoutRowResult,
+  PlannedPayoutRow,
+} from "@/types/batch";
+
+/// @notice What became of the earlier attempts of a transaction.
+type AttemptsOutcome =
+  | { outcome: "confirmed" | "pending"; signature: string }
+  | { outcome: "dropped" };
+
+/// @notice Looks the earlier attempts up in the transaction history: `confirmed` when one landed, `pending` when one may still land (seen but unconfirmed, or its lifetime has not ended), and `dropped` when none can, so only then is the transaction paid again.
+async function checkEarlierAttempts(
+  connection: Connection,
+  attempts: PayoutAttempt[]
+): Promise<AttemptsOutcome> {
+  const { value: statuses } = await connection.getSignatureStatuses(
+    attempts.map((attempt) => attempt.signature),
+    { searchTransactionHistory: true }
+  );
+  const landed = attempts.find(
+    (_, index) =>
+      statuses[index] &&
+      !statuses[index]?.err &&
+      (statuses[index]?.confirmationStatus === "confirmed" ||
+        statuses[index]?.confirmationStatus === "finalized")
+  );
+  if (landed) {
+    return { outcome: "confirmed", signature: landed.signature };
+  }
+  for (const [index, attempt] of attempts.entries()) {
+    const status = statuses[index];
+    if (status ? !status.err : !(await hasLifetimeEnded(connection, attempt.lifetime))) {
+      return { outcome: "pending", signature: attempt.signature };
+    }
+  }
+  return { outcome: "dropped" };
+}
+
+/// @notice localStorage key prefix for saved batch progress, followed by the batch id.
+const STORAGE_PREFIX = "batch-payout:";
+
+/// @notice A batch's plan and per-row results, saved so it can be resumed after a reload.
+interface SavedBatch {
+  /// @notice Plan the saved transactions were packed from.
+  plan: PayoutPlan;
+  /// @notice Outcome of every row, with the signatures broadcast for it.
+  results: Record<number, PayoutRowResult>;
+}
+
+/// @notice Reads the progress saved for a batch, or null when there is none or it cannot be read.
+function loadSavedBatch(id: string): SavedBatch | null {
+  try {
+    const saved = window.localStorage.getItem(`${STORAGE_PREFIX}${id}`);
+    return saved ? (JSON.parse(saved) as SavedBatch) : null;
+  } catch {
+    return null;
+  }
+}
+
+/// @notice Saves a batch's plan and results; when storage is unavailable the batch can still be resumed until the page is reloaded.
+function saveBatch(plan: PayoutPlan, results: Record<number, PayoutRowResult>) {
+  try {
+    window.localStorage.setItem(
+      `${STORAGE_PREFIX}${plan.id}`,
+      JSON.stringify({ plan, results } satisfies SavedBatch)
+    );
+  } catch {
+    /// @notice Storage is full or disabled; progress stays in memory only.
+  }
+}
+
+/// @notice Plans a payout batch on the server, then signs and submits its transactions one wallet approval at a time, keeping per-row results in localStorage so a batch can be resumed, even after a reload.
+export function useBatchPayout() {
+  /// @notice Validated rows and their packing into transactions, or null before a list is checked.
+  const [plan, setPlan] = useState<PayoutPlan | null>(null);
+  /// @notice Outcome of every row, keyed by row number.
+  const [results, setResults] = useState<Record<number, PayoutRowResult>>({});
+  /// @notice Indicates whether the server is validating the list.
+  const [isPlanning, setIsPlanning] = useState(false);
+  /// @notice Indicates whether transactions are being signed and submitted.
+  const [isRunning, setIsRunning] = useState(false);
+  /// @notice Why the last plan or run stopped, or null.
+  const [batchError, setBatchError] = useState<string | null>(null);
+
+  /// @notice Validates the rows on the server and packs the valid ones into transactions.
+  const planBatch = useCallback(async (owner: string, mint: string, rows: PayoutRowInput[]) => {
+    setIsPlanning(true);
+    setBatchError(null);
+    try {
+      const nextPlan = (await postSponsorshipRoute("/api/sponsored-batch/plan", {
+        owner,
+        mint,
+        rows,
+      })) as PayoutPlan;
+      const saved = loadSavedBatch(nextPlan.id);
+      if (saved && Object.values(saved.results).some((result) => result.attempts.length)) {
+        setPlan(saved.plan);
+        setResults(
+          Object.fromEntries(
+            Object.entries(saved.results).map(([row, result]) => [
+              row,
+              result.status === "signing" ? { ...result, status: "pending" } : result,
+            ])
+          )
+        );
+        setBatchError(null);
+        return saved.plan;
+      }
+      setPlan(nextPlan);
+      setResults(
+        Object.fromEntries(
+          nextPlan.rows.map((row) => [
+            row.row,
+            {
+              status: row.error ? "invalid" : "pending",
+              signature: null,
+              error: row.error,
+              attempts: [],
+            } satisfies PayoutRowResult,
+          ])
+        )
+      );
+      setBatchError(nextPlan.error);
+      return nextPlan;
+    } catch (error) {
+      setPlan(null);
+      setResults({});
+      setBatchError(error instanceof Error ? error.message : "Unknown error");
+      throw error;
+    } finally {
+      setIsPlanning(false);
+    }
+  }, []);
+
+  /// @notice Prepares, signs, and submits every transaction whose rows are not yet confirmed, first checking whether an earlier attempt landed or may still land; failures are recorded per row and the run continues, while a declined approval pauses it.
+  const runBatch = useCallback(
+    async (connection: Connection, signer: UserSigner, owner: string, token: TokenInfo) => {
+      if (!plan) {
+        return;
+      }
+      setIsRunning(true);
+      setBatchError(null);
+      const rowsByNumber = new Map(plan.rows.map((row) => [row.row, row]));
+      let latest = results;
+      /// @notice Applies a result to the given rows and publishes the new results.
+      const update = (rowNumbers: number[], result: PayoutRowResult) => {
+        latest = { ...latest };
+        for (const row of rowNumbers) {
+          latest[row] = result;
+        }
+        setResults(latest);
+        saveBatch(plan, latest);
+      };
+
+      try {
+        for (const [index, rowNumbers] of plan.transactions.entries()) {
+          if (rowNumbers.every((row) => latest[row]?.status === "confirmed")) {
+            continue;
+          }
+          const attempts = [...(latest[rowNumbers[0]]?.attempts ?? [])];
+          update(rowNumbers, { status: "signing", signature: null, error: null, attempts });
+          const rows = rowNumbers.map((row) => rowsByNumber.get(row) as PlannedPayoutRow);
+          let signature: string | null = null;
+          try {
+            if (attempts.length) {
+              const earlier = await checkEarlierAttempts(connection, attempts);
+              if (earlier.outcome === "confirmed") {
+                update(rowNumbers, {
+                  status: "confirmed",
+                  signature: earlier.signature,
+                  error: null,
+                  attempts,
+                });
+                continue;
+              }
+              if (earlier.outcome === "pending") {
+                update(rowNumbers, {
+                  status: "failed",
+                  signature: earlier.signature,
+                  error: "An earlier attempt may still land. Resume again once it settles.",
+                  attempts,
+                });
+                continue;
+              }
+            }
+            const prepared = (await postSponsorshipRoute("/api/sponsored-batch/prepare", {
+              owner,
+              mint: token.mint,
+              rows: rows.map(({ row, recipient, amount }) => ({ row, recipient, amount })),
+            })) as PreparedSponsoredTransfer;
+            const total = rows.reduce((sum, row) => sum + BigInt(row.baseUnits ?? 0), BigInt(0));
+            const result = await signAndSubmitTransfer(
+              connection,
+              signer,
+              prepared,
+              `Payout ${index + 1} of ${plan.transactions.length}: ${formatTokenAmount(
+                total,
+                token.decimals
+              )} ${token.symbol} to ${rows.length} recipient${rows.length === 1 ? "" : "s"}`,
+              (progress) => {
+                if (signature !== progress.signature) {
+                  signature = progress.signature;
+                  attempts.push({
+                    signature,
+                    lifetime: {
+                      lastValidBlockHeight: prepared.lastValidBlockHeight,
+                      nonce: prepared.nonce,
+                    },
+                  });
+                  update(rowNumbers, { status: "signing", signature, error: null, attempts });
+                }
+              }
+            );
+            update(rowNumbers, {
+              status: "confirmed",
+              signature: result.signature,
+              error: null,
+              attempts,
+            });
+          } catch (error) {
+            if (isSigningCancelled(error)) {
+              update(rowNumbers, { status: "pending", signature: null, error: null, attempts });
+              setBatchError(
+                `Paused at transaction ${index + 1}: the approval was declined. Resume to continue.`
+              );
+              return;
+            }
+            update(rowNumbers, {
+              status: "failed",
+              signature,
+              error: error instanceof Error ? error.message : "Unknown error",
+              attempts,
+            });
+          }
+        }
+        if (Object.values(latest).some((result) => result.status === "failed")) {
+          setBatchError("Some transactions failed. Resume to retry their rows.");
+        }
+      } finally {
+        setIsRunning(false);
+      }
+    },
+    [plan, results]
+  );
+
+  /// @notice Clears the batch so a new list can be checked.
+  const resetBatch = useCallback(() => {
+    setPlan(null);
+    setResults({});
+    setBatchError(null);
+  }, []);
+
+  /// @notice Exposes the plan, per-row results, and batch actions.
+  return {
+    plan,
+    results,
+    isPlanning,
+    isRunning,
+    batchError,
+    planBatch,
+    runBatch,
+    resetBatch,
+  };
+}
@@ -0,0 +1,57 @@
+/// @notice Imports React state plus lifecycle helpers to track SDK loads.
+import { useCallback, useEffect, useState } from "react";
+/// @notice Loads the bundled SDKs with a timeout.
+import { loadSdk } from "@/lib/sdkLoader";
+/// @notice Imports the SDK and load-state shapes.
+import type { BrowserSdks, SdkLoadState, SdkName } from "@/lib/sdkLoader";
+
+/// @notice Load state of every browser SDK.
+type SdkLoadStates = { [Name in SdkName]: SdkLoadState<BrowserSdks[Name]> };
+
+/// @notice State of an SDK whose load is in flight.
+const LOADING = { status: "loading", sdk: null, error: null } as const;
+
+/// @notice Loads the Solana and MetaKeep SDKs from the bundle after mount and reports each one as loading, ready, or failed, with a retry for failed loads.
+export function useBrowserSdks() {
+  /// @notice Load state per SDK.
+  const [sdks, setSdks] = useState<SdkLoadStates>({ solana: LOADING, metaKeep: LOADING });
+
+  /// @notice Loads one SDK and publishes its outcome.
+  const track = useCallback(<Name extends SdkName>(name: Name) => {
+    loadSdk(name).then(
+      (sdk) =>
+        setSdks((current) => ({ ...current, [name]: { status: "ready", sdk, error: null } })),
+      (error: unknown) =>
+        setSdks((current) => ({
+          ...current,
+          [name]: {
+            status: "failed",
+            sdk: null,
+            error: error instanceof Error ? error.message : "Unknown error",
+          },
+        }))
+    );
+  }, []);
+
+  /// @notice Starts both loads once the page is in the browser.
+  useEffect(() => {
+    track("solana");
+    track("metaKeep");
+  }, [track]);
+
+  /// @notice Loads a failed SDK again.
+  const retrySdk = useCallback(
+    (name: SdkName) => {
+      setSdks((current) => ({ ...current, [name]: LOADING }));
+      track(name);
+    },
+    [track]
+  );
+
+  /// @notice Exposes each SDK's load state plus the retry helper.
+  return {
+    solanaSdk: sdks.solana,
+    metaKeepSdk: sdks.metaKeep,
+    retrySdk,
+  };
+}
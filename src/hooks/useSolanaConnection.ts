@@ -1,39 +1,32 @@
 /// @notice Imports state plus memoization helpers to manage the Solana RPC connection.
 import { useCallback, useState } from "react";
-/// @notice Imports the Connection type so the hook can stay strictly typed without pulling the runtime bundle twice.
+/// @notice Imports the Connection type so the hook stays typed while the module itself loads on demand.
 import type { Connection } from "@solana/web3.js";
-/// @notice Ensures required public environment variables exist at runtime.
-import { requirePublicEnv } from "@/lib/env";
+/// @notice Imports the loaded SDK shapes.
+import type { BrowserSdks } from "@/lib/sdkLoader";
+/// @notice Imports the cluster configuration that supplies the RPC endpoints.
+import type { PublicClusterConfig } from "@/types/cluster";
 
-/// @notice Extends the window type so TypeScript understands the injected Solana bundle.
-declare global {
-  interface Window {
-    /// @notice Solana Web3.js namespace exposed by the CDN script in layout.tsx.
-    solanaWeb3: typeof import("@solana/web3.js");
-  }
-}
-
-/// @notice Manages a lazily initialized Solana RPC connection that targets devnet.
-export function useSolanaConnection() {
+/// @notice Manages a lazily initialized Solana connection that reads through `/api/rpc` and subscribes over the configured cluster's websocket.
+export function useSolanaConnection(cluster: PublicClusterConfig) {
   /// @notice Stores the Connection instance so downstream hooks can re-use it.
   const [connection, setConnection] = useState<Connection | null>(null);
 
-  /// @notice Lazily initializes the connection and verifies that the RPC endpoint responds.
-  const initializeConnection = useCallback(async () => {
-    if (connection) {
-      return;
-    }
-    if (typeof window === "undefined" || !window.solanaWeb3) {
-      throw new Error("Solana Web3.js is not available in the browser context.");
-    }
-    const rpcUrl = requirePublicEnv(
-      "NEXT_PUBLIC_SOLANA_DEVNET_RPC",
-      "https://api.devnet.solana.com"
-    );
-    const solanaConnection = new window.solanaWeb3.Connection(rpcUrl, "confirmed");
-    await solanaConnection.getVersion();
-    setConnection(solanaConnection);
-  }, [connection]);
+  /// @notice Lazily initializes the connection with the loaded Solana SDK; it is not probed here, since `/api/rpc` only answers once User A is signed in.
+  const initializeConnection = useCallback(
+    (solana: BrowserSdks["solana"]) => {
+      /// @notice HTTP calls go through the server's RPC pool; subscriptions use the cluster's websocket. An existing connection is kept, so the initializer stays stable across renders.
+      setConnection(
+        (current) =>
+          current ??
+          new solana.Connection(new URL("/api/rpc", window.location.origin).toString(), {
+            commitment: "confirmed",
+            wsEndpoint: cluster.wsUrl,
+          })
+      );
+    },
+    [cluster]
+  );
 
   /// @notice Surfaces both the connection object and the initializer utility.
   return {
@@ -0,0 +1,27 @@
+/// @notice Imports memoization helpers plus React state to manage the health lookup.
+import { useCallback, useState } from "react";
+/// @notice Imports the health snapshot returned by `/api/health`.
+import type { SponsorHealth } from "@/types/health";
+
+/// @notice Fetches the sponsor's health (developer wallet balance, runway, and upstream reachability) via `/api/health`.
+export function useSponsorHealth() {
+  /// @notice Stores the latest snapshot, or null until the first lookup completes.
+  const [health, setHealth] = useState<SponsorHealth | null>(null);
+
+  /// @notice Refreshes the snapshot; a critical sponsor answers 503 but still carries the snapshot.
+  const refreshHealth = useCallback(async () => {
+    const response = await fetch("/api/health");
+    const data = await response.json();
+    if (data.status !== "SUCCESS" || !data.health) {
+      throw new Error(data.error || "Unable to check sponsor health.");
+    }
+    setHealth(data.health);
+  }, []);
+
+  /// @notice Shares the cached snapshot, whether transfers should be stopped, and the refresh helper.
+  return {
+    health,
+    isSponsorDegraded: health?.level === "critical",
+    refreshHealth,
+  };
+}
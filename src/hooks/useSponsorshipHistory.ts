@@ -0,0 +1,51 @@
+/// @notice Imports memoization helpers plus React state to manage ledger pages.
+import { useCallback, useState } from "react";
+/// @notice Imports the ledger shapes returned by `/api/sponsorships`.
+import type { SponsorshipRecord, SponsorshipStatus } from "@/types/sponsorship";
+
+/// @notice Loads User A's sponsored transactions from the ledger, one page at a time.
+export function useSponsorshipHistory() {
+  /// @notice Records loaded so far, newest first.
+  const [records, setRecords] = useState<SponsorshipRecord[]>([]);
+  /// @notice Cursor for the next page, or null when everything is loaded.
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  /// @notice Indicates whether a page request is in flight.
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+
+  /// @notice Fetches a page; without a cursor the list is replaced, with one it is appended.
+  const loadHistory = useCallback(
+    async (wallet: string, status?: SponsorshipStatus, cursor?: string) => {
+      if (!wallet) {
+        return;
+      }
+      setIsLoadingHistory(true);
+      try {
+        const params = new URLSearchParams({ wallet, limit: "10" });
+        if (status) {
+          params.set("status", status);
+        }
+        if (cursor) {
+          params.set("cursor", cursor);
+        }
+        const response = await fetch(`/api/sponsorships?${params.toString()}`);
+        const data = await response.json();
+        if (!response.ok || data.status !== "SUCCESS") {
+          throw new Error(data.error || "Unable to load sponsorship history.");
+        }
+        setRecords((current) => (cursor ? [...current, ...data.records] : data.records));
+        setNextCursor(data.nextCursor);
+      } finally {
+        setIsLoadingHistory(false);
+      }
+    },
+    []
+  );
+
+  /// @notice Shares the loaded records plus pagination helpers with consumers.
+  return {
+    records,
+    nextCursor,
+    isLoadingHistory,
+    loadHistory,
+  };
+}
@@ -0,0 +1,33 @@
+/// @notice Imports memoization helpers plus React state to manage the allowance lookup.
+import { useCallback, useState } from "react";
+/// @notice Imports the allowance shape returned by the quota route.
+import type { SponsorshipAllowance } from "@/types/sponsorship";
+
+/// @notice Fetches how much gas sponsorship User A has left via `/api/sponsorship-quota`.
+export function useSponsorshipQuota() {
+  /// @notice Stores the latest allowance, or null until the first lookup completes.
+  const [allowance, setAllowance] = useState<SponsorshipAllowance | null>(null);
+
+  /// @notice Refreshes the allowance for the given wallet.
+  const refreshAllowance = useCallback(async (wallet?: string) => {
+    if (!wallet) {
+      return;
+    }
+    const response = await fetch("/api/sponsorship-quota", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ address: wallet }),
+    });
+    const data = await response.json();
+    if (!response.ok || data.status !== "SUCCESS") {
+      throw new Error(data.error || "Unable to fetch sponsorship allowance.");
+    }
+    setAllowance(data.allowance);
+  }, []);
+
+  /// @notice Shares the cached allowance plus the refresh helper with consumers.
+  return {
+    allowance,
+    refreshAllowance,
+  };
+}
@@ -0,0 +1,27 @@
+/// @notice Imports memoization helpers plus React state to manage the token list.
+import { useCallback, useState } from "react";
+/// @notice Imports the token shape returned by the registry route.
+import type { TokenInfo } from "@/types/token";
+
+/// @notice Loads the tokens the developer wallet sponsors via `/api/tokens`.
+export function useTokenRegistry() {
+  /// @notice Stores the sponsored tokens, empty until the first lookup completes.
+  const [tokens, setTokens] = useState<TokenInfo[]>([]);
+
+  /// @notice Fetches the registry and returns it so callers can pick a default token.
+  const loadTokens = useCallback(async (): Promise<TokenInfo[]> => {
+    const response = await fetch("/api/tokens");
+    const data = await response.json();
+    if (!response.ok || data.status !== "SUCCESS") {
+      throw new Error(data.error || "Unable to load sponsored tokens.");
+    }
+    setTokens(data.tokens);
+    return data.tokens;
+  }, []);
+
+  /// @notice Shares the token list plus the loader with consumers.
+  return {
+    tokens,
+    loadTokens,
+  };
+}
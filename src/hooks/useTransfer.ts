@@ -1,22 +1,22 @@
 /// @notice Imports React state utilities to expose transfer progress to the UI.
 import { useState } from "react";
-/// @notice Imports Solana primitives used to craft instructions and transactions.
-import { Connection, PublicKey, Transaction } from "@solana/web3.js";
-/// @notice Imports SPL helper utilities for token account discovery and transfers.
-import {
-  createAssociatedTokenAccountInstruction,
-  createTransferInstruction,
-  getAssociatedTokenAddress,
-} from "@solana/spl-token";
-/// @notice Imports the Buffer polyfill so signatures can be added inside the browser bundle.
+/// @notice Imports Solana primitives used to rehydrate the server-prepared transaction.
+import { Connection, Transaction, VersionedTransaction } from "@solana/web3.js";
+/// @notice Imports the Buffer polyfill so base64 payloads can be decoded inside the browser bundle.
 import { Buffer } from "buffer";
-/// @notice Ensures required public configuration (mint addresses, etc.) is present.
-import { requirePublicEnv } from "@/lib/env";
-/// @notice Imports the MetaKeep SDK type to keep interop strongly typed.
-import type { MetaKeepSDK } from "@/types/metakeep";
+/// @notice Imports the signer contract User A's wallet implements.
+import type { UserSigner } from "@/types/signer";
+/// @notice Imports the prepare payload, including the simulated preview, returned by the server.
+import type { PreparedSponsoredTransfer } from "@/lib/sponsorship/sponsoredTransfer";
+/// @notice Follows the submitted signature through its commitment stages.
+import { trackSignatureConfirmation } from "@/lib/solana/confirmation";
+/// @notice Imports the confirmation progress shape surfaced to the status section.
+import type { ConfirmationProgress } from "@/types/confirmation";
 
 /// @notice Describes the reactive state that keeps the UI in sync with transfer progress.
 interface TransferState {
+  /// @notice Indicates whether the server is preparing and simulating a transfer.
+  isPreparing: boolean;
   /// @notice Indicates whether a transfer is underway.
   isTransferring: boolean;
   /// @notice Captures any error message that surfaced while submitting the transaction.
@@ -25,139 +25,187 @@ interface TransferState {
   success: boolean;
 }
 
-/// @notice Converts a hex string to a Uint8Array so MetaKeep signatures can be applied to the transaction.
-const hexToUint8Array = (hex: string) => {
-  const cleanHex = hex.startsWith("0x") ? hex.slice(2) : hex;
-  const bytes = new Uint8Array(cleanHex.length / 2);
-  for (let i = 0; i < cleanHex.length; i += 2) {
-    bytes[i / 2] = parseInt(cleanHex.substring(i, i + 2), 16);
+/// @notice A refusal returned by a sponsorship route, keeping its machine-readable code and any simulation logs.
+export class SponsorshipRequestError extends Error {
+  /// @notice Machine-readable refusal code, when the server sent one.
+  readonly code?: string;
+  /// @notice Program logs attached to simulation failures.
+  readonly logs: string[];
+
+  /// @notice Creates an error from a sponsorship route's response body.
+  constructor(message: string, code?: string, logs: string[] = []) {
+    super(message);
+    this.name = "SponsorshipRequestError";
+    this.code = code;
+    this.logs = logs;
+  }
+}
+
+/// @notice Refusal codes meaning the signed transaction can no longer land and must be prepared and signed again.
+const EXPIRED_TRANSFER_CODES = new Set(["BLOCKHASH_EXPIRED", "NONCE_ADVANCED"]);
+
+/// @notice Whether an error means the transfer expired and can be retried with a fresh signature.
+export const isExpiredTransferError = (error: unknown) =>
+  error instanceof SponsorshipRequestError &&
+  Boolean(error.code && EXPIRED_TRANSFER_CODES.has(error.code));
+
+/// @notice Whether an error means the transfer was broadcast but not confirmed in time, so it may still land and must not be sent again blindly.
+export const isUnconfirmedTransferError = (error: unknown) =>
+  error instanceof SponsorshipRequestError && error.code === "UNCONFIRMED";
+
+/// @notice Posts JSON to a sponsorship route and returns the parsed body, throwing the server's error on failure.
+export const postSponsorshipRoute = async (url: string, body: unknown) => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json();
+  if (!response.ok || data.status !== "SUCCESS") {
+    throw new SponsorshipRequestError(
+      data.error || `Request to ${url} failed with ${response.status}.`,
+      data.code,
+      Array.isArray(data.logs) ? data.logs : []
+    );
   }
-  return bytes;
+  return data;
 };
 
-/// @notice Handles the end-to-end transfer flow while surfacing progress updates.
+/// @notice Signs a prepared transfer with User A's wallet, submits it for sponsorship, and resolves once it is confirmed, reporting each confirmation stage; throws when it fails, expires, or is still unconfirmed when tracking times out.
+export async function signAndSubmitTransfer(
+  connection: Connection,
+  signer: UserSigner,
+  prepared: PreparedSponsoredTransfer,
+  reason: string,
+  onProgress: (progress: ConfirmationProgress) => void
+) {
+  const serializedTransaction = Buffer.from(prepared.transaction, "base64");
+  const transaction =
+    prepared.version === "legacy"
+      ? Transaction.from(serializedTransaction)
+      : VersionedTransaction.deserialize(serializedTransaction);
+
+  const userSignature = await signer.signTransaction(transaction, reason);
+  if (
+    prepared.lastValidBlockHeight !== null &&
+    (await connection.getBlockHeight("confirmed")) > prepared.lastValidBlockHeight
+  ) {
+    throw new SponsorshipRequestError(
+      "The transaction expired while waiting for your signature.",
+      "BLOCKHASH_EXPIRED"
+    );
+  }
+
+  const submitted = await postSponsorshipRoute("/api/sponsored-transfer/submit", {
+    message: prepared.message,
+    token: prepared.token,
+    userSignature: userSignature.signature,
+  });
+  const signature = submitted.signature as string;
+  /// @notice Resolves once the transfer is confirmed (or fails or expires); tracking continues in the background until it finalizes.
+  const outcome = await new Promise<ConfirmationProgress>((resolve) => {
+    trackSignatureConfirmation(
+      connection,
+      signature,
+      { lastValidBlockHeight: prepared.lastValidBlockHeight, nonce: prepared.nonce },
+      (progress) => {
+        onProgress(progress);
+        if (progress.stage !== "submitted" && progress.stage !== "processed") {
+          resolve(progress);
+        }
+      }
+    ).then(resolve);
+  });
+  if (outcome.stage === "failed") {
+    throw new Error(outcome.error ?? "Transaction failed.");
+  }
+  if (outcome.stage === "expired") {
+    throw new SponsorshipRequestError(
+      outcome.error ?? "The transaction expired before it was confirmed.",
+      prepared.nonce ? "NONCE_ADVANCED" : "BLOCKHASH_EXPIRED"
+    );
+  }
+  if (outcome.stage !== "confirmed" && outcome.stage !== "finalized") {
+    throw new SponsorshipRequestError(
+      outcome.error ?? "The transaction was not confirmed in time.",
+      "UNCONFIRMED"
+    );
+  }
+  return {
+    signature,
+    success: true,
+    userSignature,
+    developerSignature: submitted.developerSignature as { signature: string },
+    feeLamports: submitted.feeLamports as number,
+    priorityFeeLamports: submitted.priorityFeeLamports as number,
+    rentLamports: submitted.rentLamports as number,
+    computeUnitLimit: submitted.computeUnitLimit as number | null,
+    computeUnitPrice: submitted.computeUnitPrice as number,
+  };
+}
+
+/// @notice Handles the two-step transfer flow (prepare and preview, then sign and submit) while surfacing progress updates.
 export function useTransfer() {
   /// @notice Tracks submission state so the CTA can disable itself.
   const [transferState, setTransferState] = useState<TransferState>({
+    isPreparing: false,
     isTransferring: false,
     error: null,
     success: false,
   });
+  /// @notice Tracks the submitted transaction through processed, confirmed, and finalized.
+  const [confirmation, setConfirmation] = useState<ConfirmationProgress | null>(null);
 
-  /// @notice Transfers USDC from User A to User B while asking the developer wallet to cover fees.
-  const transferUSDC = async (
-    connection: Connection,
-    sdk: MetaKeepSDK,
+  /// @notice Asks the server to build and simulate a transfer of `amount` (an exact decimal string) of the given mint from User A to the recipient, returning it with its preview.
+  const prepareTransfer = async (
     userAWallet: string,
-    userBWallet: string,
-    devWallet: string,
-    amount: number = Number(
-      requirePublicEnv("NEXT_PUBLIC_TRANSFER_AMOUNT", "0.01")
-    )
-  ) => {
-    setTransferState({ isTransferring: true, error: null, success: false });
+    recipientWallet: string,
+    mint: string,
+    amount: string
+  ): Promise<PreparedSponsoredTransfer> => {
+    setTransferState({ isPreparing: true, isTransferring: false, error: null, success: false });
     try {
-      const usdcMint = new PublicKey(requirePublicEnv("NEXT_PUBLIC_USDC_MINT_DEVNET"));
-      const userAPublicKey = new PublicKey(userAWallet);
-      const userBPublicKey = new PublicKey(userBWallet);
-      const devPublicKey = new PublicKey(devWallet);
-
-      const userAATA = await getAssociatedTokenAddress(usdcMint, userAPublicKey);
-      const userBATA = await getAssociatedTokenAddress(usdcMint, userBPublicKey);
-
-      const userBATAInfo = await connection.getAccountInfo(userBATA);
-      if (!userBATAInfo) {
-        const createATAInstruction = createAssociatedTokenAccountInstruction(
-          devPublicKey,
-          userBATA,
-          userBPublicKey,
-          usdcMint
-        );
-        const ataTransaction = new Transaction().add(createATAInstruction);
-        const ataResponse = await fetch("/api/metakeep-sign", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            transaction: ataTransaction
-              .serialize({ requireAllSignatures: false })
-              .toString("base64"),
-            walletId: "master",
-          }),
-        });
-        if (!ataResponse.ok) {
-          throw new Error("Failed to create User B USDC token account.");
-        }
-      }
-
-      const transferAmount = Math.floor(amount * 1_000_000);
-      const transferInstruction = createTransferInstruction(
-        userAATA,
-        userBATA,
-        userAPublicKey,
-        transferAmount
-      );
-
-      const transaction = new Transaction().add(transferInstruction);
-      const { blockhash } = await connection.getLatestBlockhash();
-      transaction.recentBlockhash = blockhash;
-      transaction.feePayer = devPublicKey;
-
-      const userSignature = await sdk.signTransaction(
-        transaction,
-        `Transfer ${amount} USDC to User B`
-      );
-      if (!userSignature) {
-        throw new Error("User signature was not provided by MetaKeep.");
-      }
-      transaction.addSignature(
-        userAPublicKey,
-        Buffer.from(hexToUint8Array(userSignature.signature))
-      );
-
-      const serializedMessage = transaction.serializeMessage();
-      const serializedMessageHex = `0x${Array.from(serializedMessage)
-        .map((byte) => byte.toString(16).padStart(2, "0"))
-        .join("")}`;
-      const developerSignResponse = await fetch("/api/metakeep-sign", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          transactionObject: { serializedTransactionMessage: serializedMessageHex },
-          reason: "Developer gas sponsorship for USDC transfer",
-        }),
+      const prepared = await postSponsorshipRoute("/api/sponsored-transfer/prepare", {
+        owner: userAWallet,
+        recipient: recipientWallet,
+        mint,
+        amount,
       });
-      if (!developerSignResponse.ok) {
-        throw new Error("Developer signing request failed.");
-      }
-      const developerSignature = await developerSignResponse.json();
-      if (developerSignature.status !== "SUCCESS" || !developerSignature.signature) {
-        throw new Error(
-          developerSignature.message || "Developer signing failed without a message."
-        );
-      }
-      transaction.addSignature(
-        devPublicKey,
-        Buffer.from(hexToUint8Array(developerSignature.signature))
-      );
-
-      const signature = await connection.sendRawTransaction(transaction.serialize(), {
-        skipPreflight: false,
-        preflightCommitment: "confirmed",
+      setTransferState({ isPreparing: false, isTransferring: false, error: null, success: false });
+      return prepared as PreparedSponsoredTransfer;
+    } catch (error) {
+      setTransferState({
+        isPreparing: false,
+        isTransferring: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        success: false,
       });
-      const confirmation = await connection.confirmTransaction(signature, "confirmed");
-      if (confirmation.value.err) {
-        throw new Error(`Transaction failed: ${JSON.stringify(confirmation.value.err)}`);
-      }
+      throw error;
+    }
+  };
 
-      setTransferState({ isTransferring: false, error: null, success: true });
-      return {
-        signature,
-        success: true,
-        userSignature,
-        developerSignature,
-      };
+  /// @notice Signs a previewed transfer with User A's wallet, submits it for sponsorship, and waits for confirmation.
+  const executeTransfer = async (
+    connection: Connection,
+    signer: UserSigner,
+    prepared: PreparedSponsoredTransfer,
+    reason: string
+  ) => {
+    setTransferState({ isPreparing: false, isTransferring: true, error: null, success: false });
+    setConfirmation(null);
+    try {
+      const result = await signAndSubmitTransfer(
+        connection,
+        signer,
+        prepared,
+        reason,
+        setConfirmation
+      );
+      setTransferState({ isPreparing: false, isTransferring: false, error: null, success: true });
+      return result;
     } catch (error) {
       setTransferState({
+        isPreparing: false,
         isTransferring: false,
         error: error instanceof Error ? error.message : "Unknown error",
         success: false,
@@ -166,10 +214,11 @@ export function useTransfer() {
     }
   };
 
-  /// @notice Exposes the transfer helper plus its reactive state tuple.
+  /// @notice Exposes the prepare and execute helpers plus their reactive state.
   return {
-    transferUSDC,
+    prepareTransfer,
+    executeTransfer,
     transferState,
+    confirmation,
   };
 }
-
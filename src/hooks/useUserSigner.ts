@@ -0,0 +1,169 @@
+/// @notice Imports React state plus memoization utilities to persist the signer across renders.
+import { useCallback, useEffect, useState } from "react";
+/// @notice Imports environment helpers so required configuration is validated.
+import { readPublicEnv, requirePublicEnv } from "@/lib/env";
+/// @notice Wraps the MetaKeep SDK as a user signer.
+import { createMetaKeepSigner } from "@/lib/signers/metaKeep";
+/// @notice Discovers browser wallets and wraps them as user signers.
+import {
+  createWalletStandardSigner,
+  walletStandardChain,
+  watchWalletStandardWallets,
+} from "@/lib/signers/walletStandard";
+/// @notice Imports the MetaKeep constructor type supplied by the SDK loader.
+import type { MetaKeepConstructor } from "@/types/metakeep";
+/// @notice Imports the signer contract plus the chooser options.
+import type { UserSigner, UserSignerOption } from "@/types/signer";
+/// @notice Imports the cluster whose chain browser wallets must support.
+import type { PublicClusterConfig } from "@/types/cluster";
+
+/// @notice Renews the session when it ends within this margin, so a transfer never starts on a session about to expire.
+const SESSION_RENEW_MARGIN_MS = 60_000;
+
+/// @notice Builds MetaKeep's option from the loaded SDK.
+const metaKeepOption = (MetaKeep: MetaKeepConstructor): UserSignerOption => ({
+  id: "metakeep",
+  kind: "metakeep",
+  name: "MetaKeep",
+  icon: null,
+  createSigner: () =>
+    createMetaKeepSigner(new MetaKeep({ appId: requirePublicEnv("NEXT_PUBLIC_METAKEEP_APP_ID") })),
+});
+
+/// @notice Reads a sign-in route's JSON reply, throwing the server's error on failure.
+const readAuthResponse = async (response: Response) => {
+  const data = await response.json();
+  if (!response.ok || data.status !== "SUCCESS") {
+    throw new Error(data.error || "Sign-in failed.");
+  }
+  return data;
+};
+
+/// @notice Signs User A in: reuses a current session for the wallet, or has the signer sign a fresh challenge and redeems it; returns when the session ends.
+const signIn = async (signer: UserSigner, address: string) => {
+  const current = await readAuthResponse(await fetch("/api/auth/session"));
+  if (
+    current.session?.wallet === address &&
+    current.session.expiresAt - SESSION_RENEW_MARGIN_MS > Date.now()
+  ) {
+    return current.session.expiresAt as number;
+  }
+  const challenge = await readAuthResponse(
+    await fetch("/api/auth/challenge", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ address }),
+    })
+  );
+  const { signature } = await signer.signMessage(
+    challenge.message,
+    "Sign in to request gas-sponsored transfers"
+  );
+  const verified = await readAuthResponse(
+    await fetch("/api/auth/verify", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ message: challenge.message, token: challenge.token, signature }),
+    })
+  );
+  return verified.session.expiresAt as number;
+};
+
+/// @notice Lists the wallets User A can connect (MetaKeep once its SDK has loaded, plus any wallet-standard browser wallet on the cluster), connects the chosen one, signs User A in, and looks up wallet metadata.
+export function useUserSigner(cluster: PublicClusterConfig, MetaKeep: MetaKeepConstructor | null) {
+  /// @notice Stores the signer of the connected wallet.
+  const [signer, setSigner] = useState<UserSigner | null>(null);
+  /// @notice Stores the browser wallets discovered so far.
+  const [walletOptions, setWalletOptions] = useState<UserSignerOption[]>([]);
+  /// @notice Stores the wallet address for User A (the end-user).
+  const [userAWallet, setUserAWallet] = useState<string>("");
+  /// @notice Stores the configured default recipient (User B), or an empty string when none is set.
+  const [userBWallet] = useState<string>(() => readPublicEnv("NEXT_PUBLIC_USER_B_WALLET") ?? "");
+  /// @notice Stores the developer wallet address that will sponsor gas.
+  const [devWallet, setDevWallet] = useState<string>("");
+  /// @notice Unix time in milliseconds when User A's session ends, or null before sign-in.
+  const [sessionExpiresAt, setSessionExpiresAt] = useState<number | null>(null);
+  /// @notice Indicates whether a wallet is being connected.
+  const [isInitializing, setIsInitializing] = useState<boolean>(false);
+
+  /// @notice Follows wallet-standard registrations for the cluster's chain.
+  useEffect(() => {
+    const chain = walletStandardChain(cluster.name);
+    return watchWalletStandardWallets(chain, (wallets) =>
+      setWalletOptions(
+        wallets.map((wallet) => ({
+          id: `wallet-standard:${wallet.name}`,
+          kind: "wallet-standard",
+          name: wallet.name,
+          icon: wallet.icon,
+          createSigner: () => createWalletStandardSigner(wallet, chain),
+        }))
+      )
+    );
+  }, [cluster.name]);
+
+  /// @notice Connects the chosen wallet, signs User A in, and fetches the developer wallet; resolves false when the user declined to connect.
+  const connectSigner = async (option: UserSignerOption) => {
+    /// @notice Guards against double connection by toggling the loading flag.
+    setIsInitializing(true);
+    try {
+      const nextSigner = option.createSigner();
+      const address = await nextSigner.getAddress();
+      if (!address) {
+        return false;
+      }
+      const expiresAt = await signIn(nextSigner, address);
+
+      const devResponse = await fetch("/api/developer-wallet", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+      });
+      const devData = await devResponse.json();
+      if (!devResponse.ok) {
+        throw new Error(devData.error || "Unable to fetch the developer wallet.");
+      }
+      if (devData.status !== "SUCCESS" || !devData.wallet?.solAddress) {
+        throw new Error(devData.error || "Missing developer wallet data.");
+      }
+      setSigner(nextSigner);
+      setUserAWallet(address);
+      setSessionExpiresAt(expiresAt);
+      setDevWallet(devData.wallet.solAddress);
+      return true;
+    } finally {
+      setIsInitializing(false);
+    }
+  };
+
+  /// @notice Forgets the connected wallet and ends its session so another one can be chosen.
+  const disconnectSigner = async () => {
+    setSigner(null);
+    setUserAWallet("");
+    setSessionExpiresAt(null);
+    await fetch("/api/auth/session", { method: "DELETE" });
+  };
+
+  /// @notice Signs User A in again when the session has ended or is about to, before a sponsored action.
+  const ensureSession = useCallback(async () => {
+    if (!signer || !userAWallet) {
+      throw new Error("User A is not signed in.");
+    }
+    if (sessionExpiresAt && sessionExpiresAt - SESSION_RENEW_MARGIN_MS > Date.now()) {
+      return;
+    }
+    setSessionExpiresAt(await signIn(signer, userAWallet));
+  }, [signer, userAWallet, sessionExpiresAt]);
+
+  /// @notice Exposes the signer and its options along with wallet metadata, the connect helpers, and the session helper.
+  return {
+    signer,
+    signerOptions: MetaKeep ? [metaKeepOption(MetaKeep), ...walletOptions] : walletOptions,
+    userAWallet,
+    userBWallet,
+    devWallet,
+    isInitializing,
+    connectSigner,
+    disconnectSigner,
+    ensureSession,
+  };
+}
@@ -1,109 +1,106 @@
 /// @notice Imports memoization helpers plus React state to manage balance lookups.
 import { useCallback, useState } from "react";
+/// @notice Imports the lamports-per-SOL constant used to format SOL balances.
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+/// @notice Formats base-unit token balances with the mint's decimals.
+import { formatTokenAmount } from "@/lib/tokenAmount";
+/// @notice Imports the token shape whose balances are shown.
+import type { TokenInfo } from "@/types/token";
+/// @notice Imports the `/api/balances` payload shapes.
+import type { AddressBalances, BalancesResult } from "@/types/balances";
 
 /// @notice Shapes the balance tuple for a single wallet.
 interface Balance {
   /// @notice SOL balance label.
   sol: string;
-  /// @notice USDC balance label.
-  usdc: string;
+  /// @notice Balance label of the selected token: the associated token account, noting any tokens held in other accounts.
+  token: string;
+  /// @notice Raw base-unit balance of the selected token's associated token account, which transfers spend from, or null while loading or after an error.
+  tokenAmount: string | null;
 }
 
 /// @notice Shapes the aggregate balance object for all actors in the demo.
 interface Balances {
   /// @notice Balances for User A.
   userA: Balance | null;
-  /// @notice Balances for User B.
-  userB: Balance | null;
+  /// @notice Balances for the selected recipient.
+  recipient: Balance | null;
   /// @notice Balances for the developer wallet.
   dev: Balance | null;
 }
 
-/// @notice Exposes helper functions that fetch wallet balances via Next.js API routes.
+/// @notice Exposes the balances of User A, the recipient, and the developer wallet plus a helper that refreshes them through `/api/balances`.
 export function useWalletBalances() {
   /// @notice Stores cached balances so the UI can render instantly while refetching.
   const [balances, setBalances] = useState<Balances>({
     userA: null,
-    userB: null,
+    recipient: null,
     dev: null,
   });
 
-  /// @notice Fetches the SOL balance for a wallet by calling the backend RPC proxy.
-  const fetchSolBalance = useCallback(async (address: string): Promise<string> => {
-    const response = await fetch("/api/solana-balance", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ address }),
-    });
-    if (!response.ok) {
-      throw new Error("Unable to fetch SOL balance.");
-    }
-    const data = await response.json();
-    if (data.status === "SUCCESS" && data.balance) {
-      return `${data.balance} SOL`;
-    }
-    throw new Error(data.error || "Invalid SOL balance response.");
-  }, []);
-
-  /// @notice Fetches the USDC balance for a wallet by calling the backend RPC proxy.
-  const fetchUSDCBalance = useCallback(async (address: string): Promise<string> => {
-    const response = await fetch("/api/usdc-balance", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ address }),
-    });
-    if (!response.ok) {
-      throw new Error("Unable to fetch USDC balance.");
-    }
-    const data = await response.json();
-    if (data.status === "SUCCESS" && data.balance !== undefined) {
-      return `${data.balance} USDC`;
-    }
-    throw new Error(data.error || "Invalid USDC balance response.");
-  }, []);
-
-  /// @notice Refreshes User A, User B, and developer balances in parallel.
+  /// @notice Reads SOL and selected-token balances of every actor in one `/api/balances` call; a failed address only marks its own card.
   const refreshBalances = useCallback(
-    async (userAWallet?: string, userBWallet?: string, devWallet?: string) => {
-      if (!userAWallet || !userBWallet || !devWallet) {
+    async (
+      userAWallet?: string,
+      recipientWallet?: string,
+      devWallet?: string,
+      token?: TokenInfo,
+      fresh = false
+    ) => {
+      if (!userAWallet || !devWallet || !token) {
         return;
       }
-      setBalances({
-        userA: { sol: "Loading...", usdc: "Loading..." },
-        userB: { sol: "Loading...", usdc: "Loading..." },
-        dev: { sol: "Loading...", usdc: "Loading..." },
-      });
+      const loading = { sol: "Loading...", token: "Loading...", tokenAmount: null };
+      const failed = { sol: "Error", token: "Error", tokenAmount: null };
+      setBalances({ userA: loading, recipient: recipientWallet ? loading : null, dev: loading });
+      const addresses = [userAWallet, devWallet, ...(recipientWallet ? [recipientWallet] : [])];
+      let result: BalancesResult;
       try {
-        const [
-          userASol,
-          userBSol,
-          devSol,
-          userAUsdc,
-          userBUsdc,
-          devUsdc,
-        ] = await Promise.all([
-          fetchSolBalance(userAWallet),
-          fetchSolBalance(userBWallet),
-          fetchSolBalance(devWallet),
-          fetchUSDCBalance(userAWallet),
-          fetchUSDCBalance(userBWallet),
-          fetchUSDCBalance(devWallet),
-        ]);
-        setBalances({
-          userA: { sol: userASol, usdc: userAUsdc },
-          userB: { sol: userBSol, usdc: userBUsdc },
-          dev: { sol: devSol, usdc: devUsdc },
+        const response = await fetch("/api/balances", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ addresses, mints: [token.mint], fresh }),
         });
+        const data = await response.json();
+        if (!response.ok || data.status !== "SUCCESS") {
+          throw new Error(data.error || "Unable to fetch balances.");
+        }
+        result = data as BalancesResult;
       } catch (error) {
-        setBalances({
-          userA: { sol: "Error", usdc: "Error" },
-          userB: { sol: "Error", usdc: "Error" },
-          dev: { sol: "Error", usdc: "Error" },
-        });
+        setBalances({ userA: failed, recipient: recipientWallet ? failed : null, dev: failed });
         throw error;
       }
+
+      /// @notice Formats one address's entry for its wallet card.
+      const toBalance = (entry: AddressBalances | undefined): Balance => {
+        const tokenBalance = entry?.tokens.find((item) => item.mint === token.mint);
+        if (!entry || entry.error || entry.lamports === null || !tokenBalance) {
+          return failed;
+        }
+        const decimals = tokenBalance.decimals ?? token.decimals;
+        const elsewhere = BigInt(tokenBalance.amount) - BigInt(tokenBalance.associatedAmount);
+        return {
+          sol: `${(Number(entry.lamports) / LAMPORTS_PER_SOL).toFixed(5)} SOL`,
+          token: `${formatTokenAmount(tokenBalance.associatedAmount, decimals)} ${token.symbol}${
+            elsewhere > BigInt(0)
+              ? ` (+${formatTokenAmount(elsewhere, decimals)} in other accounts)`
+              : ""
+          }`,
+          tokenAmount: tokenBalance.associatedAmount,
+        };
+      };
+      const byAddress = new Map(result.balances.map((entry) => [entry.address, entry]));
+      setBalances({
+        userA: toBalance(byAddress.get(userAWallet)),
+        recipient: recipientWallet ? toBalance(byAddress.get(recipientWallet)) : null,
+        dev: toBalance(byAddress.get(devWallet)),
+      });
+      const errors = result.balances.filter((entry) => entry.error);
+      if (errors.length) {
+        throw new Error(errors.map((entry) => `${entry.address}: ${entry.error}`).join("; "));
+      }
     },
-    [fetchSolBalance, fetchUSDCBalance]
+    []
   );
 
   /// @notice Shares the cached balances plus the refresh helper with consumers.
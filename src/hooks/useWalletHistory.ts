@@ -0,0 +1,51 @@
+/// @notice Imports memoization helpers plus React state to manage history pages.
+import { useCallback, useState } from "react";
+/// @notice Imports the transaction shape returned by `/api/wallet-history`.
+import type { WalletTransaction } from "@/types/history";
+
+/// @notice Loads User A's on-chain transactions, one page at a time.
+export function useWalletHistory() {
+  /// @notice Transactions loaded so far, newest first.
+  const [transactions, setTransactions] = useState<WalletTransaction[]>([]);
+  /// @notice Cursor for the next page, or null when everything is loaded.
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  /// @notice Token accounts the history does not follow, as reported by the last page.
+  const [untrackedTokenAccounts, setUntrackedTokenAccounts] = useState(0);
+  /// @notice Indicates whether a page request is in flight.
+  const [isLoadingTransactions, setIsLoadingTransactions] = useState(false);
+
+  /// @notice Fetches a page; without a cursor the list is replaced, with one it is appended.
+  const loadWalletHistory = useCallback(async (wallet: string, cursor?: string) => {
+    if (!wallet) {
+      return;
+    }
+    setIsLoadingTransactions(true);
+    try {
+      const params = new URLSearchParams({ wallet, limit: "10" });
+      if (cursor) {
+        params.set("cursor", cursor);
+      }
+      const response = await fetch(`/api/wallet-history?${params.toString()}`);
+      const data = await response.json();
+      if (!response.ok || data.status !== "SUCCESS") {
+        throw new Error(data.error || "Unable to load wallet history.");
+      }
+      setTransactions((current) =>
+        cursor ? [...current, ...data.transactions] : data.transactions
+      );
+      setNextCursor(data.nextCursor);
+      setUntrackedTokenAccounts(data.untrackedTokenAccounts ?? 0);
+    } finally {
+      setIsLoadingTransactions(false);
+    }
+  }, []);
+
+  /// @notice Shares the loaded transactions plus pagination helpers with consumers.
+  return {
+    transactions,
+    nextCursor,
+    untrackedTokenAccounts,
+    isLoadingTransactions,
+    loadWalletHistory,
+  };
+}
@@ -0,0 +1,9 @@
+/// @notice Runs once when a server process starts; warns when per-IP limits cannot trust the caller address and resumes webhook deliveries left pending in the outbox by a previous process.
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { warnIfClientIpUntrusted } = await import("@/lib/quota/rateLimit");
+    warnIfClientIpUntrusted();
+    const { startWebhookDelivery } = await import("@/lib/webhooks/webhooks");
+    startWebhookDelivery();
+  }
+}
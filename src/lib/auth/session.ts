@@ -0,0 +1,101 @@
+/// @notice Imports Node's HMAC and constant-time comparison primitives.
+import { createHmac, timingSafeEqual } from "crypto";
+/// @notice Imports Next.js request and response types for reading and setting the cookie.
+import type { NextRequest, NextResponse } from "next/server";
+/// @notice Reads the signing secret and session lifetime from the server environment.
+import { requireNumericServerEnv, requireServerEnv } from "@/lib/env";
+/// @notice Shares the structured refusal format with the other routes.
+import { SponsorshipError } from "@/lib/sponsorship/errors";
+
+/// @notice A signed-in User A.
+export interface Session {
+  /// @notice Wallet that signed the sign-in message.
+  wallet: string;
+  /// @notice Unix time in milliseconds when the session ends.
+  expiresAt: number;
+}
+
+/// @notice Cookie carrying the session token.
+export const SESSION_COOKIE = "sponsor_session";
+
+/// @notice Computes the HMAC tag of a session payload, separated from the other uses of the secret.
+const computeTag = (payload: string) =>
+  createHmac("sha256", requireServerEnv("SPONSORSHIP_SIGNING_SECRET"))
+    .update(`session:${payload}`)
+    .digest();
+
+/// @notice Starts a session for the wallet lasting `SESSION_TTL_SECONDS`, returning it with its token.
+export function issueSession(wallet: string, now = Date.now()) {
+  const session: Session = {
+    wallet,
+    expiresAt: now + requireNumericServerEnv("SESSION_TTL_SECONDS", "900") * 1000,
+  };
+  const payload = Buffer.from(JSON.stringify(session)).toString("base64url");
+  return { session, token: `${payload}.${computeTag(payload).toString("base64url")}` };
+}
+
+/// @notice Reads the session from the request cookie, or returns null when it is missing, forged, or expired.
+export function readSession(request: NextRequest, now = Date.now()): Session | null {
+  const [payload, tag] = (request.cookies.get(SESSION_COOKIE)?.value ?? "").split(".");
+  if (!payload || !tag) {
+    return null;
+  }
+  const expected = computeTag(payload);
+  const provided = Buffer.from(tag, "base64url");
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return null;
+  }
+  try {
+    const session = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as Session;
+    return session.expiresAt > now ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+/// @notice Returns the caller's session, refusing with a 401 when there is none.
+export function requireSession(request: NextRequest): Session {
+  const session = readSession(request);
+  if (!session) {
+    throw new SponsorshipError(
+      "UNAUTHENTICATED",
+      "Sign in with your wallet to use this route.",
+      401
+    );
+  }
+  return session;
+}
+
+/// @notice Refuses with a 403 unless every given wallet (an owner or token authority) is the session's wallet.
+export function assertSessionWallet(session: Session, wallets: string[]) {
+  const other = wallets.find((wallet) => wallet !== session.wallet);
+  if (!wallets.length || other) {
+    throw new SponsorshipError(
+      "SESSION_WALLET_MISMATCH",
+      `The signed-in wallet ${session.wallet} cannot act for ${other ?? "this transaction"}.`,
+      403
+    );
+  }
+}
+
+/// @notice Stores the session token in an HTTP-only cookie scoped to the API routes.
+export function setSessionCookie(response: NextResponse, token: string, session: Session) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    path: "/api",
+    expires: new Date(session.expiresAt),
+  });
+}
+
+/// @notice Removes the session cookie.
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, "", {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    path: "/api",
+    maxAge: 0,
+  });
+}
@@ -0,0 +1,174 @@
+/// @notice Imports Node's HMAC, random, and constant-time comparison primitives.
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+/// @notice Imports the public key type used to validate and verify against the signer.
+import { PublicKey } from "@solana/web3.js";
+/// @notice Verifies the ed25519 signature over the challenge.
+import nacl from "tweetnacl";
+/// @notice Reads the secret that tags issued challenges.
+import { requireServerEnv } from "@/lib/env";
+/// @notice Converts the MetaKeep hex signature to bytes.
+import { hexToUint8Array } from "@/lib/hex";
+/// @notice Consumes each nonce once through the quota store's single-use keys, which the file store persists.
+import { getQuotaStore } from "@/lib/quota/store";
+/// @notice Shares the structured refusal format with the other routes.
+import { SponsorshipError } from "@/lib/sponsorship/errors";
+
+/// @notice Fields of a Sign-In-With-Solana message.
+export interface SignInFields {
+  /// @notice Host the sign-in is for; a message is only accepted by the host it names.
+  domain: string;
+  /// @notice Wallet signing in.
+  address: string;
+  /// @notice Human-readable purpose shown to the signer.
+  statement: string;
+  /// @notice Origin of the app requesting the sign-in.
+  uri: string;
+  /// @notice Message format version.
+  version: "1";
+  /// @notice Cluster the session is for.
+  chainId: string;
+  /// @notice Single-use random value.
+  nonce: string;
+  /// @notice Time the challenge was issued, as an ISO 8601 string.
+  issuedAt: string;
+  /// @notice Time after which the challenge is refused, as an ISO 8601 string.
+  expirationTime: string;
+}
+
+/// @notice A challenge handed to the browser for User A to sign.
+export interface SignInChallenge {
+  /// @notice Message to sign, as UTF-8 text.
+  message: string;
+  /// @notice Tag proving this server issued the message.
+  token: string;
+}
+
+/// @notice Statement shown to User A when signing in.
+export const SIGN_IN_STATEMENT = "Sign in to request gas-sponsored transfers.";
+
+/// @notice How long a challenge can be signed and redeemed; kept short because used nonces are only remembered by a single node's quota store.
+const CHALLENGE_TTL_MS = 2 * 60 * 1000;
+
+/// @notice Line-by-line layout of a Sign-In-With-Solana message.
+const SIGN_IN_MESSAGE_PATTERN = new RegExp(
+  [
+    "^(?<domain>[^\\s]+) wants you to sign in with your Solana account:",
+    "(?<address>[1-9A-HJ-NP-Za-km-z]{32,44})",
+    "",
+    "(?<statement>[^\\n]+)",
+    "",
+    "URI: (?<uri>[^\\s]+)",
+    "Version: (?<version>1)",
+    "Chain ID: (?<chainId>[^\\s]+)",
+    "Nonce: (?<nonce>[A-Za-z0-9]+)",
+    "Issued At: (?<issuedAt>[^\\s]+)",
+    "Expiration Time: (?<expirationTime>[^\\s]+)$",
+  ].join("\\n")
+);
+
+/// @notice Renders the fields in the Sign-In-With-Solana text format.
+export function formatSignInMessage(fields: SignInFields): string {
+  return [
+    `${fields.domain} wants you to sign in with your Solana account:`,
+    fields.address,
+    "",
+    fields.statement,
+    "",
+    `URI: ${fields.uri}`,
+    `Version: ${fields.version}`,
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`,
+    `Expiration Time: ${fields.expirationTime}`,
+  ].join("\n");
+}
+
+/// @notice Parses a Sign-In-With-Solana message, or returns null when it is not one.
+export function parseSignInMessage(message: string): SignInFields | null {
+  const groups = SIGN_IN_MESSAGE_PATTERN.exec(message)?.groups;
+  return groups ? (groups as unknown as SignInFields) : null;
+}
+
+/// @notice Computes the HMAC tag of a challenge, separated from the other uses of the secret.
+const computeTag = (message: string) =>
+  createHmac("sha256", requireServerEnv("SPONSORSHIP_SIGNING_SECRET"))
+    .update(`siws:${message}`)
+    .digest();
+
+/// @notice Issues a challenge for the wallet; it is tagged rather than stored, so any server sharing the secret can redeem it.
+export function issueSignInChallenge(
+  address: string,
+  origin: URL,
+  chainId: string,
+  now = Date.now()
+): SignInChallenge {
+  const message = formatSignInMessage({
+    domain: origin.host,
+    address,
+    statement: SIGN_IN_STATEMENT,
+    uri: origin.origin,
+    version: "1",
+    chainId,
+    nonce: randomBytes(16).toString("hex"),
+    issuedAt: new Date(now).toISOString(),
+    expirationTime: new Date(now + CHALLENGE_TTL_MS).toISOString(),
+  });
+  return { message, token: computeTag(message).toString("base64url") };
+}
+
+/// @notice Checks that the message was issued by this server for this host and cluster, has not expired, is signed by its wallet, and that its nonce was not redeemed before; returns the wallet.
+export async function verifySignIn(
+  message: string,
+  token: string,
+  signatureHex: string,
+  origin: URL,
+  chainId: string,
+  now = Date.now()
+): Promise<string> {
+  const expected = computeTag(message);
+  const provided = Buffer.from(token, "base64url");
+  const fields = parseSignInMessage(message);
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected) || !fields) {
+    throw new SponsorshipError(
+      "UNKNOWN_CHALLENGE",
+      "The sign-in message was not issued by this server.",
+      401
+    );
+  }
+  if (fields.domain !== origin.host || fields.chainId !== chainId) {
+    throw new SponsorshipError(
+      "CHALLENGE_MISMATCH",
+      "The sign-in message was issued for another site or cluster.",
+      401
+    );
+  }
+  const expiresAt = Date.parse(fields.expirationTime);
+  if (!(expiresAt > now)) {
+    throw new SponsorshipError("CHALLENGE_EXPIRED", "The sign-in message has expired.", 401);
+  }
+
+  const signature = hexToUint8Array(signatureHex);
+  if (
+    signature.length !== nacl.sign.signatureLength ||
+    !nacl.sign.detached.verify(
+      new TextEncoder().encode(message),
+      signature,
+      new PublicKey(fields.address).toBytes()
+    )
+  ) {
+    throw new SponsorshipError(
+      "INVALID_SIGNATURE",
+      "Signature does not match the sign-in message.",
+      401
+    );
+  }
+
+  if (!(await getQuotaStore().claimKey(`siws-nonce:${fields.nonce}`, expiresAt, now))) {
+    throw new SponsorshipError(
+      "NONCE_REUSED",
+      "This sign-in message was already used. Sign in again.",
+      401
+    );
+  }
+  return fields.address;
+}
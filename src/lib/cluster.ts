@@ -0,0 +1,94 @@
+/// @notice Reads the cluster selection and overrides from the server environment.
+import { readServerEnv } from "@/lib/env";
+/// @notice Imports the cluster configuration shapes shared with the browser.
+import type { ClusterConfig, ClusterName, PublicClusterConfig } from "@/types/cluster";
+
+/// @notice Built-in settings for a cluster; a null mint must be configured with `SOLANA_USDC_MINT`, and `{rpcUrl}` in the explorer URL is filled with the preset's public RPC endpoint.
+type ClusterPreset = Omit<ClusterConfig, "usdcMint"> & { usdcMint: string | null };
+
+/// @notice Built-in settings per cluster.
+const CLUSTER_PRESETS: Record<ClusterName, ClusterPreset> = {
+  localnet: {
+    name: "localnet",
+    label: "Localnet",
+    rpcUrl: "http://127.0.0.1:8899",
+    wsUrl: "ws://127.0.0.1:8900",
+    usdcMint: null,
+    explorerTxUrl: "https://explorer.solana.com/tx/{signature}?cluster=custom&customUrl={rpcUrl}",
+  },
+  devnet: {
+    name: "devnet",
+    label: "Devnet",
+    rpcUrl: "https://api.devnet.solana.com",
+    wsUrl: "wss://api.devnet.solana.com",
+    usdcMint: "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU",
+    explorerTxUrl: "https://solscan.io/tx/{signature}?cluster=devnet",
+  },
+  testnet: {
+    name: "testnet",
+    label: "Testnet",
+    rpcUrl: "https://api.testnet.solana.com",
+    wsUrl: "wss://api.testnet.solana.com",
+    usdcMint: null,
+    explorerTxUrl: "https://solscan.io/tx/{signature}?cluster=testnet",
+  },
+  "mainnet-beta": {
+    name: "mainnet-beta",
+    label: "Mainnet",
+    rpcUrl: "https://api.mainnet-beta.solana.com",
+    wsUrl: "wss://api.mainnet-beta.solana.com",
+    usdcMint: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+    explorerTxUrl: "https://solscan.io/tx/{signature}",
+  },
+};
+
+/// @notice Derives the websocket endpoint web3.js would use for an HTTP RPC URL (an explicit port moves up by one).
+const websocketUrlFor = (rpcUrl: string) => {
+  const url = new URL(rpcUrl);
+  url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  if (url.port) {
+    url.port = String(Number(url.port) + 1);
+  }
+  return url.toString();
+};
+
+/// @notice Reads `SOLANA_CLUSTER` (default `devnet`) and applies the `SOLANA_RPC_URL`, `SOLANA_WS_URL`, `SOLANA_USDC_MINT`, and `SOLANA_EXPLORER_TX_URL` overrides.
+export function loadClusterConfig(): ClusterConfig {
+  const name = readServerEnv("SOLANA_CLUSTER") ?? "devnet";
+  if (!(name in CLUSTER_PRESETS)) {
+    throw new Error(
+      `Unsupported SOLANA_CLUSTER "${name}". Use one of: ${Object.keys(CLUSTER_PRESETS).join(", ")}.`
+    );
+  }
+  const preset = CLUSTER_PRESETS[name as ClusterName];
+  const rpcUrl = readServerEnv("SOLANA_RPC_URL");
+  const resolvedRpcUrl = rpcUrl ?? preset.rpcUrl;
+  const usdcMint = readServerEnv("SOLANA_USDC_MINT") ?? preset.usdcMint;
+  if (!usdcMint) {
+    throw new Error(
+      `SOLANA_USDC_MINT must be set for the ${name} cluster, which has no canonical USDC mint.`
+    );
+  }
+  return {
+    ...preset,
+    rpcUrl: resolvedRpcUrl,
+    wsUrl: readServerEnv("SOLANA_WS_URL") ?? (rpcUrl ? websocketUrlFor(rpcUrl) : preset.wsUrl),
+    usdcMint,
+    explorerTxUrl: (readServerEnv("SOLANA_EXPLORER_TX_URL") ?? preset.explorerTxUrl).replace(
+      "{rpcUrl}",
+      encodeURIComponent(preset.rpcUrl)
+    ),
+  };
+}
+
+/// @notice Reads the cluster settings safe to send to the browser; its websocket is `SOLANA_PUBLIC_WS_URL` or the preset's public endpoint, never one derived from the server's RPC URL.
+export function loadPublicClusterConfig(): PublicClusterConfig {
+  const { name, label, usdcMint, explorerTxUrl } = loadClusterConfig();
+  return {
+    name,
+    label,
+    wsUrl: readServerEnv("SOLANA_PUBLIC_WS_URL") ?? CLUSTER_PRESETS[name].wsUrl,
+    usdcMint,
+    explorerTxUrl,
+  };
+}
@@ -0,0 +1,26 @@
+/// @notice Signs through the configured sponsor signer (MetaKeep or a local keypair).
+import { getSponsorSigner } from "@/lib/sponsor/signer";
+/// @notice Imports the MetaKeep signing response model.
+import type { SignTransactionResponse } from "@/lib/metakeep/types";
+
+/// @notice Caches the developer wallet address so policy checks avoid a signer round trip per request.
+let cachedDeveloperWallet: string | null = null;
+
+/// @notice Resolves the developer (sponsor) Solana address from the sponsor signer, caching it for the process lifetime.
+export async function getDeveloperWalletAddress(): Promise<string> {
+  if (!cachedDeveloperWallet) {
+    cachedDeveloperWallet = await getSponsorSigner().getAddress();
+  }
+  return cachedDeveloperWallet;
+}
+
+/// @notice Shapes the signer response for a developer transaction signature.
+export type DeveloperSignature = SignTransactionResponse;
+
+/// @notice Asks the sponsor signer to sign a hex-encoded transaction message with the developer wallet.
+export function signWithDeveloperWallet(
+  serializedMessageHex: string,
+  reason: string
+): Promise<DeveloperSignature> {
+  return getSponsorSigner().signMessage(serializedMessageHex, reason);
+}
@@ -1,14 +1,63 @@
 /// @notice Enumerates server-side only environment variables so secrets never leak to the browser bundle.
 const serverEnv = {
   METAKEEP_API_KEY: process.env.METAKEEP_API_KEY,
+  METAKEEP_API_BASE_URL: process.env.METAKEEP_API_BASE_URL,
+  METAKEEP_TIMEOUT_MS: process.env.METAKEEP_TIMEOUT_MS,
+  METAKEEP_MAX_RETRIES: process.env.METAKEEP_MAX_RETRIES,
+  SPONSOR_ALLOWED_PROGRAMS: process.env.SPONSOR_ALLOWED_PROGRAMS,
+  SPONSOR_MAX_TRANSFER_AMOUNT: process.env.SPONSOR_MAX_TRANSFER_AMOUNT,
+  SPONSOR_ALLOW_ACCOUNT_CREATION: process.env.SPONSOR_ALLOW_ACCOUNT_CREATION,
+  SPONSORSHIP_SIGNING_SECRET: process.env.SPONSORSHIP_SIGNING_SECRET,
+  SESSION_TTL_SECONDS: process.env.SESSION_TTL_SECONDS,
+  QUOTA_STORE: process.env.QUOTA_STORE,
+  QUOTA_STORE_PATH: process.env.QUOTA_STORE_PATH,
+  QUOTA_WINDOW_SECONDS: process.env.QUOTA_WINDOW_SECONDS,
+  QUOTA_MAX_TRANSACTIONS_PER_WALLET: process.env.QUOTA_MAX_TRANSACTIONS_PER_WALLET,
+  QUOTA_MAX_LAMPORTS_PER_WALLET: process.env.QUOTA_MAX_LAMPORTS_PER_WALLET,
+  QUOTA_GLOBAL_DAILY_LAMPORTS: process.env.QUOTA_GLOBAL_DAILY_LAMPORTS,
+  RATE_LIMIT_MAX_REQUESTS: process.env.RATE_LIMIT_MAX_REQUESTS,
+  RATE_LIMIT_WINDOW_SECONDS: process.env.RATE_LIMIT_WINDOW_SECONDS,
+  TRUST_PROXY_HOPS: process.env.TRUST_PROXY_HOPS,
+  CLIENT_IP_HEADER: process.env.CLIENT_IP_HEADER,
+  LEDGER_STORE: process.env.LEDGER_STORE,
+  LEDGER_STORE_PATH: process.env.LEDGER_STORE_PATH,
+  SPONSOR_TRANSACTION_VERSION: process.env.SPONSOR_TRANSACTION_VERSION,
+  SPONSOR_LOOKUP_TABLES: process.env.SPONSOR_LOOKUP_TABLES,
+  SPONSOR_MAX_COMPUTE_UNITS: process.env.SPONSOR_MAX_COMPUTE_UNITS,
+  SPONSOR_MAX_PRIORITY_FEE_LAMPORTS: process.env.SPONSOR_MAX_PRIORITY_FEE_LAMPORTS,
+  SPONSOR_NONCE_ACCOUNT: process.env.SPONSOR_NONCE_ACCOUNT,
+  SPONSOR_SIGNER: process.env.SPONSOR_SIGNER,
+  SPONSOR_KEYPAIR_PATH: process.env.SPONSOR_KEYPAIR_PATH,
+  SOLANA_CLUSTER: process.env.SOLANA_CLUSTER,
+  SOLANA_RPC_URL: process.env.SOLANA_RPC_URL,
+  SOLANA_RPC_URLS: process.env.SOLANA_RPC_URLS,
+  SOLANA_RPC_TIMEOUT_MS: process.env.SOLANA_RPC_TIMEOUT_MS,
+  SOLANA_RPC_MAX_SLOT_LAG: process.env.SOLANA_RPC_MAX_SLOT_LAG,
+  SOLANA_RPC_HEALTH_CHECK_SECONDS: process.env.SOLANA_RPC_HEALTH_CHECK_SECONDS,
+  RPC_PROXY_MAX_REQUESTS: process.env.RPC_PROXY_MAX_REQUESTS,
+  SOLANA_WS_URL: process.env.SOLANA_WS_URL,
+  SOLANA_PUBLIC_WS_URL: process.env.SOLANA_PUBLIC_WS_URL,
+  SOLANA_USDC_MINT: process.env.SOLANA_USDC_MINT,
+  SOLANA_EXPLORER_TX_URL: process.env.SOLANA_EXPLORER_TX_URL,
+  SPONSOR_TOKENS: process.env.SPONSOR_TOKENS,
+  RELAYER_CLIENTS: process.env.RELAYER_CLIENTS,
+  HEALTH_WARN_LAMPORTS: process.env.HEALTH_WARN_LAMPORTS,
+  HEALTH_CRITICAL_LAMPORTS: process.env.HEALTH_CRITICAL_LAMPORTS,
+  HEALTH_FEE_SAMPLE_SIZE: process.env.HEALTH_FEE_SAMPLE_SIZE,
+  HEALTH_CACHE_SECONDS: process.env.HEALTH_CACHE_SECONDS,
+  HEALTH_ALERT_WEBHOOK_URLS: process.env.HEALTH_ALERT_WEBHOOK_URLS,
+  WEBHOOK_URLS: process.env.WEBHOOK_URLS,
+  WEBHOOK_SECRET: process.env.WEBHOOK_SECRET,
+  WEBHOOK_MAX_ATTEMPTS: process.env.WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_TIMEOUT_MS: process.env.WEBHOOK_TIMEOUT_MS,
+  WEBHOOK_OUTBOX_STORE: process.env.WEBHOOK_OUTBOX_STORE,
+  WEBHOOK_OUTBOX_PATH: process.env.WEBHOOK_OUTBOX_PATH,
 } as const;
 
 /// @notice Enumerates public environment variables that Next.js can inline into the client bundle.
 const publicEnv = {
   NEXT_PUBLIC_METAKEEP_APP_ID: process.env.NEXT_PUBLIC_METAKEEP_APP_ID,
   NEXT_PUBLIC_USER_B_WALLET: process.env.NEXT_PUBLIC_USER_B_WALLET,
-  NEXT_PUBLIC_SOLANA_DEVNET_RPC: process.env.NEXT_PUBLIC_SOLANA_DEVNET_RPC,
-  NEXT_PUBLIC_USDC_MINT_DEVNET: process.env.NEXT_PUBLIC_USDC_MINT_DEVNET,
   NEXT_PUBLIC_TRANSFER_AMOUNT: process.env.NEXT_PUBLIC_TRANSFER_AMOUNT,
 } as const;
 
@@ -28,8 +77,23 @@ function assertEnv(
 }
 
 /// @notice Gets a typed server-only environment variable such as the MetaKeep API key.
-export function requireServerEnv(name: keyof typeof serverEnv): string {
-  return assertEnv(serverEnv[name], name);
+export function requireServerEnv(
+  name: keyof typeof serverEnv,
+  fallback?: string
+): string {
+  return assertEnv(serverEnv[name], name, fallback);
+}
+
+/// @notice Gets a numeric server-only setting such as a cap or timeout, throwing a configuration error unless it is a finite number of at least zero, so a typo cannot turn a limit into `NaN` and silently disable it.
+export function requireNumericServerEnv(name: keyof typeof serverEnv, fallback: string): number {
+  const raw = requireServerEnv(name, fallback);
+  const value = Number(raw);
+  if (!raw.trim() || !Number.isFinite(value) || value < 0) {
+    throw new Error(
+      `Invalid environment variable ${name}="${raw}": expected a number of 0 or more.`
+    );
+  }
+  return value;
 }
 
 /// @notice Gets a typed public environment variable that Next.js exposes to the browser.
@@ -40,3 +104,12 @@ export function requirePublicEnv(
   return assertEnv(publicEnv[name], name, fallback);
 }
 
+/// @notice Reads an optional server-only environment variable, returning `undefined` when unset or blank.
+export function readServerEnv(name: keyof typeof serverEnv): string | undefined {
+  return serverEnv[name]?.trim() || undefined;
+}
+
+/// @notice Reads an optional public environment variable, returning `undefined` when unset or blank.
+export function readPublicEnv(name: keyof typeof publicEnv): string | undefined {
+  return publicEnv[name]?.trim() || undefined;
+}
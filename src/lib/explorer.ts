@@ -0,0 +1,6 @@
+/// @notice Imports the cluster configuration that carries the explorer URL template.
+import type { PublicClusterConfig } from "@/types/cluster";
+
+/// @notice Builds the explorer deep link for a transaction signature on the configured cluster.
+export const explorerTxLink = (cluster: PublicClusterConfig, signature: string) =>
+  cluster.explorerTxUrl.replace("{signature}", signature);
@@ -0,0 +1,78 @@
+/// @notice Reads the alert webhook endpoints from the server environment.
+import { readServerEnv } from "@/lib/env";
+/// @notice Queues alerts in the signed, retried webhook outbox.
+import { emitWebhookEvent } from "@/lib/webhooks/webhooks";
+/// @notice Imports the health snapshot and severity shapes carried by an alert.
+import type { HealthLevel, SponsorHealth } from "@/types/health";
+
+/// @notice Payload of a `sponsor.health` event, sent to the alert webhooks when the sponsor's health level changes.
+export interface HealthAlert {
+  /// @notice New level.
+  level: HealthLevel;
+  /// @notice Level before the change.
+  previousLevel: HealthLevel;
+  /// @notice Reasons for the new level.
+  issues: string[];
+  /// @notice Developer wallet address, or null.
+  developerWallet: string | null;
+  /// @notice Developer wallet SOL balance in lamports, or null.
+  balanceLamports: number | null;
+  /// @notice Estimated transactions left, or null.
+  runwayTransactions: number | null;
+  /// @notice Unix time in milliseconds of the snapshot that triggered the alert.
+  checkedAt: number;
+}
+
+/// @notice Payload of a `sponsor.low_balance` event, sent to the event webhooks when the balance crosses a threshold downwards.
+export interface LowBalanceAlert {
+  /// @notice Threshold crossed.
+  level: Exclude<HealthLevel, "ok">;
+  /// @notice Developer wallet address, or null.
+  developerWallet: string | null;
+  /// @notice Developer wallet SOL balance in lamports.
+  balanceLamports: number;
+  /// @notice Threshold crossed, in lamports.
+  thresholdLamports: number;
+  /// @notice Estimated transactions left.
+  runwayTransactions: number | null;
+  /// @notice Unix time in milliseconds of the snapshot that triggered the alert.
+  checkedAt: number;
+}
+
+/// @notice Reads `HEALTH_ALERT_WEBHOOK_URLS` (comma separated).
+export function loadAlertWebhookUrls(): string[] {
+  return (readServerEnv("HEALTH_ALERT_WEBHOOK_URLS") ?? "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+/// @notice Queues a `sponsor.health` event for every alert webhook.
+export function sendHealthAlert(health: SponsorHealth, previousLevel: HealthLevel) {
+  const alert: HealthAlert = {
+    level: health.level,
+    previousLevel,
+    issues: health.issues,
+    developerWallet: health.developerWallet,
+    balanceLamports: health.balanceLamports,
+    runwayTransactions: health.runwayTransactions,
+    checkedAt: health.checkedAt,
+  };
+  return emitWebhookEvent("sponsor.health", alert, loadAlertWebhookUrls());
+}
+
+/// @notice Queues a `sponsor.low_balance` event for every event webhook.
+export function sendLowBalanceAlert(
+  health: SponsorHealth & { balanceLamports: number },
+  level: LowBalanceAlert["level"]
+) {
+  const alert: LowBalanceAlert = {
+    level,
+    developerWallet: health.developerWallet,
+    balanceLamports: health.balanceLamports,
+    thresholdLamports: level === "critical" ? health.criticalLamports : health.warnLamports,
+    runwayTransactions: health.runwayTransactions,
+    checkedAt: health.checkedAt,
+  };
+  return emitWebhookEvent("sponsor.low_balance", alert);
+}
@@ -0,0 +1,186 @@
+/// @notice Imports the public key type used to read the developer wallet balance, plus the lamports-per-SOL ratio for issue copy.
+import { LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
+/// @notice Reads the thresholds from the server environment.
+import { requireNumericServerEnv } from "@/lib/env";
+/// @notice Probes the sponsor signer (MetaKeep or the local keypair).
+import { getSponsorSigner } from "@/lib/sponsor/signer";
+/// @notice Reads the developer wallet balance through the RPC pool.
+import { getServerConnection } from "@/lib/solana/connection";
+/// @notice Reports how many pooled endpoints are in use.
+import { getRpcPool } from "@/lib/solana/rpcPool";
+/// @notice Reads recent confirmed sponsorships to average their cost.
+import { getLedgerStore } from "@/lib/ledger/store";
+/// @notice Notifies operators when the level changes.
+import { sendHealthAlert, sendLowBalanceAlert } from "@/lib/health/alerts";
+/// @notice Imports the health snapshot shapes shared with the browser.
+import type { DependencyHealth, HealthLevel, SponsorHealth } from "@/types/health";
+
+/// @notice Settings of the sponsor health check.
+export interface HealthConfig {
+  /// @notice Balance below which the sponsor is `warn`, in lamports.
+  warnLamports: number;
+  /// @notice Balance below which the sponsor is `critical`, in lamports.
+  criticalLamports: number;
+  /// @notice Recent confirmed sponsorships the cost average is taken over.
+  feeSampleSize: number;
+  /// @notice How long a snapshot is reused, in milliseconds.
+  cacheMs: number;
+}
+
+/// @notice Cost assumed before any sponsorship confirmed: the base fee of the two signatures (developer and User A).
+const DEFAULT_COST_LAMPORTS = 10_000;
+
+/// @notice Reads the thresholds, sample size, and cache lifetime, with defaults suited to devnet.
+export function loadHealthConfig(): HealthConfig {
+  return {
+    warnLamports: requireNumericServerEnv("HEALTH_WARN_LAMPORTS", "500000000"),
+    criticalLamports: requireNumericServerEnv("HEALTH_CRITICAL_LAMPORTS", "50000000"),
+    feeSampleSize: requireNumericServerEnv("HEALTH_FEE_SAMPLE_SIZE", "50"),
+    cacheMs: requireNumericServerEnv("HEALTH_CACHE_SECONDS", "15") * 1000,
+  };
+}
+
+/// @notice Runs a check, timing it and capturing its failure.
+const probe = async <T>(check: () => Promise<T>): Promise<[DependencyHealth, T | null]> => {
+  const startedAt = Date.now();
+  try {
+    const value = await check();
+    return [{ reachable: true, latencyMs: Date.now() - startedAt, error: null }, value];
+  } catch (error) {
+    return [
+      {
+        reachable: false,
+        latencyMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      null,
+    ];
+  }
+};
+
+/// @notice Formats lamports as a SOL label for issue copy.
+const formatSol = (lamports: number) => `${(lamports / LAMPORTS_PER_SOL).toFixed(4)} SOL`;
+
+/// @notice Averages the total sponsored cost of the most recent confirmed sponsorships.
+async function averageRecentCost(sampleSize: number) {
+  const { records } = await getLedgerStore().list({ status: "confirmed", limit: sampleSize });
+  if (!records.length) {
+    return { averageCostLamports: DEFAULT_COST_LAMPORTS, costSampleSize: 0 };
+  }
+  const total = records.reduce(
+    (sum, record) => sum + record.feeLamports + record.priorityFeeLamports + record.rentLamports,
+    0
+  );
+  return { averageCostLamports: Math.ceil(total / records.length), costSampleSize: records.length };
+}
+
+/// @notice Probes the sponsor signer and RPC, reads the developer wallet balance, and derives the level and runway.
+export async function checkSponsorHealth(config = loadHealthConfig()): Promise<SponsorHealth> {
+  const signer = getSponsorSigner();
+  const [signerHealth, developerWallet] = await probe(() => signer.getAddress());
+  const connection = getServerConnection();
+  const [rpc, balance] = await probe(() =>
+    developerWallet
+      ? connection.getBalance(new PublicKey(developerWallet))
+      : connection.getSlot().then(() => null)
+  );
+  const { averageCostLamports, costSampleSize } = await averageRecentCost(config.feeSampleSize);
+  const endpoints = getRpcPool().health();
+
+  const issues: string[] = [];
+  let level: HealthLevel = "ok";
+  if (!signerHealth.reachable) {
+    issues.push(
+      signer.kind === "metakeep"
+        ? `MetaKeep is unreachable: ${signerHealth.error}`
+        : `The sponsor keypair is unavailable: ${signerHealth.error}`
+    );
+    level = "critical";
+  }
+  if (!rpc.reachable) {
+    issues.push(`Solana RPC is unreachable: ${rpc.error}`);
+    level = "critical";
+  }
+  if (balance !== null && balance < config.criticalLamports) {
+    issues.push(
+      `Developer wallet balance ${formatSol(balance)} is below the critical threshold of ${formatSol(config.criticalLamports)}.`
+    );
+    level = "critical";
+  } else if (balance !== null && balance < config.warnLamports) {
+    issues.push(
+      `Developer wallet balance ${formatSol(balance)} is below the warning threshold of ${formatSol(config.warnLamports)}.`
+    );
+    level = level === "critical" ? level : "warn";
+  }
+
+  return {
+    level,
+    issues,
+    signer: { ...signerHealth, kind: signer.kind },
+    rpc: {
+      ...rpc,
+      healthyEndpoints: endpoints.filter((endpoint) => endpoint.healthy).length,
+      totalEndpoints: endpoints.length,
+    },
+    developerWallet,
+    balanceLamports: balance,
+    averageCostLamports,
+    costSampleSize,
+    runwayTransactions: balance === null ? null : Math.floor(balance / averageCostLamports),
+    warnLamports: config.warnLamports,
+    criticalLamports: config.criticalLamports,
+    checkedAt: Date.now(),
+  };
+}
+
+/// @notice Latest snapshot and when it expires.
+let cachedHealth: { expiresAt: number; health: SponsorHealth } | null = null;
+
+/// @notice Check in progress, shared by concurrent callers.
+let pendingHealth: Promise<SponsorHealth> | null = null;
+
+/// @notice Level of the previous snapshot, against which changes are alerted.
+let lastLevel: HealthLevel = "ok";
+
+/// @notice Balance threshold the last known balance was under, against which drops are alerted.
+let lastBalanceLevel: HealthLevel = "ok";
+
+/// @notice Orders levels from best to worst.
+const LEVEL_RANK: Record<HealthLevel, number> = { ok: 0, warn: 1, critical: 2 };
+
+/// @notice Returns the cached snapshot, or runs a new check once it expires; a level change is sent to the alert webhooks, and a balance dropping under a threshold to the event webhooks.
+export async function getSponsorHealth(): Promise<SponsorHealth> {
+  if (cachedHealth && cachedHealth.expiresAt > Date.now()) {
+    return cachedHealth.health;
+  }
+  if (!pendingHealth) {
+    const config = loadHealthConfig();
+    pendingHealth = checkSponsorHealth(config)
+      .then((health) => {
+        cachedHealth = { expiresAt: Date.now() + config.cacheMs, health };
+        if (health.level !== lastLevel) {
+          const previousLevel = lastLevel;
+          lastLevel = health.level;
+          void sendHealthAlert(health, previousLevel);
+        }
+        const { balanceLamports } = health;
+        if (balanceLamports !== null) {
+          const balanceLevel: HealthLevel =
+            balanceLamports < config.criticalLamports
+              ? "critical"
+              : balanceLamports < config.warnLamports
+                ? "warn"
+                : "ok";
+          if (balanceLevel !== "ok" && LEVEL_RANK[balanceLevel] > LEVEL_RANK[lastBalanceLevel]) {
+            void sendLowBalanceAlert({ ...health, balanceLamports }, balanceLevel);
+          }
+          lastBalanceLevel = balanceLevel;
+        }
+        return health;
+      })
+      .finally(() => {
+        pendingHealth = null;
+      });
+  }
+  return pendingHealth;
+}
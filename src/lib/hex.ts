@@ -0,0 +1,15 @@
+/// @notice Converts a hex string (optionally `0x`-prefixed) to a Uint8Array so MetaKeep signatures can be applied to transactions.
+export const hexToUint8Array = (hex: string) => {
+  const cleanHex = hex.startsWith("0x") ? hex.slice(2) : hex;
+  const bytes = new Uint8Array(cleanHex.length / 2);
+  for (let i = 0; i < cleanHex.length; i += 2) {
+    bytes[i / 2] = parseInt(cleanHex.substring(i, i + 2), 16);
+  }
+  return bytes;
+};
+
+/// @notice Converts bytes to a `0x`-prefixed hex string, the format MetaKeep expects for serialized messages.
+export const uint8ArrayToHex = (bytes: Uint8Array) =>
+  `0x${Array.from(bytes)
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("")}`;
@@ -0,0 +1,199 @@
+/// @notice Imports Node's UUID generator for ledger ids.
+import { randomUUID } from "crypto";
+/// @notice Imports Solana primitives used to follow confirmations and resolve recipients.
+import { Connection, PublicKey } from "@solana/web3.js";
+/// @notice Persists ledger records.
+import { getLedgerStore } from "@/lib/ledger/store";
+/// @notice Imports the policy summary and cost breakdown a ledger entry is derived from.
+import type { SponsoredMessageSummary } from "@/lib/sponsorship/policy";
+import type { SponsorCost } from "@/lib/sponsorship/cost";
+/// @notice Publishes lifecycle changes to the configured webhooks.
+import { emitWebhookEvent } from "@/lib/webhooks/webhooks";
+/// @notice Keeps the reserved quota charge once the transaction is out.
+import { commitSponsorshipUsage } from "@/lib/quota/quota";
+/// @notice Detects when a durable nonce transaction can no longer land.
+import { isNonceCurrent } from "@/lib/sponsorship/lifetime";
+/// @notice Imports the ledger record shape shared with the browser.
+import type { SponsorshipRecord } from "@/types/sponsorship";
+
+/// @notice Details known about a sponsorship before the developer wallet signs it.
+export interface SponsorshipLedgerEntry {
+  /// @notice User A wallet that requested the sponsorship.
+  userWallet: string;
+  /// @notice Every transfer in the transaction, in instruction order.
+  recipients: { recipient: string; mint: string; amount: bigint }[];
+  /// @notice Network fee paid by the developer wallet.
+  feeLamports: number;
+  /// @notice Token-account rent paid by the developer wallet.
+  rentLamports: number;
+  /// @notice Priority fee paid by the developer wallet.
+  priorityFeeLamports: number;
+}
+
+/// @notice How often, and for how long, a broadcast signature is polled for confirmation.
+const CONFIRMATION_POLL_MS = 2_000;
+const CONFIRMATION_TIMEOUT_MS = 120_000;
+
+/// @notice Derives a ledger entry from an approved message, resolving the recipient wallet behind each destination token account.
+export async function describeSponsorship(
+  connection: Connection,
+  userWallet: string,
+  summary: SponsoredMessageSummary,
+  cost: SponsorCost
+): Promise<SponsorshipLedgerEntry> {
+  const owners = new Map(
+    summary.createdAccounts.map((account) => [account.account, account.owner])
+  );
+  const unresolved = [
+    ...new Set(
+      summary.transfers
+        .map((transfer) => transfer.destination)
+        .filter((destination) => !owners.has(destination))
+    ),
+  ];
+  if (unresolved.length) {
+    try {
+      const { value } = await connection.getMultipleParsedAccounts(
+        unresolved.map((destination) => new PublicKey(destination))
+      );
+      value.forEach((account, index) => {
+        if (account && "parsed" in account.data && account.data.parsed?.info?.owner) {
+          owners.set(unresolved[index], account.data.parsed.info.owner as string);
+        }
+      });
+    } catch (error) {
+      console.error("Recipient lookup for sponsorship ledger failed", error);
+    }
+  }
+  return {
+    userWallet,
+    recipients: summary.transfers.map((transfer) => ({
+      recipient: owners.get(transfer.destination) ?? transfer.destination,
+      mint: transfer.mint,
+      amount: transfer.amount,
+    })),
+    feeLamports: cost.feeLamports,
+    rentLamports: cost.rentLamports,
+    priorityFeeLamports: cost.priorityFeeLamports,
+  };
+}
+
+/// @notice Writes a `pending` record before the developer wallet signs, publishes `sponsorship.requested`, and returns its id.
+export async function openSponsorship(entry: SponsorshipLedgerEntry): Promise<string> {
+  const now = Date.now();
+  const record: SponsorshipRecord = {
+    id: randomUUID(),
+    signature: null,
+    userWallet: entry.userWallet,
+    recipient: entry.recipients[0]?.recipient ?? "",
+    mint: entry.recipients[0]?.mint ?? "",
+    amount: entry.recipients.reduce((total, leg) => total + leg.amount, BigInt(0)).toString(),
+    recipients: entry.recipients.map((leg) => ({ ...leg, amount: leg.amount.toString() })),
+    feeLamports: entry.feeLamports,
+    rentLamports: entry.rentLamports,
+    priorityFeeLamports: entry.priorityFeeLamports,
+    status: "pending",
+    createdAt: now,
+    updatedAt: now,
+    failureReason: null,
+  };
+  await getLedgerStore().insert(record);
+  await emitWebhookEvent("sponsorship.requested", record);
+  return record.id;
+}
+
+/// @notice Marks a record as signed by the developer wallet under the given signature, publishing `sponsorship.signed`: `submitted` when the server broadcast it, `signed` when the caller will.
+export async function markSponsorshipSigned(
+  id: string,
+  signature: string,
+  status: "signed" | "submitted"
+) {
+  const record = await getLedgerStore().update(id, { status, signature });
+  if (record) {
+    await emitWebhookEvent("sponsorship.signed", record);
+  }
+}
+
+/// @notice Records a signed sponsorship in the ledger (`submitted` once the server broadcast it, `signed` when the caller broadcasts) and commits its quota reservation. Failures are only logged: the signature is already out, and reporting an error would invite the client to sign and pay for it again.
+export async function recordSponsorshipSignature(
+  id: string,
+  reservationId: string,
+  signature: string,
+  status: "signed" | "submitted"
+) {
+  try {
+    await markSponsorshipSigned(id, signature, status);
+  } catch (error) {
+    console.error(`Ledger update for signed sponsorship ${signature} failed`, error);
+  }
+  try {
+    await commitSponsorshipUsage(reservationId);
+  } catch (error) {
+    console.error(`Quota charge for signed sponsorship ${signature} failed`, error);
+  }
+}
+
+/// @notice Marks a record as confirmed on chain, publishing `sponsorship.confirmed`.
+export async function markSponsorshipConfirmed(id: string) {
+  const record = await getLedgerStore().update(id, { status: "confirmed", failureReason: null });
+  if (record) {
+    await emitWebhookEvent("sponsorship.confirmed", record);
+  }
+}
+
+/// @notice Marks a record as failed with a human-readable reason, publishing `sponsorship.failed`.
+export async function markSponsorshipFailed(id: string, failureReason: string) {
+  const record = await getLedgerStore().update(id, { status: "failed", failureReason });
+  if (record) {
+    await emitWebhookEvent("sponsorship.failed", record);
+  }
+}
+
+/// @notice Polls a signature until it confirms, fails, or its blockhash (or durable nonce) expires, updating the ledger; when the caller broadcasts it, the record moves from `signed` to `submitted` once the signature first appears on chain.
+export async function trackSponsorshipConfirmation(
+  connection: Connection,
+  id: string,
+  signature: string,
+  blockhash: string,
+  nonceAccount: string | null = null,
+  broadcastByCaller = false
+) {
+  const deadline = Date.now() + CONFIRMATION_TIMEOUT_MS;
+  let awaitingBroadcast = broadcastByCaller;
+  try {
+    while (Date.now() < deadline) {
+      const {
+        value: [status],
+      } = await connection.getSignatureStatuses([signature], {
+        searchTransactionHistory: true,
+      });
+      if (status?.err) {
+        await markSponsorshipFailed(id, `Transaction failed: ${JSON.stringify(status.err)}`);
+        return;
+      }
+      if (
+        status?.confirmationStatus === "confirmed" ||
+        status?.confirmationStatus === "finalized"
+      ) {
+        await markSponsorshipConfirmed(id);
+        return;
+      }
+      if (status && awaitingBroadcast) {
+        awaitingBroadcast = false;
+        await getLedgerStore().update(id, { status: "submitted" });
+      }
+      if (!status) {
+        const stillValid = nonceAccount
+          ? await isNonceCurrent(connection, new PublicKey(nonceAccount), blockhash)
+          : (await connection.isBlockhashValid(blockhash)).value;
+        if (!stillValid) {
+          await markSponsorshipFailed(id, "Transaction expired before it was confirmed.");
+          return;
+        }
+      }
+      await new Promise((resolve) => setTimeout(resolve, CONFIRMATION_POLL_MS));
+    }
+  } catch (error) {
+    console.error("Sponsorship confirmation tracking failed", error);
+  }
+}
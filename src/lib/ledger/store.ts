@@ -0,0 +1,180 @@
+/// @notice Imports filesystem helpers for the single-node file-backed ledger.
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+/// @notice Imports path helpers to resolve the ledger location.
+import path from "path";
+/// @notice Reads store selection from the server environment.
+import { requireServerEnv } from "@/lib/env";
+/// @notice Imports the ledger record and query shapes shared with the browser.
+import type {
+  SponsorshipPage,
+  SponsorshipQuery,
+  SponsorshipRecord,
+} from "@/types/sponsorship";
+
+/// @notice Storage contract shared by every ledger backend.
+export interface LedgerStore {
+  /// @notice Persists a new record.
+  insert(record: SponsorshipRecord): Promise<void>;
+  /// @notice Applies a partial update to an existing record and returns it.
+  update(
+    id: string,
+    patch: Partial<Omit<SponsorshipRecord, "id">>
+  ): Promise<SponsorshipRecord | null>;
+  /// @notice Lists records newest first, filtered and paginated.
+  list(query: SponsorshipQuery): Promise<SponsorshipPage>;
+}
+
+/// @notice Encodes the position after a record as an opaque cursor.
+const encodeCursor = (record: SponsorshipRecord) =>
+  Buffer.from(`${record.createdAt}:${record.id}`).toString("base64url");
+
+/// @notice Decodes a cursor back into the position it marks.
+const decodeCursor = (cursor: string) => {
+  const [createdAt, id] = Buffer.from(cursor, "base64url").toString("utf8").split(":");
+  return { createdAt: Number(createdAt), id };
+};
+
+/// @notice Orders records newest first, breaking ties by id so pagination is stable.
+const compareNewestFirst = (a: SponsorshipRecord, b: SponsorshipRecord) =>
+  b.createdAt - a.createdAt || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+/// @notice Keeps ledger records in process memory; suitable for development.
+export class MemoryLedgerStore implements LedgerStore {
+  /// @notice Records keyed by id.
+  protected records = new Map<string, SponsorshipRecord>();
+
+  /// @notice Stores a new record.
+  async insert(record: SponsorshipRecord): Promise<void> {
+    this.records.set(record.id, record);
+  }
+
+  /// @notice Merges a patch into an existing record.
+  async update(
+    id: string,
+    patch: Partial<Omit<SponsorshipRecord, "id">>
+  ): Promise<SponsorshipRecord | null> {
+    const current = this.records.get(id);
+    if (!current) {
+      return null;
+    }
+    const next = { ...current, ...patch, updatedAt: patch.updatedAt ?? Date.now() };
+    this.records.set(id, next);
+    return next;
+  }
+
+  /// @notice Filters, sorts, and slices the in-memory records.
+  async list(query: SponsorshipQuery): Promise<SponsorshipPage> {
+    const after = query.cursor ? decodeCursor(query.cursor) : null;
+    const matching = [...this.records.values()]
+      .filter(
+        (record) =>
+          (!query.wallet || record.userWallet === query.wallet) &&
+          (!query.status || record.status === query.status) &&
+          (!query.mint || record.mint === query.mint)
+      )
+      .sort(compareNewestFirst)
+      .filter(
+        (record) =>
+          !after ||
+          record.createdAt < after.createdAt ||
+          (record.createdAt === after.createdAt && record.id < after.id)
+      );
+    const records = matching.slice(0, query.limit);
+    return {
+      records,
+      nextCursor:
+        matching.length > query.limit ? encodeCursor(records[records.length - 1]) : null,
+    };
+  }
+}
+
+/// @notice Persists the ledger to a JSON file so history survives restarts on a single node.
+export class FileLedgerStore extends MemoryLedgerStore {
+  /// @notice Absolute path of the JSON file.
+  private readonly filePath: string;
+  /// @notice Resolves once the file has been loaded into memory.
+  private loaded: Promise<void> | null = null;
+  /// @notice Serializes writes so concurrent requests never interleave file contents.
+  private writeChain: Promise<void> = Promise.resolve();
+
+  /// @notice Creates a ledger backed by the given file path.
+  constructor(filePath: string) {
+    super();
+    this.filePath = path.resolve(filePath);
+  }
+
+  /// @notice Stores a new record and flushes the file.
+  async insert(record: SponsorshipRecord): Promise<void> {
+    await this.load();
+    await super.insert(record);
+    await this.flush();
+  }
+
+  /// @notice Updates a record and flushes the file.
+  async update(
+    id: string,
+    patch: Partial<Omit<SponsorshipRecord, "id">>
+  ): Promise<SponsorshipRecord | null> {
+    await this.load();
+    const next = await super.update(id, patch);
+    if (next) {
+      await this.flush();
+    }
+    return next;
+  }
+
+  /// @notice Lists records after loading the file.
+  async list(query: SponsorshipQuery): Promise<SponsorshipPage> {
+    await this.load();
+    return super.list(query);
+  }
+
+  /// @notice Reads the file once; a missing file starts an empty ledger.
+  private load() {
+    if (!this.loaded) {
+      this.loaded = readFile(this.filePath, "utf8")
+        .then((contents) => {
+          const records = JSON.parse(contents) as SponsorshipRecord[];
+          this.records = new Map(records.map((record) => [record.id, record]));
+        })
+        .catch((error: NodeJS.ErrnoException) => {
+          if (error.code !== "ENOENT") {
+            throw error;
+          }
+        });
+    }
+    return this.loaded;
+  }
+
+  /// @notice Writes the current records atomically (temp file plus rename).
+  private flush() {
+    const snapshot = JSON.stringify([...this.records.values()]);
+    this.writeChain = this.writeChain.catch(() => undefined).then(async () => {
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await writeFile(tempPath, snapshot, "utf8");
+      await rename(tempPath, this.filePath);
+    });
+    return this.writeChain;
+  }
+}
+
+/// @notice Caches the configured ledger for the process lifetime.
+let ledgerStore: LedgerStore | null = null;
+
+/// @notice Returns the ledger selected by `LEDGER_STORE` (`memory` or `file`).
+export function getLedgerStore(): LedgerStore {
+  if (!ledgerStore) {
+    const kind = requireServerEnv("LEDGER_STORE", "memory");
+    if (kind === "file") {
+      ledgerStore = new FileLedgerStore(
+        requireServerEnv("LEDGER_STORE_PATH", ".data/ledger.json")
+      );
+    } else if (kind === "memory") {
+      ledgerStore = new MemoryLedgerStore();
+    } else {
+      throw new Error(`Unsupported LEDGER_STORE "${kind}". Use "memory" or "file".`);
+    }
+  }
+  return ledgerStore;
+}
@@ -0,0 +1,177 @@
+/// @notice Reads the API key and client settings from the server environment.
+import { requireNumericServerEnv, requireServerEnv } from "@/lib/env";
+/// @notice Maps failed calls to structured errors and decides which ones to retry.
+import {
+  MetaKeepError,
+  isRetryableMetaKeepStatus,
+  mapMetaKeepFailure,
+} from "@/lib/metakeep/errors";
+/// @notice Imports the request and response models of the MetaKeep endpoints.
+import type {
+  GetDeveloperWalletRequest,
+  GetDeveloperWalletResponse,
+  MetaKeepErrorBody,
+  SignTransactionRequest,
+  SignTransactionResponse,
+} from "@/lib/metakeep/types";
+
+/// @notice Settings of the MetaKeep REST client.
+export interface MetaKeepClientConfig {
+  /// @notice Server-side MetaKeep API key.
+  apiKey: string;
+  /// @notice Base URL of the MetaKeep API, without a trailing slash.
+  baseUrl: string;
+  /// @notice Time allowed for each attempt, in milliseconds.
+  timeoutMs: number;
+  /// @notice Retries after the first attempt for rate limits, server errors, and network failures.
+  maxRetries: number;
+}
+
+/// @notice First retry delay; each further retry doubles it.
+const BASE_BACKOFF_MS = 250;
+
+/// @notice Longest delay between attempts, including a delay requested through `Retry-After`.
+const MAX_BACKOFF_MS = 5_000;
+
+/// @notice Reads the client settings, falling back to MetaKeep's production API.
+export function loadMetaKeepConfig(): MetaKeepClientConfig {
+  return {
+    apiKey: requireServerEnv("METAKEEP_API_KEY"),
+    baseUrl: requireServerEnv("METAKEEP_API_BASE_URL", "https://api.metakeep.xyz").replace(
+      /\/+$/,
+      ""
+    ),
+    timeoutMs: requireNumericServerEnv("METAKEEP_TIMEOUT_MS", "10000"),
+    maxRetries: requireNumericServerEnv("METAKEEP_MAX_RETRIES", "2"),
+  };
+}
+
+/// @notice Parses a `Retry-After` header given in seconds, or returns null.
+const parseRetryAfter = (response: Response) => {
+  const seconds = Number(response.headers.get("retry-after"));
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : null;
+};
+
+/// @notice Reads a JSON body, returning null when MetaKeep sent none or something else.
+const readJson = async (response: Response): Promise<Record<string, unknown> | null> => {
+  try {
+    const body = await response.json();
+    return body && typeof body === "object" ? body : null;
+  } catch {
+    return null;
+  }
+};
+
+/// @notice Waits before the next attempt: exponential backoff with jitter, or MetaKeep's `Retry-After` when longer.
+const backoff = (attempt: number, retryAfterSeconds: number | null) => {
+  const exponential = BASE_BACKOFF_MS * 2 ** attempt + Math.random() * BASE_BACKOFF_MS;
+  const delay = Math.min(Math.max(exponential, (retryAfterSeconds ?? 0) * 1000), MAX_BACKOFF_MS);
+  return new Promise((resolve) => setTimeout(resolve, delay));
+};
+
+/// @notice Typed client for the MetaKeep REST endpoints the server uses, with per-attempt timeouts and retries.
+export class MetaKeepClient {
+  /// @notice Settings applied to every call.
+  private readonly config: MetaKeepClientConfig;
+
+  /// @notice Creates a client with the given settings.
+  constructor(config: MetaKeepClientConfig) {
+    this.config = config;
+  }
+
+  /// @notice Fetches the developer wallet (`POST /v3/getDeveloperWallet`).
+  getDeveloperWallet(
+    request: GetDeveloperWalletRequest = { id: "master" }
+  ): Promise<GetDeveloperWalletResponse> {
+    return this.post<GetDeveloperWalletResponse>(
+      "/v3/getDeveloperWallet",
+      request,
+      (body) =>
+        typeof (body.wallet as GetDeveloperWalletResponse["wallet"] | undefined)?.solAddress ===
+        "string"
+    );
+  }
+
+  /// @notice Signs a serialized transaction message with the developer wallet (`POST /v2/app/sign/transaction`).
+  signTransaction(request: SignTransactionRequest): Promise<SignTransactionResponse> {
+    return this.post<SignTransactionResponse>(
+      "/v2/app/sign/transaction",
+      request,
+      (body) => typeof body.signature === "string"
+    );
+  }
+
+  /// @notice Posts a request, retrying rate limits, server errors, timeouts, and network failures with backoff, and checks the response has the expected shape.
+  private async post<T>(
+    path: string,
+    request: object,
+    isComplete: (body: Record<string, unknown>) => boolean
+  ): Promise<T> {
+    const { apiKey, baseUrl, timeoutMs, maxRetries } = this.config;
+    for (let attempt = 0; ; attempt += 1) {
+      let response: Response;
+      try {
+        response = await fetch(`${baseUrl}${path}`, {
+          method: "POST",
+          headers: {
+            accept: "application/json",
+            "content-type": "application/json",
+            "x-api-key": apiKey,
+          },
+          body: JSON.stringify(request),
+          cache: "no-store",
+          signal: AbortSignal.timeout(timeoutMs),
+        });
+      } catch (error) {
+        if (attempt < maxRetries) {
+          await backoff(attempt, null);
+          continue;
+        }
+        console.error(`MetaKeep ${path} failed`, error);
+        throw (error as Error)?.name === "TimeoutError"
+          ? new MetaKeepError(
+              "METAKEEP_TIMEOUT",
+              `MetaKeep did not answer within ${timeoutMs} ms.`,
+              504,
+              null
+            )
+          : new MetaKeepError("METAKEEP_UNAVAILABLE", "MetaKeep could not be reached.", 503, null);
+      }
+
+      const body = await readJson(response);
+      if (response.ok && body?.status === "SUCCESS") {
+        if (!isComplete(body)) {
+          throw new MetaKeepError(
+            "METAKEEP_INVALID_RESPONSE",
+            "MetaKeep returned an incomplete response.",
+            502,
+            response.status
+          );
+        }
+        return body as T;
+      }
+      const retryAfterSeconds = parseRetryAfter(response);
+      if (isRetryableMetaKeepStatus(response.status) && attempt < maxRetries) {
+        await backoff(attempt, retryAfterSeconds);
+        continue;
+      }
+      console.error(`MetaKeep ${path} failed with ${response.status}`, body);
+      throw mapMetaKeepFailure(
+        response.status,
+        body as MetaKeepErrorBody | null,
+        retryAfterSeconds
+      );
+    }
+  }
+}
+
+/// @notice Caches the configured client for the process lifetime.
+let metaKeepClient: MetaKeepClient | null = null;
+
+/// @notice Returns the MetaKeep client configured from the environment, creating it on first use.
+export function getMetaKeepClient(): MetaKeepClient {
+  if (!metaKeepClient) {
+    metaKeepClient = new MetaKeepClient(loadMetaKeepConfig());
+  }
+  return metaKeepClient;
+}
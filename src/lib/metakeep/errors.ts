@@ -0,0 +1,78 @@
+/// @notice Extends the shared refusal type so MetaKeep failures flow through `sponsorshipErrorResponse`.
+import { SponsorshipError } from "@/lib/sponsorship/errors";
+/// @notice Imports the error body MetaKeep returns.
+import type { MetaKeepErrorBody } from "@/lib/metakeep/types";
+
+/// @notice Signals a failed MetaKeep call, mapped to one of our codes and the HTTP status our callers should see.
+export class MetaKeepError extends SponsorshipError {
+  /// @notice HTTP status MetaKeep answered with, or null when no response arrived.
+  readonly upstreamStatus: number | null;
+
+  /// @notice Creates a mapped MetaKeep failure.
+  constructor(
+    code: string,
+    message: string,
+    httpStatus: number,
+    upstreamStatus: number | null,
+    details?: Record<string, unknown>
+  ) {
+    super(code, message, httpStatus, details);
+    this.name = "MetaKeepError";
+    this.upstreamStatus = upstreamStatus;
+  }
+}
+
+/// @notice Whether a MetaKeep HTTP status is worth retrying (rate limits and server errors).
+export const isRetryableMetaKeepStatus = (status: number) => status === 429 || status >= 500;
+
+/// @notice Maps a MetaKeep response that was not a success to our error codes: our own misconfiguration or a refused request is a 502, an overloaded or failing MetaKeep a 503.
+export function mapMetaKeepFailure(
+  upstreamStatus: number,
+  body: MetaKeepErrorBody | null,
+  retryAfterSeconds: number | null
+): MetaKeepError {
+  const details = body?.status ? { metakeepStatus: body.status } : undefined;
+  if (upstreamStatus === 401 || upstreamStatus === 403) {
+    return new MetaKeepError(
+      "METAKEEP_UNAUTHORIZED",
+      "MetaKeep rejected the server's API key.",
+      502,
+      upstreamStatus,
+      details
+    );
+  }
+  if (upstreamStatus === 429) {
+    return new MetaKeepError(
+      "METAKEEP_RATE_LIMITED",
+      "MetaKeep is rate limiting requests. Try again shortly.",
+      503,
+      upstreamStatus,
+      { ...details, retryAfterSeconds: retryAfterSeconds ?? undefined }
+    );
+  }
+  if (upstreamStatus >= 500) {
+    return new MetaKeepError(
+      "METAKEEP_UNAVAILABLE",
+      "MetaKeep is unavailable. Try again shortly.",
+      503,
+      upstreamStatus,
+      details
+    );
+  }
+  if (upstreamStatus >= 400) {
+    return new MetaKeepError(
+      "METAKEEP_REQUEST_REJECTED",
+      `MetaKeep refused the request${body?.status ? ` (${body.status})` : ""}.`,
+      502,
+      upstreamStatus,
+      details
+    );
+  }
+  return new MetaKeepError(
+    "METAKEEP_REJECTED",
+    `MetaKeep did not complete the request${body?.status ? ` (${body.status})` : ""}.`,
+    502,
+    upstreamStatus,
+    details
+  );
+}
@@ -0,0 +1,47 @@
+/// @notice Body of `POST /v3/getDeveloperWallet`.
+export interface GetDeveloperWalletRequest {
+  /// @notice Developer wallet identifier; the app's default wallet is `master`.
+  id: string;
+}
+
+/// @notice Response of `POST /v3/getDeveloperWallet`.
+export interface GetDeveloperWalletResponse {
+  /// @notice MetaKeep status string (`SUCCESS` when the wallet was returned).
+  status: string;
+  /// @notice Addresses of the developer wallet on each supported chain.
+  wallet: {
+    /// @notice EVM address.
+    ethAddress?: string;
+    /// @notice Solana address that pays sponsored fees.
+    solAddress: string;
+    /// @notice EOS address.
+    eosAddress?: string;
+  };
+}
+
+/// @notice Body of `POST /v2/app/sign/transaction` for a Solana message.
+export interface SignTransactionRequest {
+  /// @notice Transaction to sign.
+  transactionObject: {
+    /// @notice Hex-encoded (`0x`-prefixed) serialized transaction message.
+    serializedTransactionMessage: string;
+  };
+  /// @notice Reason recorded with the signature in MetaKeep.
+  reason: string;
+}
+
+/// @notice Response of `POST /v2/app/sign/transaction`.
+export interface SignTransactionResponse {
+  /// @notice MetaKeep status string (`SUCCESS` when signed).
+  status: string;
+  /// @notice Hex-encoded ed25519 signature over the serialized message.
+  signature: string;
+}
+
+/// @notice Error body MetaKeep returns alongside non-2xx statuses or a non-`SUCCESS` status.
+export interface MetaKeepErrorBody {
+  /// @notice MetaKeep status string, such as `INVALID_REQUEST`.
+  status?: string;
+  /// @notice Human-readable explanation.
+  message?: string;
+}
@@ -0,0 +1,56 @@
+/// @notice Imports the row shape sent to the batch routes.
+import type { PayoutRowInput } from "@/types/batch";
+
+/// @notice Matches a CSV header row naming the recipient and amount columns.
+const HEADER_PATTERN = /^(recipient|address|wallet)\b/i;
+
+/// @notice Strips surrounding whitespace and quotes from a CSV cell.
+const unquote = (cell: string) => cell.trim().replace(/^"(.*)"$/, "$1").trim();
+
+/// @notice Parses a JSON array of `{ recipient, amount }` objects, keeping numeric amounts as written.
+function parseJsonPayouts(text: string): PayoutRowInput[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The payout list is not valid JSON.");
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error("A JSON payout list must be an array of { recipient, amount } objects.");
+  }
+  return parsed.map((entry) => {
+    const { recipient, amount } = (entry ?? {}) as Record<string, unknown>;
+    return {
+      recipient: typeof recipient === "string" ? recipient : "",
+      amount: typeof amount === "string" || typeof amount === "number" ? String(amount) : "",
+    };
+  });
+}
+
+/// @notice Parses `recipient,amount` lines, skipping blank lines, `#` comments, and a header row.
+function parseCsvPayouts(text: string): PayoutRowInput[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"));
+  if (lines.length && HEADER_PATTERN.test(unquote(lines[0]))) {
+    lines.shift();
+  }
+  return lines.map((line) => {
+    const [recipient = "", amount = ""] = line.split(/[,;\t]/).map(unquote);
+    return { recipient, amount };
+  });
+}
+
+/// @notice Parses a payout list given as CSV (`recipient,amount`) or as a JSON array, detected from the first character.
+export function parsePayoutList(text: string): PayoutRowInput[] {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new Error("The payout list is empty.");
+  }
+  const rows = trimmed.startsWith("[") ? parseJsonPayouts(trimmed) : parseCsvPayouts(trimmed);
+  if (!rows.length) {
+    throw new Error("The payout list has no rows.");
+  }
+  return rows.map((row, index) => ({ ...row, row: index + 1 }));
+}
@@ -0,0 +1,171 @@
+/// @notice Reads quota limits from the server environment.
+import { requireNumericServerEnv } from "@/lib/env";
+/// @notice Persists and queries sponsorship charges.
+import { getQuotaStore } from "@/lib/quota/store";
+/// @notice Imports the limit shape checked when a charge is reserved.
+import type { UsageLimit } from "@/lib/quota/store";
+/// @notice Imports the allowance shape shared with the browser.
+import type { SponsorshipAllowance } from "@/types/sponsorship";
+/// @notice Surfaces quota refusals with structured codes.
+import { SponsorshipError } from "@/lib/sponsorship/errors";
+
+/// @notice Limits applied to sponsored transactions.
+export interface QuotaConfig {
+  /// @notice Rolling window, in milliseconds, for per-wallet limits.
+  windowMs: number;
+  /// @notice Sponsored transactions a wallet may use per window.
+  maxTransactionsPerWallet: number;
+  /// @notice Lamports the developer wallet may spend on one wallet per window.
+  maxLamportsPerWallet: number;
+  /// @notice Lamports the developer wallet may spend across all wallets per rolling day.
+  globalDailyLamports: number;
+}
+
+/// @notice One rolling day, the window of the global budget.
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/// @notice Reads quota limits, falling back to conservative defaults.
+export function loadQuotaConfig(): QuotaConfig {
+  return {
+    windowMs: requireNumericServerEnv("QUOTA_WINDOW_SECONDS", "3600") * 1000,
+    maxTransactionsPerWallet: requireNumericServerEnv("QUOTA_MAX_TRANSACTIONS_PER_WALLET", "10"),
+    maxLamportsPerWallet: requireNumericServerEnv("QUOTA_MAX_LAMPORTS_PER_WALLET", "5000000"),
+    globalDailyLamports: requireNumericServerEnv("QUOTA_GLOBAL_DAILY_LAMPORTS", "1000000000"),
+  };
+}
+
+/// @notice Computes what a wallet may still be sponsored for.
+export async function getSponsorshipAllowance(
+  wallet: string,
+  now = Date.now()
+): Promise<SponsorshipAllowance> {
+  const config = loadQuotaConfig();
+  const store = getQuotaStore();
+  const [walletUsage, globalUsage] = await Promise.all([
+    store.listUsage(now - config.windowMs, wallet),
+    store.listUsage(now - DAY_MS),
+  ]);
+  const walletLamports = walletUsage.reduce((total, record) => total + record.lamports, 0);
+  const globalLamports = globalUsage.reduce((total, record) => total + record.lamports, 0);
+  const remainingTransactions = Math.max(
+    config.maxTransactionsPerWallet - walletUsage.length,
+    0
+  );
+  const remainingLamports = Math.max(config.maxLamportsPerWallet - walletLamports, 0);
+  const globalRemainingLamports = Math.max(config.globalDailyLamports - globalLamports, 0);
+  return {
+    wallet,
+    remainingTransactions,
+    maxTransactions: config.maxTransactionsPerWallet,
+    remainingLamports,
+    maxLamports: config.maxLamportsPerWallet,
+    globalRemainingLamports,
+    windowSeconds: config.windowMs / 1000,
+    resetsAt: walletUsage.length ? walletUsage[0].timestamp + config.windowMs : null,
+    exhausted:
+      remainingTransactions === 0 || remainingLamports === 0 || globalRemainingLamports === 0,
+  };
+}
+
+/// @notice Builds the HTTP 429 refusal for an exceeded wallet or global limit.
+function quotaExceeded(limit: string, allowance: SponsorshipAllowance) {
+  if (limit === "wallet-transactions") {
+    return new SponsorshipError(
+      "QUOTA_EXCEEDED",
+      `Wallet has used all ${allowance.maxTransactions} sponsored transactions for this window.`,
+      429,
+      { allowance }
+    );
+  }
+  if (limit === "wallet-lamports") {
+    return new SponsorshipError(
+      "QUOTA_EXCEEDED",
+      "Wallet has used its sponsored lamport budget for this window.",
+      429,
+      { allowance }
+    );
+  }
+  return new SponsorshipError(
+    "GLOBAL_BUDGET_EXCEEDED",
+    "The developer wallet has reached its daily sponsorship budget.",
+    429,
+    { allowance }
+  );
+}
+
+/// @notice Refuses with HTTP 429 when sponsoring `lamports` more would exceed the wallet or global budget; an early check only, since the charge itself is reserved at submit.
+export async function assertSponsorshipAllowed(wallet: string, lamports: number) {
+  const allowance = await getSponsorshipAllowance(wallet);
+  if (allowance.remainingTransactions === 0) {
+    throw quotaExceeded("wallet-transactions", allowance);
+  }
+  if (lamports > allowance.remainingLamports) {
+    throw quotaExceeded("wallet-lamports", allowance);
+  }
+  if (lamports > allowance.globalRemainingLamports) {
+    throw quotaExceeded("global", allowance);
+  }
+}
+
+/// @notice Reserves `lamports` against the wallet and global budgets, plus the relayer client's daily budget when given, in one step so concurrent requests cannot overspend them; refuses with HTTP 429 otherwise. Returns the reservation id to commit once the transaction is broadcast, or release when it never was.
+export async function reserveSponsorshipUsage(
+  wallet: string,
+  lamports: number,
+  client?: { id: string; dailyLamports: number | null }
+): Promise<string> {
+  const config = loadQuotaConfig();
+  const now = Date.now();
+  const limits: UsageLimit[] = [
+    {
+      key: "wallet-transactions",
+      since: now - config.windowMs,
+      wallet,
+      maxTransactions: config.maxTransactionsPerWallet,
+    },
+    {
+      key: "wallet-lamports",
+      since: now - config.windowMs,
+      wallet,
+      maxLamports: config.maxLamportsPerWallet,
+    },
+    { key: "global", since: now - DAY_MS, maxLamports: config.globalDailyLamports },
+  ];
+  if (client && client.dailyLamports !== null) {
+    limits.push({
+      key: "client",
+      since: now - DAY_MS,
+      clientId: client.id,
+      maxLamports: client.dailyLamports,
+    });
+  }
+  const store = getQuotaStore();
+  const reservation = await store.reserveUsage(
+    { wallet, lamports, timestamp: now, clientId: client?.id },
+    limits
+  );
+  if (reservation.reserved) {
+    return reservation.reservationId;
+  }
+  if (reservation.limit === "client" && client && client.dailyLamports !== null) {
+    const spent = (await store.listUsage(now - DAY_MS))
+      .filter((record) => record.clientId === client.id)
+      .reduce((total, record) => total + record.lamports, 0);
+    throw new SponsorshipError(
+      "CLIENT_BUDGET_EXCEEDED",
+      "This client has reached its daily sponsorship budget.",
+      429,
+      { remainingLamports: Math.max(client.dailyLamports - spent, 0) }
+    );
+  }
+  throw quotaExceeded(reservation.limit, await getSponsorshipAllowance(wallet, now));
+}
+
+/// @notice Keeps a reservation as a charge once its sponsorship was broadcast.
+export async function commitSponsorshipUsage(reservationId: string) {
+  await getQuotaStore().commitUsage(reservationId);
+}
+
+/// @notice Returns a reservation to the budgets when its sponsorship was never broadcast.
+export async function releaseSponsorshipUsage(reservationId: string) {
+  await getQuotaStore().releaseUsage(reservationId);
+}
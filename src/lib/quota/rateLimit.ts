@@ -0,0 +1,75 @@
+/// @notice Imports Next.js request and response helpers.
+import { NextRequest, NextResponse } from "next/server";
+/// @notice Reads rate-limit configuration from the server environment.
+import { readServerEnv, requireNumericServerEnv } from "@/lib/env";
+/// @notice Uses the quota store's counters for per-IP windows.
+import { getQuotaStore } from "@/lib/quota/store";
+
+/// @notice Reads `TRUST_PROXY_HOPS`, the number of reverse proxies whose `X-Forwarded-For` entries are trusted.
+function readTrustedProxyHops(): number {
+  const trustedHops = requireNumericServerEnv("TRUST_PROXY_HOPS", "0");
+  if (!Number.isInteger(trustedHops)) {
+    throw new Error("TRUST_PROXY_HOPS must be a whole number of proxies (0 or more).");
+  }
+  return trustedHops;
+}
+
+/// @notice Logs once at startup when the caller IP can only come from the connection address the Next.js server recorded, which a direct caller can override with its own `X-Forwarded-For` header to evade per-IP limits.
+export function warnIfClientIpUntrusted() {
+  if (readTrustedProxyHops() === 0 && !readServerEnv("CLIENT_IP_HEADER")) {
+    console.warn(
+      "[rate-limit] WARNING: neither TRUST_PROXY_HOPS nor CLIENT_IP_HEADER is set. " +
+        "Per-IP limits use the connection address, which callers can spoof. " +
+        "Set TRUST_PROXY_HOPS behind a reverse proxy or CLIENT_IP_HEADER on a hosting platform."
+    );
+  }
+}
+
+/// @notice Resolves the caller IP: the `X-Forwarded-For` entry the outermost of `TRUST_PROXY_HOPS` trusted proxies appended; else the platform header named by `CLIENT_IP_HEADER`; else the connection address, which the Next.js server appends to `X-Forwarded-For` when it is absent. Callers are never pooled into one bucket.
+export function getClientIp(request: NextRequest): string {
+  const forwardedFor = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+  const trustedHops = readTrustedProxyHops();
+  if (trustedHops > 0) {
+    if (forwardedFor.length) {
+      return forwardedFor[Math.max(forwardedFor.length - trustedHops, 0)];
+    }
+    return request.headers.get("x-real-ip")?.trim() || "unknown";
+  }
+  const platformHeader = readServerEnv("CLIENT_IP_HEADER");
+  const platformAddress = platformHeader && request.headers.get(platformHeader)?.trim();
+  if (platformAddress) {
+    return platformAddress;
+  }
+  return forwardedFor[forwardedFor.length - 1] ?? "unknown";
+}
+
+/// @notice Counts a request against the caller's per-IP window and returns a 429 response once the limit (`RATE_LIMIT_MAX_REQUESTS` unless the route sets its own) is hit.
+export async function checkRateLimit(
+  request: NextRequest,
+  routeKey: string,
+  maxRequests = requireNumericServerEnv("RATE_LIMIT_MAX_REQUESTS", "30")
+): Promise<NextResponse | null> {
+  const windowMs = requireNumericServerEnv("RATE_LIMIT_WINDOW_SECONDS", "60") * 1000;
+  const now = Date.now();
+  const { count, resetAt } = await getQuotaStore().incrementCounter(
+    `${routeKey}:${getClientIp(request)}`,
+    windowMs,
+    now
+  );
+  if (count <= maxRequests) {
+    return null;
+  }
+  const retryAfterSeconds = Math.ceil((resetAt - now) / 1000);
+  return NextResponse.json(
+    {
+      error: "Too many requests. Please slow down.",
+      status: "REJECTED",
+      code: "RATE_LIMITED",
+      retryAfterSeconds,
+    },
+    { status: 429, headers: { "Retry-After": String(retryAfterSeconds) } }
+  );
+}
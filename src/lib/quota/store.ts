@@ -0,0 +1,282 @@
+/// @notice Generates reservation ids.
+import { randomUUID } from "crypto";
+/// @notice Imports filesystem helpers for the single-node file-backed store.
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+/// @notice Imports path helpers to resolve the store location.
+import path from "path";
+/// @notice Reads store selection from the server environment.
+import { requireServerEnv } from "@/lib/env";
+
+/// @notice One sponsored transaction charged against a User A wallet.
+export interface UsageRecord {
+  /// @notice User A wallet that requested the sponsorship.
+  wallet: string;
+  /// @notice Lamports the developer wallet spent (fee plus rent).
+  lamports: number;
+  /// @notice Unix time in milliseconds when the sponsorship was recorded.
+  timestamp: number;
+  /// @notice Relayer client the sponsorship was relayed for, when it came through `/api/relay`.
+  clientId?: string;
+  /// @notice Set while the sponsorship is reserved but not yet broadcast; cleared on commit.
+  reservationId?: string;
+}
+
+/// @notice A cap that the charges matching its filters must stay within once a new charge is added.
+export interface UsageLimit {
+  /// @notice Names the limit in a refusal.
+  key: string;
+  /// @notice Only charges at or after this Unix time in milliseconds count.
+  since: number;
+  /// @notice Only this wallet's charges count, when set.
+  wallet?: string;
+  /// @notice Only charges relayed for this client count, when set.
+  clientId?: string;
+  /// @notice Most matching charges allowed, the new one included.
+  maxTransactions?: number;
+  /// @notice Most matching lamports allowed, the new charge included.
+  maxLamports?: number;
+}
+
+/// @notice Outcome of a reservation: its id, or the first limit it would have exceeded.
+export type UsageReservation =
+  | { reserved: true; reservationId: string }
+  | { reserved: false; limit: string };
+
+/// @notice Current value of a fixed-window counter.
+export interface CounterState {
+  /// @notice Hits counted in the current window, including this one.
+  count: number;
+  /// @notice Unix time in milliseconds when the window resets.
+  resetAt: number;
+}
+
+/// @notice Storage contract shared by every quota backend.
+export interface QuotaStore {
+  /// @notice Lists charges newer than `since`, optionally for a single wallet.
+  listUsage(since: number, wallet?: string): Promise<UsageRecord[]>;
+  /// @notice Checks every limit and, when all hold, records the charge as a reservation in the same step, so concurrent requests cannot both pass the check.
+  reserveUsage(record: UsageRecord, limits: UsageLimit[]): Promise<UsageReservation>;
+  /// @notice Keeps a reservation as a charge once its sponsorship was broadcast.
+  commitUsage(reservationId: string): Promise<void>;
+  /// @notice Drops a reservation whose sponsorship was never broadcast.
+  releaseUsage(reservationId: string): Promise<void>;
+  /// @notice Increments a fixed-window counter and returns its new state.
+  incrementCounter(key: string, windowMs: number, now: number): Promise<CounterState>;
+  /// @notice Marks a single-use key as used until `expiresAt`; returns false when it was already used, so a replay can be refused.
+  claimKey(key: string, expiresAt: number, now: number): Promise<boolean>;
+}
+
+/// @notice Layout of the quota file: charges plus single-use keys and their expiry times.
+interface QuotaFileContents {
+  /// @notice Recorded charges, oldest first.
+  usage: UsageRecord[];
+  /// @notice Used single-use keys mapped to the Unix time in milliseconds they may be forgotten.
+  claims: Record<string, number>;
+}
+
+/// @notice Charges older than this are never needed, because the global budget is the longest window.
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/// @notice Keeps usage and counters in process memory; suitable for development.
+export class MemoryQuotaStore implements QuotaStore {
+  /// @notice Recorded charges, oldest first.
+  protected records: UsageRecord[] = [];
+  /// @notice Fixed-window counters keyed by caller-provided key.
+  private counters = new Map<string, CounterState>();
+  /// @notice Used single-use keys mapped to their expiry time.
+  protected claims = new Map<string, number>();
+
+  /// @notice Filters the in-memory charges.
+  async listUsage(since: number, wallet?: string): Promise<UsageRecord[]> {
+    return this.records.filter(
+      (record) => record.timestamp >= since && (!wallet || record.wallet === wallet)
+    );
+  }
+
+  /// @notice Checks the limits and appends the reservation without yielding in between.
+  async reserveUsage(record: UsageRecord, limits: UsageLimit[]): Promise<UsageReservation> {
+    const exceeded = limits.find((limit) => {
+      const matching = this.records.filter(
+        (charge) =>
+          charge.timestamp >= limit.since &&
+          (!limit.wallet || charge.wallet === limit.wallet) &&
+          (!limit.clientId || charge.clientId === limit.clientId)
+      );
+      const lamports = matching.reduce((total, charge) => total + charge.lamports, 0);
+      return (
+        (limit.maxTransactions !== undefined && matching.length + 1 > limit.maxTransactions) ||
+        (limit.maxLamports !== undefined && lamports + record.lamports > limit.maxLamports)
+      );
+    });
+    if (exceeded) {
+      return { reserved: false, limit: exceeded.key };
+    }
+    const reservationId = randomUUID();
+    this.records.push({ ...record, reservationId });
+    this.prune(record.timestamp);
+    return { reserved: true, reservationId };
+  }
+
+  /// @notice Clears the reservation mark so the charge stays.
+  async commitUsage(reservationId: string): Promise<void> {
+    const record = this.records.find((charge) => charge.reservationId === reservationId);
+    if (record) {
+      delete record.reservationId;
+    }
+  }
+
+  /// @notice Removes the reserved charge.
+  async releaseUsage(reservationId: string): Promise<void> {
+    this.records = this.records.filter((charge) => charge.reservationId !== reservationId);
+  }
+
+  /// @notice Increments a counter, starting a new window once the previous one elapsed.
+  async incrementCounter(key: string, windowMs: number, now: number): Promise<CounterState> {
+    const current = this.counters.get(key);
+    const next =
+      current && current.resetAt > now
+        ? { count: current.count + 1, resetAt: current.resetAt }
+        : { count: 1, resetAt: now + windowMs };
+    this.counters.set(key, next);
+    if (this.counters.size > 10_000) {
+      for (const [counterKey, state] of this.counters) {
+        if (state.resetAt <= now) {
+          this.counters.delete(counterKey);
+        }
+      }
+    }
+    return next;
+  }
+
+  /// @notice Records the key unless an unexpired claim exists, forgetting expired claims first.
+  async claimKey(key: string, expiresAt: number, now: number): Promise<boolean> {
+    for (const [claimed, claimExpiresAt] of this.claims) {
+      if (claimExpiresAt <= now) {
+        this.claims.delete(claimed);
+      }
+    }
+    if (this.claims.has(key)) {
+      return false;
+    }
+    this.claims.set(key, expiresAt);
+    return true;
+  }
+
+  /// @notice Drops charges that no quota window can reach anymore.
+  protected prune(now: number) {
+    const horizon = now - RETENTION_MS;
+    const firstLive = this.records.findIndex((record) => record.timestamp >= horizon);
+    this.records = firstLive === -1 ? [] : this.records.slice(firstLive);
+  }
+}
+
+/// @notice Persists usage and single-use keys to a JSON file so quotas and replay protection survive restarts on a single node; counters stay in memory.
+export class FileQuotaStore extends MemoryQuotaStore {
+  /// @notice Absolute path of the JSON file.
+  private readonly filePath: string;
+  /// @notice Resolves once the file has been loaded into memory.
+  private loaded: Promise<void> | null = null;
+  /// @notice Serializes writes so concurrent requests never interleave file contents.
+  private writeChain: Promise<void> = Promise.resolve();
+
+  /// @notice Creates a store backed by the given file path.
+  constructor(filePath: string) {
+    super();
+    this.filePath = path.resolve(filePath);
+  }
+
+  /// @notice Reserves a charge after loading the file, then flushes it.
+  async reserveUsage(record: UsageRecord, limits: UsageLimit[]): Promise<UsageReservation> {
+    await this.load();
+    const reservation = await super.reserveUsage(record, limits);
+    if (reservation.reserved) {
+      await this.flush();
+    }
+    return reservation;
+  }
+
+  /// @notice Commits a reservation and flushes the file.
+  async commitUsage(reservationId: string): Promise<void> {
+    await this.load();
+    await super.commitUsage(reservationId);
+    await this.flush();
+  }
+
+  /// @notice Releases a reservation and flushes the file.
+  async releaseUsage(reservationId: string): Promise<void> {
+    await this.load();
+    await super.releaseUsage(reservationId);
+    await this.flush();
+  }
+
+  /// @notice Claims a key after loading the file, then flushes it.
+  async claimKey(key: string, expiresAt: number, now: number): Promise<boolean> {
+    await this.load();
+    const claimed = await super.claimKey(key, expiresAt, now);
+    await this.flush();
+    return claimed;
+  }
+
+  /// @notice Filters charges after loading the file.
+  async listUsage(since: number, wallet?: string): Promise<UsageRecord[]> {
+    await this.load();
+    return super.listUsage(since, wallet);
+  }
+
+  /// @notice Reads the file once; a missing file starts an empty store, and a bare array is read as charges from before single-use keys were stored.
+  private load() {
+    if (!this.loaded) {
+      this.loaded = readFile(this.filePath, "utf8")
+        .then((contents) => {
+          const parsed = JSON.parse(contents) as QuotaFileContents | UsageRecord[];
+          if (Array.isArray(parsed)) {
+            this.records = parsed;
+          } else {
+            this.records = parsed.usage;
+            this.claims = new Map(Object.entries(parsed.claims));
+          }
+        })
+        .catch((error: NodeJS.ErrnoException) => {
+          if (error.code !== "ENOENT") {
+            throw error;
+          }
+        });
+    }
+    return this.loaded;
+  }
+
+  /// @notice Writes the current charges and claims atomically (temp file plus rename).
+  private flush() {
+    const snapshot = JSON.stringify({
+      usage: this.records,
+      claims: Object.fromEntries(this.claims),
+    } satisfies QuotaFileContents);
+    this.writeChain = this.writeChain.catch(() => undefined).then(async () => {
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await writeFile(tempPath, snapshot, "utf8");
+      await rename(tempPath, this.filePath);
+    });
+    return this.writeChain;
+  }
+}
+
+/// @notice Caches the configured store for the process lifetime.
+let quotaStore: QuotaStore | null = null;
+
+/// @notice Returns the quota store selected by `QUOTA_STORE` (`memory` or `file`).
+export function getQuotaStore(): QuotaStore {
+  if (!quotaStore) {
+    const kind = requireServerEnv("QUOTA_STORE", "memory");
+    if (kind === "file") {
+      quotaStore = new FileQuotaStore(
+        requireServerEnv("QUOTA_STORE_PATH", ".data/quota.json")
+      );
+    } else if (kind === "memory") {
+      quotaStore = new MemoryQuotaStore();
+    } else {
+      throw new Error(`Unsupported QUOTA_STORE "${kind}". Use "memory" or "file".`);
+    }
+  }
+  return quotaStore;
+}
@@ -0,0 +1,162 @@
+/// @notice Imports Node's hashing and constant-time comparison primitives for API key checks.
+import { createHash, timingSafeEqual } from "crypto";
+/// @notice Imports the public key type used to parse per-client program allow-lists.
+import { PublicKey } from "@solana/web3.js";
+/// @notice Imports Next.js request type to read the API key header.
+import { NextRequest } from "next/server";
+/// @notice Reads the client registry from the server environment.
+import { readServerEnv } from "@/lib/env";
+/// @notice Builds the global sponsor policy that every client policy narrows.
+import { SponsorPolicy, loadSponsorPolicy } from "@/lib/sponsorship/policy";
+/// @notice Surfaces authentication failures with structured codes.
+import { SponsorshipError } from "@/lib/sponsorship/errors";
+
+/// @notice A third-party app allowed to relay transactions through the developer wallet.
+export interface RelayerClient {
+  /// @notice Stable identifier recorded with every charge.
+  id: string;
+  /// @notice Display name shown in the MetaKeep approval note.
+  name: string;
+  /// @notice SHA-256 of the client's API key, hex encoded.
+  apiKeyHash: Buffer;
+  /// @notice Programs the client may call, or null to use the global allow-list.
+  allowedProgramIds: PublicKey[] | null;
+  /// @notice Symbols of the sponsored tokens the client may move, or null for all of them.
+  tokens: string[] | null;
+  /// @notice Whether the developer wallet may pay token-account rent for this client.
+  allowAccountCreation: boolean;
+  /// @notice Compute unit cap for this client, or null to use the global cap.
+  maxComputeUnits: number | null;
+  /// @notice Priority fee cap for this client, or null to use the global cap.
+  maxPriorityFeeLamports: number | null;
+  /// @notice Lamports the developer wallet may spend on this client per rolling day, or null for no client limit.
+  dailyLamports: number | null;
+}
+
+/// @notice Header relayer clients send their API key in.
+export const RELAYER_API_KEY_HEADER = "x-api-key";
+
+/// @notice Hashes an API key the way `RELAYER_CLIENTS` stores it.
+export const hashRelayerApiKey = (apiKey: string) =>
+  createHash("sha256").update(apiKey, "utf8").digest();
+
+/// @notice Reads an optional non-negative number from a client entry.
+const optionalNumber = (value: unknown, field: string, id: string) => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    throw new Error(`RELAYER_CLIENTS entry "${id}" has an invalid ${field}.`);
+  }
+  return value;
+};
+
+/// @notice Reads an optional list of strings from a client entry.
+const optionalList = (value: unknown, field: string, id: string) => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+    throw new Error(`RELAYER_CLIENTS entry "${id}" has an invalid ${field}; use a string array.`);
+  }
+  return value as string[];
+};
+
+/// @notice Reads `RELAYER_CLIENTS`, a JSON array of client entries; without it the relayer accepts no one.
+export function loadRelayerClients(): RelayerClient[] {
+  const raw = readServerEnv("RELAYER_CLIENTS");
+  if (!raw) {
+    return [];
+  }
+  let entries: unknown;
+  try {
+    entries = JSON.parse(raw);
+  } catch {
+    throw new Error("RELAYER_CLIENTS must be a JSON array of client entries.");
+  }
+  if (!Array.isArray(entries)) {
+    throw new Error("RELAYER_CLIENTS must be a JSON array of client entries.");
+  }
+  const clients = entries.map((entry: Record<string, unknown>) => {
+    const id = typeof entry?.id === "string" ? entry.id.trim() : "";
+    const apiKeyHash = typeof entry?.apiKeyHash === "string" ? entry.apiKeyHash.trim() : "";
+    if (!id || !/^[0-9a-fA-F]{64}$/.test(apiKeyHash)) {
+      throw new Error(
+        "Every RELAYER_CLIENTS entry needs an id and an apiKeyHash (SHA-256 of its key, hex)."
+      );
+    }
+    const programs = optionalList(entry.allowedPrograms, "allowedPrograms", id);
+    return {
+      id,
+      name: typeof entry.name === "string" && entry.name.trim() ? entry.name.trim() : id,
+      apiKeyHash: Buffer.from(apiKeyHash, "hex"),
+      allowedProgramIds: programs && programs.map((program) => new PublicKey(program)),
+      tokens: optionalList(entry.tokens, "tokens", id),
+      allowAccountCreation: entry.allowAccountCreation === true,
+      maxComputeUnits: optionalNumber(entry.maxComputeUnits, "maxComputeUnits", id),
+      maxPriorityFeeLamports: optionalNumber(
+        entry.maxPriorityFeeLamports,
+        "maxPriorityFeeLamports",
+        id
+      ),
+      dailyLamports: optionalNumber(entry.dailyLamports, "dailyLamports", id),
+    };
+  });
+  const ids = new Set(clients.map((client) => client.id));
+  if (ids.size !== clients.length) {
+    throw new Error("RELAYER_CLIENTS ids must be unique.");
+  }
+  return clients;
+}
+
+/// @notice Resolves the client whose API key the request carries, refusing with a 401 otherwise.
+export function authenticateRelayerClient(request: NextRequest): RelayerClient {
+  const apiKey = request.headers.get(RELAYER_API_KEY_HEADER)?.trim();
+  if (!apiKey) {
+    throw new SponsorshipError(
+      "UNAUTHORIZED",
+      `Send the client API key in the ${RELAYER_API_KEY_HEADER} header.`,
+      401
+    );
+  }
+  const provided = hashRelayerApiKey(apiKey);
+  const client = loadRelayerClients().find((candidate) =>
+    timingSafeEqual(candidate.apiKeyHash, provided)
+  );
+  if (!client) {
+    throw new SponsorshipError("UNAUTHORIZED", "Unknown relayer API key.", 401);
+  }
+  return client;
+}
+
+/// @notice Derives a client's policy from the global one: its program list replaces the global allow-list, its tokens, rent, and compute caps can only tighten, and it never gets the sponsor's nonce account.
+export function loadRelayerPolicy(client: RelayerClient, developerWallet: string): SponsorPolicy {
+  const policy = loadSponsorPolicy(developerWallet);
+  const unknownToken = client.tokens?.find(
+    (symbol) => !policy.tokens.some((token) => token.symbol === symbol)
+  );
+  if (unknownToken) {
+    throw new Error(
+      `RELAYER_CLIENTS entry "${client.id}" lists ${unknownToken}, which is not in SPONSOR_TOKENS.`
+    );
+  }
+  return {
+    ...policy,
+    allowedProgramIds: client.allowedProgramIds ?? policy.allowedProgramIds,
+    tokens: client.tokens
+      ? policy.tokens.filter((token) => client.tokens?.includes(token.symbol))
+      : policy.tokens,
+    allowAccountCreation: policy.allowAccountCreation && client.allowAccountCreation,
+    computeBudgetCaps: {
+      maxComputeUnits: Math.min(
+        policy.computeBudgetCaps.maxComputeUnits,
+        client.maxComputeUnits ?? Infinity
+      ),
+      maxPriorityFeeLamports: Math.min(
+        policy.computeBudgetCaps.maxPriorityFeeLamports,
+        client.maxPriorityFeeLamports ?? Infinity
+      ),
+    },
+    nonceAccount: null,
+  };
+}
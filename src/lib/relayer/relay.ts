@@ -0,0 +1,129 @@
+/// @notice Imports Solana primitives used to decode and broadcast relayed transactions.
+import { VersionedTransaction } from "@solana/web3.js";
+/// @notice Imports ed25519 verification so the client's signatures are checked before the sponsor co-signs.
+import nacl from "tweetnacl";
+/// @notice Imports the Buffer polyfill for transaction decoding.
+import { Buffer } from "buffer";
+/// @notice Converts MetaKeep hex signatures to bytes and back.
+import { hexToUint8Array, uint8ArrayToHex } from "@/lib/hex";
+/// @notice Provides the server-side RPC connection.
+import { getServerConnection } from "@/lib/solana/connection";
+/// @notice Resolves and signs with the developer wallet through MetaKeep.
+import { getDeveloperWalletAddress, signWithDeveloperWallet } from "@/lib/developerWallet";
+/// @notice Vets every relayed message against the client's policy before signing.
+import { evaluateSponsorPolicy } from "@/lib/sponsorship/policy";
+/// @notice Builds the policy of the calling client.
+import { RelayerClient, loadRelayerPolicy } from "@/lib/relayer/clients";
+/// @notice Resolves address lookup tables referenced by v0 messages.
+import { resolveMessageLookupTables } from "@/lib/sponsorship/transactionFormat";
+/// @notice Refuses transactions whose blockhash already expired.
+import { assertMessageLifetime } from "@/lib/sponsorship/lifetime";
+/// @notice Prices the fee and rent the developer wallet covers.
+import { SponsorCost, estimateSponsorCost, sponsoredLamports } from "@/lib/sponsorship/cost";
+/// @notice Enforces and charges per-wallet, per-client, and global sponsorship budgets.
+import { releaseSponsorshipUsage, reserveSponsorshipUsage } from "@/lib/quota/quota";
+/// @notice Records every relayed transaction in the ledger.
+import {
+  describeSponsorship,
+  markSponsorshipFailed,
+  openSponsorship,
+  recordSponsorshipSignature,
+} from "@/lib/ledger/ledger";
+/// @notice Surfaces expected refusals with structured codes.
+import { SponsorshipError } from "@/lib/sponsorship/errors";
+
+/// @notice Result of co-signing and broadcasting a relayed transaction.
+export interface RelayedTransaction extends SponsorCost {
+  /// @notice Transaction signature (id) returned by the RPC node.
+  signature: string;
+  /// @notice Ledger id of the sponsorship.
+  ledgerId: string;
+  /// @notice Blockhash the transaction was built against, used to detect expiry.
+  blockhash: string;
+}
+
+/// @notice Decodes a base64 serialized transaction, refusing with a 400 when it is malformed.
+function decodeRelayedTransaction(serializedTransaction: string) {
+  try {
+    return VersionedTransaction.deserialize(Buffer.from(serializedTransaction, "base64"));
+  } catch (error) {
+    throw new SponsorshipError(
+      "INVALID_TRANSACTION",
+      error instanceof Error ? error.message : "Transaction could not be decoded."
+    );
+  }
+}
+
+/// @notice Checks a client's partially signed transaction against its policy, verifies every signature but the fee payer's, adds the developer signature, and broadcasts.
+export async function relaySponsoredTransaction(
+  client: RelayerClient,
+  serializedTransaction: string,
+  reason?: string
+): Promise<RelayedTransaction> {
+  const transaction = decodeRelayedTransaction(serializedTransaction);
+  const { message } = transaction;
+  const connection = getServerConnection();
+  const developerWallet = await getDeveloperWalletAddress();
+  const decision = evaluateSponsorPolicy(
+    message,
+    loadRelayerPolicy(client, developerWallet),
+    await resolveMessageLookupTables(connection, message)
+  );
+  if (!decision.allowed) {
+    const { code, reason: violation, instructionIndex } = decision.violation;
+    throw new SponsorshipError(code, violation, 403, { instructionIndex });
+  }
+  if (message.header.numRequiredSignatures < 2) {
+    throw new SponsorshipError(
+      "UNEXPECTED_SIGNERS",
+      "Relayed transactions need at least one signer besides the developer wallet."
+    );
+  }
+
+  const messageBytes = message.serialize();
+  for (let index = 1; index < message.header.numRequiredSignatures; index += 1) {
+    const signer = message.staticAccountKeys[index];
+    if (!nacl.sign.detached.verify(messageBytes, transaction.signatures[index], signer.toBytes())) {
+      throw new SponsorshipError(
+        "INVALID_SIGNATURE",
+        `Signature of ${signer.toBase58()} is missing or does not match the transaction.`,
+        400,
+        { signer: signer.toBase58() }
+      );
+    }
+  }
+
+  const chargedWallet = message.staticAccountKeys[1].toBase58();
+  await assertMessageLifetime(connection, message, null);
+  const cost = await estimateSponsorCost(connection, message, decision.summary);
+  const reservationId = await reserveSponsorshipUsage(
+    chargedWallet,
+    sponsoredLamports(cost),
+    client
+  );
+  const ledgerId = await openSponsorship(
+    await describeSponsorship(connection, chargedWallet, decision.summary, cost)
+  );
+  let signature: string;
+  try {
+    const developerSignature = await signWithDeveloperWallet(
+      uint8ArrayToHex(messageBytes),
+      reason ? `${client.name}: ${reason}` : `Gas sponsorship for ${client.name}`
+    );
+    transaction.signatures[0] = hexToUint8Array(developerSignature.signature);
+    signature = await connection.sendRawTransaction(transaction.serialize(), {
+      skipPreflight: false,
+      preflightCommitment: "confirmed",
+    });
+  } catch (error) {
+    await releaseSponsorshipUsage(reservationId);
+    await markSponsorshipFailed(
+      ledgerId,
+      error instanceof Error ? error.message : "Unknown error"
+    );
+    throw error;
+  }
+  /// @notice Once broadcast, the relay is reported as submitted even if bookkeeping fails.
+  await recordSponsorshipSignature(ledgerId, reservationId, signature, "submitted");
+  return { signature, ledgerId, blockhash: message.recentBlockhash, ...cost };
+}
@@ -0,0 +1,70 @@
+/// @notice Imports the MetaKeep constructor type exposed once the SDK loads.
+import type { MetaKeepConstructor } from "@/types/metakeep";
+
+/// @notice Browser SDKs the app loads on demand.
+export interface BrowserSdks {
+  /// @notice The bundled `@solana/web3.js` module, the same copy the rest of the app imports.
+  solana: typeof import("@solana/web3.js");
+  /// @notice The MetaKeep constructor from the bundled `metakeep` package.
+  metaKeep: MetaKeepConstructor;
+}
+
+/// @notice Name of a browser SDK.
+export type SdkName = keyof BrowserSdks;
+
+/// @notice Load state of one SDK, as rendered by the UI.
+export type SdkLoadState<T> =
+  | { status: "loading"; sdk: null; error: null }
+  | { status: "ready"; sdk: T; error: null }
+  | { status: "failed"; sdk: null; error: string };
+
+/// @notice Human-readable SDK names for status copy.
+export const SDK_LABELS: Record<SdkName, string> = {
+  solana: "Solana Web3.js",
+  metaKeep: "MetaKeep",
+};
+
+/// @notice How long an SDK chunk may take to download and evaluate before it is reported as failed.
+const SDK_LOAD_TIMEOUT_MS = 15_000;
+
+/// @notice Imports each SDK's chunk from the bundle.
+const importers: { [Name in SdkName]: () => Promise<BrowserSdks[Name]> } = {
+  solana: () => import("@solana/web3.js"),
+  metaKeep: () => import("metakeep").then(({ MetaKeep }) => MetaKeep),
+};
+
+/// @notice Loads in flight or finished, shared by every caller; failures are dropped so a retry imports again.
+const loads: { [Name in SdkName]?: Promise<BrowserSdks[Name]> } = {};
+
+/// @notice Loads one SDK from the bundle, failing after `timeoutMs` when the chunk does not arrive (for example on a flaky network or a blocked request).
+export function loadSdk<Name extends SdkName>(
+  name: Name,
+  timeoutMs = SDK_LOAD_TIMEOUT_MS
+): Promise<BrowserSdks[Name]> {
+  const existing = loads[name] as Promise<BrowserSdks[Name]> | undefined;
+  if (existing) {
+    return existing;
+  }
+  const label = SDK_LABELS[name];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const load = Promise.race([
+    (importers[name] as () => Promise<BrowserSdks[Name]>)().catch((error: unknown) => {
+      throw new Error(
+        `${label} SDK failed to load: ${error instanceof Error ? error.message : "unknown error"}`
+      );
+    }),
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`${label} SDK did not load within ${timeoutMs / 1000} seconds.`)),
+        timeoutMs
+      );
+    }),
+  ])
+    .catch((error: unknown) => {
+      delete loads[name];
+      throw error;
+    })
+    .finally(() => clearTimeout(timer));
+  loads[name] = load as (typeof loads)[Name];
+  return load;
+}
@@ -0,0 +1,5 @@
+/// @notice Whether the user dismissed a login or signing prompt: MetaKeep reports `OPERATION_CANCELLED`, and wallet-standard wallets reject with code 4001.
+export const isSigningCancelled = (error: unknown) => {
+  const { status, code } = (error ?? {}) as { status?: string; code?: number };
+  return status === "OPERATION_CANCELLED" || code === 4001;
+};
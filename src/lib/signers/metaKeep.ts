@@ -0,0 +1,35 @@
+/// @notice Imports the MetaKeep SDK surface the signer wraps.
+import type { MetaKeepSDK } from "@/types/metakeep";
+/// @notice Imports the signer contract.
+import type { UserSigner } from "@/types/signer";
+/// @notice Treats a dismissed login as "no wallet" rather than a failure.
+import { isSigningCancelled } from "@/lib/signers/errors";
+
+/// @notice Wraps the MetaKeep SDK as a user signer: `getAddress` opens MetaKeep's login, and signatures come back hex encoded.
+export function createMetaKeepSigner(sdk: MetaKeepSDK): UserSigner {
+  return {
+    kind: "metakeep",
+    name: "MetaKeep",
+    getAddress: async () => {
+      try {
+        const response = await sdk.getWallet();
+        return response?.status === "SUCCESS" && response.wallet?.solAddress
+          ? response.wallet.solAddress
+          : null;
+      } catch (error) {
+        if (isSigningCancelled(error)) {
+          return null;
+        }
+        throw error;
+      }
+    },
+    signTransaction: async (transaction, reason) => {
+      const result = await sdk.signTransaction(transaction, reason);
+      if (!result?.signature) {
+        throw new Error("User signature was not provided by MetaKeep.");
+      }
+      return { signature: result.signature };
+    },
+    signMessage: (message, reason) => sdk.signMessage(message, reason),
+  };
+}
@@ -0,0 +1,202 @@
+/// @notice Imports Solana primitives used to serialize transactions and read back their signatures.
+import { PublicKey, Transaction, VersionedTransaction } from "@solana/web3.js";
+/// @notice Imports the Buffer polyfill so byte arrays can be compared inside the browser bundle.
+import { Buffer } from "buffer";
+/// @notice Hex encodes signatures the way MetaKeep returns them.
+import { uint8ArrayToHex } from "@/lib/hex";
+/// @notice Treats a rejected connection as "no wallet" rather than a failure.
+import { isSigningCancelled } from "@/lib/signers/errors";
+/// @notice Imports the cluster names mapped to wallet-standard chains.
+import type { ClusterName } from "@/types/cluster";
+/// @notice Imports the signer contract.
+import type { UserSigner } from "@/types/signer";
+
+/// @notice An account a wallet-standard wallet exposes.
+export interface WalletStandardAccount {
+  /// @notice Base58 address.
+  address: string;
+  /// @notice Raw public key.
+  publicKey: Uint8Array;
+  /// @notice Chains the account can be used on, such as `solana:devnet`.
+  chains: readonly string[];
+  /// @notice Features the account supports.
+  features: readonly string[];
+}
+
+/// @notice A wallet registered through the wallet-standard protocol (Phantom, Backpack, Solflare, ...).
+export interface WalletStandardWallet {
+  /// @notice Wallet name.
+  name: string;
+  /// @notice Wallet icon as a data URI.
+  icon: string;
+  /// @notice Chains the wallet supports.
+  chains: readonly string[];
+  /// @notice Accounts already authorized for this app.
+  accounts: readonly WalletStandardAccount[];
+  /// @notice Features keyed by name, such as `standard:connect`.
+  features: Readonly<Record<string, unknown>>;
+}
+
+/// @notice The `standard:connect` feature.
+interface ConnectFeature {
+  /// @notice Asks the user to authorize the app and returns the authorized accounts.
+  connect: () => Promise<{ accounts: readonly WalletStandardAccount[] }>;
+}
+
+/// @notice The `solana:signTransaction` feature.
+interface SignTransactionFeature {
+  /// @notice Transaction versions the wallet can sign.
+  supportedTransactionVersions: readonly ("legacy" | 0)[];
+  /// @notice Signs serialized transactions without sending them.
+  signTransaction: (
+    ...inputs: { account: WalletStandardAccount; transaction: Uint8Array; chain?: string }[]
+  ) => Promise<readonly { signedTransaction: Uint8Array }[]>;
+}
+
+/// @notice The `solana:signMessage` feature.
+interface SignMessageFeature {
+  /// @notice Signs raw message bytes.
+  signMessage: (
+    ...inputs: { account: WalletStandardAccount; message: Uint8Array }[]
+  ) => Promise<readonly { signedMessage: Uint8Array; signature: Uint8Array }[]>;
+}
+
+/// @notice Registration API handed to wallets, as defined by the wallet-standard protocol.
+interface WalletStandardAppApi {
+  /// @notice Registers wallets and returns a function that unregisters them.
+  register: (...wallets: WalletStandardWallet[]) => () => void;
+}
+
+/// @notice Features a wallet needs before it is offered.
+const REQUIRED_FEATURES = ["standard:connect", "solana:signTransaction", "solana:signMessage"];
+
+/// @notice Maps a cluster to its wallet-standard chain id.
+export const walletStandardChain = (cluster: ClusterName) =>
+  `solana:${cluster === "mainnet-beta" ? "mainnet" : cluster}`;
+
+/// @notice Whether a wallet supports the chain and every feature the signer uses.
+const isSupportedWallet = (wallet: WalletStandardWallet, chain: string) =>
+  wallet.chains.includes(chain) &&
+  REQUIRED_FEATURES.every((feature) => feature in wallet.features);
+
+/// @notice Discovers wallet-standard wallets: announces the app so installed wallets register, listens for wallets that load later, and reports the wallets supporting the chain whenever the set changes. Returns a function that stops listening.
+export function watchWalletStandardWallets(
+  chain: string,
+  onChange: (wallets: WalletStandardWallet[]) => void
+): () => void {
+  const registered = new Set<WalletStandardWallet>();
+  const publish = () =>
+    onChange([...registered].filter((wallet) => isSupportedWallet(wallet, chain)));
+  const api: WalletStandardAppApi = {
+    register: (...wallets) => {
+      wallets.forEach((wallet) => registered.add(wallet));
+      publish();
+      return () => {
+        wallets.forEach((wallet) => registered.delete(wallet));
+        publish();
+      };
+    },
+  };
+  const onRegister = (event: Event) => {
+    try {
+      (event as CustomEvent<(appApi: WalletStandardAppApi) => void>).detail(api);
+    } catch (error) {
+      console.error("Wallet registration failed", error);
+    }
+  };
+
+  window.addEventListener("wallet-standard:register-wallet", onRegister);
+  window.dispatchEvent(new CustomEvent("wallet-standard:app-ready", { detail: api }));
+  return () => window.removeEventListener("wallet-standard:register-wallet", onRegister);
+}
+
+/// @notice Serializes a transaction's message, the bytes every signature covers.
+const serializeMessage = (transaction: Transaction | VersionedTransaction) =>
+  transaction instanceof VersionedTransaction
+    ? transaction.message.serialize()
+    : transaction.serializeMessage();
+
+/// @notice Reads the signer's signature out of a transaction the wallet signed, refusing it when the wallet changed the message, since the sponsor only co-signs the transaction it prepared.
+const readSignature = (
+  original: Transaction | VersionedTransaction,
+  signedBytes: Uint8Array,
+  signer: string
+) => {
+  const signed =
+    original instanceof VersionedTransaction
+      ? VersionedTransaction.deserialize(signedBytes)
+      : Transaction.from(signedBytes);
+  if (!Buffer.from(serializeMessage(signed)).equals(Buffer.from(serializeMessage(original)))) {
+    throw new Error("The wallet changed the transaction while signing it.");
+  }
+  const signerKey = new PublicKey(signer);
+  const signature =
+    signed instanceof VersionedTransaction
+      ? signed.signatures[
+          signed.message.staticAccountKeys.findIndex((key) => key.equals(signerKey))
+        ]
+      : signed.signatures.find(({ publicKey }) => publicKey.equals(signerKey))?.signature;
+  if (!signature || signature.every((byte) => byte === 0)) {
+    throw new Error("The wallet did not sign the transaction.");
+  }
+  return signature;
+};
+
+/// @notice Wraps a wallet-standard wallet as a user signer on the given chain: `getAddress` asks the wallet to connect, and signatures are hex encoded to match MetaKeep's.
+export function createWalletStandardSigner(
+  wallet: WalletStandardWallet,
+  chain: string
+): UserSigner {
+  const connectFeature = wallet.features["standard:connect"] as ConnectFeature;
+  const transactionFeature = wallet.features["solana:signTransaction"] as SignTransactionFeature;
+  const messageFeature = wallet.features["solana:signMessage"] as SignMessageFeature;
+  /// @notice Account picked on connect.
+  let account: WalletStandardAccount | null = null;
+  /// @notice Returns the connected account, or throws before `getAddress` succeeded.
+  const requireAccount = () => {
+    if (!account) {
+      throw new Error(`${wallet.name} is not connected.`);
+    }
+    return account;
+  };
+
+  return {
+    kind: "wallet-standard",
+    name: wallet.name,
+    getAddress: async () => {
+      try {
+        const { accounts } = await connectFeature.connect();
+        account = accounts.find((candidate) => candidate.chains.includes(chain)) ?? null;
+        return account?.address ?? null;
+      } catch (error) {
+        if (isSigningCancelled(error)) {
+          return null;
+        }
+        throw error;
+      }
+    },
+    signTransaction: async (transaction) => {
+      const signer = requireAccount();
+      const isVersioned = transaction instanceof VersionedTransaction;
+      if (isVersioned && !transactionFeature.supportedTransactionVersions.includes(0)) {
+        throw new Error(`${wallet.name} cannot sign versioned transactions.`);
+      }
+      const [output] = await transactionFeature.signTransaction({
+        account: signer,
+        transaction: isVersioned
+          ? transaction.serialize()
+          : transaction.serialize({ requireAllSignatures: false, verifySignatures: false }),
+        chain,
+      });
+      const signature = readSignature(transaction, output.signedTransaction, signer.address);
+      return { signature: uint8ArrayToHex(signature) };
+    },
+    signMessage: async (message) => {
+      const [output] = await messageFeature.signMessage({
+        account: requireAccount(),
+        message: new TextEncoder().encode(message),
+      });
+      return { signature: uint8ArrayToHex(output.signature) };
+    },
+  };
+}
@@ -0,0 +1,259 @@
+/// @notice Imports the public key type used to validate addresses.
+import { PublicKey } from "@solana/web3.js";
+/// @notice Imports the two token program ids whose accounts are summed, plus the associated token account derivation.
+import {
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+/// @notice Sends the batch through the RPC pool.
+import { getRpcPool } from "@/lib/solana/rpcPool";
+/// @notice Imports the balance shapes shared with the browser.
+import type { AddressBalances, BalancesResult, MintDecimals } from "@/types/balances";
+
+/// @notice Largest number of addresses one lookup accepts.
+export const MAX_BALANCE_ADDRESSES = 25;
+
+/// @notice Largest number of mints one lookup accepts.
+export const MAX_BALANCE_MINTS = 10;
+
+/// @notice How long a wallet's balances are reused before they are read again.
+const BALANCE_CACHE_TTL_MS = 5_000;
+
+/// @notice How long a mint's decimals are reused before they are read again.
+const MINT_CACHE_TTL_MS = 60_000;
+
+/// @notice Cache size past which expired entries are swept.
+const MAX_CACHE_ENTRIES = 1_000;
+
+/// @notice One entry of a batched JSON-RPC response.
+interface RpcResponse<T> {
+  /// @notice Request id the entry answers.
+  id: number;
+  /// @notice Result of a successful call.
+  result?: T;
+  /// @notice Error of a failed call.
+  error?: { message?: string };
+}
+
+/// @notice An account as returned by `getMultipleAccounts` with `jsonParsed` encoding.
+type ParsedAccount = {
+  lamports: number;
+  data: { parsed?: { type?: string; info?: { decimals?: number } } } | unknown[];
+} | null;
+
+/// @notice A token account as returned by `getTokenAccountsByOwner` with `jsonParsed` encoding.
+type ParsedTokenAccount = {
+  pubkey: string;
+  account: { data: { parsed: { info: { mint: string; tokenAmount: { amount: string } } } } };
+};
+
+/// @notice Base-unit balances of one mint held by a wallet.
+interface MintHoldings {
+  /// @notice Sum over every token account of the mint.
+  total: bigint;
+  /// @notice Balance of the associated token account.
+  associated: bigint;
+}
+
+/// @notice A wallet's SOL balance and its token balances per mint.
+interface WalletSnapshot {
+  /// @notice SOL balance in lamports, as a decimal string.
+  lamports: string;
+  /// @notice Balances per mint, covering every mint the wallet holds.
+  tokens: Map<string, MintHoldings>;
+}
+
+/// @notice Caches wallet snapshots per address.
+const walletCache = new Map<string, { expiresAt: number; snapshot: WalletSnapshot }>();
+
+/// @notice Caches mint decimals per mint address.
+const mintCache = new Map<string, { expiresAt: number; decimals: number }>();
+
+/// @notice Drops expired entries once a cache grows past its bound.
+const sweep = (cache: Map<string, { expiresAt: number }>, now: number) => {
+  if (cache.size > MAX_CACHE_ENTRIES) {
+    for (const [key, entry] of cache) {
+      if (entry.expiresAt <= now) {
+        cache.delete(key);
+      }
+    }
+  }
+};
+
+/// @notice Whether a string is a base58 32-byte address.
+const isAddress = (value: string) => {
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/// @notice Builds one call of a JSON-RPC batch.
+const rpcCall = (id: number, method: string, params: unknown[]) => ({
+  jsonrpc: "2.0",
+  id,
+  method,
+  params,
+});
+
+/// @notice Reads SOL and token balances of many addresses plus the decimals of many mints in one batched JSON-RPC round trip, reusing recent reads; a failed lookup only affects its own address or mint.
+export async function fetchBalances(
+  addresses: string[],
+  mints: string[],
+  fresh = false
+): Promise<BalancesResult> {
+  const now = Date.now();
+  const wallets = new Map<string, WalletSnapshot | string>();
+  const decimals = new Map<string, number | string>();
+
+  for (const address of addresses) {
+    const cached = walletCache.get(address);
+    if (!isAddress(address)) {
+      wallets.set(address, "Invalid Solana address.");
+    } else if (!fresh && cached && cached.expiresAt > now) {
+      wallets.set(address, cached.snapshot);
+    }
+  }
+  for (const mint of mints) {
+    const cached = mintCache.get(mint);
+    if (!isAddress(mint)) {
+      decimals.set(mint, "Invalid mint address.");
+    } else if (cached && cached.expiresAt > now) {
+      decimals.set(mint, cached.decimals);
+    }
+  }
+
+  const pendingWallets = [...new Set(addresses)].filter((address) => !wallets.has(address));
+  const pendingMints = [...new Set(mints)].filter((mint) => !decimals.has(mint));
+  if (pendingWallets.length || pendingMints.length) {
+    await readPending(pendingWallets, pendingMints, wallets, decimals);
+  }
+
+  return {
+    balances: addresses.map((address): AddressBalances => {
+      const wallet = wallets.get(address);
+      if (typeof wallet !== "object") {
+        return { address, lamports: null, tokens: [], error: wallet ?? "Lookup failed." };
+      }
+      return {
+        address,
+        lamports: wallet.lamports,
+        tokens: mints.map((mint) => {
+          const mintDecimals = decimals.get(mint);
+          const holdings = wallet.tokens.get(mint);
+          return {
+            mint,
+            amount: (holdings?.total ?? BigInt(0)).toString(),
+            associatedAmount: (holdings?.associated ?? BigInt(0)).toString(),
+            decimals: typeof mintDecimals === "number" ? mintDecimals : null,
+          };
+        }),
+        error: null,
+      };
+    }),
+    mints: mints.map((mint): MintDecimals => {
+      const mintDecimals = decimals.get(mint);
+      return typeof mintDecimals === "number"
+        ? { mint, decimals: mintDecimals, error: null }
+        : { mint, decimals: null, error: mintDecimals ?? "Lookup failed." };
+    }),
+  };
+}
+
+/// @notice Sends one JSON-RPC batch: `getMultipleAccounts` for the wallets and mints, and `getTokenAccountsByOwner` under both token programs per wallet. Results and per-entry errors are written into the given maps, and successes are cached.
+async function readPending(
+  pendingWallets: string[],
+  pendingMints: string[],
+  wallets: Map<string, WalletSnapshot | string>,
+  decimals: Map<string, number | string>
+) {
+  const tokenPrograms = [TOKEN_PROGRAM_ID.toBase58(), TOKEN_2022_PROGRAM_ID.toBase58()];
+  const response = await getRpcPool().request([
+    rpcCall(0, "getMultipleAccounts", [
+      [...pendingWallets, ...pendingMints],
+      { encoding: "jsonParsed", commitment: "confirmed" },
+    ]),
+    ...pendingWallets.flatMap((address, index) =>
+      tokenPrograms.map((programId, programIndex) =>
+        rpcCall(1 + index * tokenPrograms.length + programIndex, "getTokenAccountsByOwner", [
+          address,
+          { programId },
+          { encoding: "jsonParsed", commitment: "confirmed" },
+        ])
+      )
+    ),
+  ]);
+  if (!response.ok) {
+    throw new Error(`RPC request failed with status ${response.status}.`);
+  }
+  const batch = (await response.json()) as RpcResponse<unknown>[];
+  const byId = new Map(batch.map((entry) => [entry.id, entry]));
+  const accounts = byId.get(0) as RpcResponse<{ value: ParsedAccount[] }> | undefined;
+  const accountsError = accounts?.result
+    ? null
+    : accounts?.error?.message || "Account lookup failed.";
+  const now = Date.now();
+
+  for (const [index, mint] of pendingMints.entries()) {
+    const account = accounts?.result?.value[pendingWallets.length + index];
+    const parsed = account && !Array.isArray(account.data) ? account.data.parsed : undefined;
+    const mintDecimals = parsed?.type === "mint" ? parsed.info?.decimals : undefined;
+    if (accountsError) {
+      decimals.set(mint, accountsError);
+    } else if (typeof mintDecimals !== "number") {
+      decimals.set(mint, "Not a token mint.");
+    } else {
+      decimals.set(mint, mintDecimals);
+      mintCache.set(mint, { expiresAt: now + MINT_CACHE_TTL_MS, decimals: mintDecimals });
+    }
+  }
+
+  for (const [index, address] of pendingWallets.entries()) {
+    if (accountsError) {
+      wallets.set(address, accountsError);
+      continue;
+    }
+    const tokenAccounts = tokenPrograms.map(
+      (_, programIndex) =>
+        byId.get(1 + index * tokenPrograms.length + programIndex) as
+          | RpcResponse<{ value: ParsedTokenAccount[] }>
+          | undefined
+    );
+    const failed = tokenAccounts.find((entry) => !entry?.result);
+    if (failed) {
+      wallets.set(address, failed?.error?.message || "Token account lookup failed.");
+      continue;
+    }
+    const owner = new PublicKey(address);
+    const tokens = new Map<string, MintHoldings>();
+    for (const [programIndex, entry] of tokenAccounts.entries()) {
+      for (const { pubkey, account } of entry?.result?.value ?? []) {
+        const { mint, tokenAmount } = account.data.parsed.info;
+        const amount = BigInt(tokenAmount.amount);
+        const isAssociated = getAssociatedTokenAddressSync(
+          new PublicKey(mint),
+          owner,
+          true,
+          new PublicKey(tokenPrograms[programIndex])
+        ).equals(new PublicKey(pubkey));
+        const holdings = tokens.get(mint) ?? { total: BigInt(0), associated: BigInt(0) };
+        tokens.set(mint, {
+          total: holdings.total + amount,
+          associated: holdings.associated + (isAssociated ? amount : BigInt(0)),
+        });
+      }
+    }
+    const snapshot = {
+      lamports: String(accounts?.result?.value[index]?.lamports ?? 0),
+      tokens,
+    };
+    wallets.set(address, snapshot);
+    walletCache.set(address, { expiresAt: now + BALANCE_CACHE_TTL_MS, snapshot });
+  }
+
+  sweep(walletCache, now);
+  sweep(mintCache, now);
+}
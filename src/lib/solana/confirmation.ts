@@ -0,0 +1,210 @@
+/// @notice Imports Solana primitives used to follow a signature through its commitment stages.
+import { Connection, PublicKey, TransactionConfirmationStatus } from "@solana/web3.js";
+/// @notice Imports the progress shapes rendered by the status section.
+import type { ConfirmationProgress, ConfirmationStage } from "@/types/confirmation";
+
+/// @notice How long a prepared transaction can land: until a block height, or while its durable nonce is unchanged.
+export interface ConfirmationLifetime {
+  /// @notice Last block height at which the blockhash is valid, or null for nonce transactions.
+  lastValidBlockHeight: number | null;
+  /// @notice Durable nonce the transaction advances, or null when it uses a recent blockhash.
+  nonce: { account: string; value: string } | null;
+}
+
+/// @notice Commitment stages subscribed to over websocket, in the order they are reached.
+const COMMITMENT_STAGES: TransactionConfirmationStatus[] = ["processed", "confirmed", "finalized"];
+
+/// @notice Orders stages so progress only ever moves forward.
+const STAGE_ORDER: Record<ConfirmationStage, number> = {
+  submitted: 0,
+  processed: 1,
+  confirmed: 2,
+  finalized: 3,
+  failed: 4,
+  expired: 4,
+  unconfirmed: 4,
+};
+
+/// @notice Stages that end tracking.
+const TERMINAL_STAGES = new Set<ConfirmationStage>([
+  "finalized",
+  "failed",
+  "expired",
+  "unconfirmed",
+]);
+
+/// @notice Polling cadence of the fallback, and how long to track before giving up (reporting the transaction as expired once its lifetime ended without it landing, or unconfirmed otherwise).
+const POLL_INTERVAL_MS = 2_000;
+const TRACKING_TIMEOUT_MS = 180_000;
+
+/// @notice Whether the transaction's blockhash or durable nonce can no longer be used.
+export async function hasLifetimeEnded(connection: Connection, lifetime: ConfirmationLifetime) {
+  if (lifetime.nonce) {
+    const nonce = await connection.getNonce(new PublicKey(lifetime.nonce.account), "confirmed");
+    return nonce?.nonce !== lifetime.nonce.value;
+  }
+  if (lifetime.lastValidBlockHeight === null) {
+    return false;
+  }
+  return (await connection.getBlockHeight("confirmed")) > lifetime.lastValidBlockHeight;
+}
+
+/// @notice Follows a signature through processed, confirmed, and finalized using `signatureSubscribe`, with polling as a fallback, and resolves once it finalizes, fails, or expires, or when tracking times out (settling on `unconfirmed` unless it was already confirmed).
+export function trackSignatureConfirmation(
+  connection: Connection,
+  signature: string,
+  lifetime: ConfirmationLifetime,
+  onProgress: (progress: ConfirmationProgress) => void
+): Promise<ConfirmationProgress> {
+  const startedAt = Date.now();
+  const activeSubscriptions = new Set<number>();
+  let pollTimer: ReturnType<typeof setTimeout> | undefined;
+  let settled = false;
+  let current: ConfirmationProgress = {
+    signature,
+    stage: "submitted",
+    slot: null,
+    elapsedMs: 0,
+    milestones: {},
+    error: null,
+  };
+
+  return new Promise((resolve) => {
+    /// @notice Releases websocket subscriptions and the poll timer.
+    const cleanup = () => {
+      clearTimeout(pollTimer);
+      for (const id of activeSubscriptions) {
+        connection.removeSignatureListener(id).catch(() => undefined);
+      }
+      activeSubscriptions.clear();
+    };
+
+    /// @notice Stops tracking and resolves with the latest progress.
+    const settle = () => {
+      settled = true;
+      cleanup();
+      resolve(current);
+    };
+
+    /// @notice Publishes a stage (or refreshes the current one) and settles on terminal stages.
+    const report = (stage: ConfirmationStage, slot: number | null, error: string | null = null) => {
+      if (settled || STAGE_ORDER[stage] < STAGE_ORDER[current.stage]) {
+        return;
+      }
+      const elapsedMs = Date.now() - startedAt;
+      const milestones = { ...current.milestones };
+      if (stage !== "failed" && stage !== "expired" && stage !== "unconfirmed") {
+        for (const commitment of COMMITMENT_STAGES) {
+          if (STAGE_ORDER[commitment] <= STAGE_ORDER[stage] && !milestones[commitment]) {
+            milestones[commitment] = { slot, elapsedMs };
+          }
+        }
+      }
+      current = { signature, stage, slot: slot ?? current.slot, elapsedMs, milestones, error };
+      onProgress(current);
+      if (TERMINAL_STAGES.has(stage)) {
+        settle();
+      }
+    };
+
+    for (const commitment of COMMITMENT_STAGES) {
+      try {
+        const id = connection.onSignature(
+          signature,
+          (result, context) => {
+            activeSubscriptions.delete(id);
+            if (result.err) {
+              report("failed", context.slot, `Transaction failed: ${JSON.stringify(result.err)}`);
+            } else {
+              report(commitment, context.slot);
+            }
+          },
+          commitment
+        );
+        activeSubscriptions.add(id);
+      } catch (error) {
+        console.error(`signatureSubscribe (${commitment}) failed; relying on polling`, error);
+      }
+    }
+
+    /// @notice Once the lifetime has ended, reports the transaction as landed (from history) or expired; returns whether it reported either.
+    const reportIfLifetimeEnded = async () => {
+      if (!(await hasLifetimeEnded(connection, lifetime))) {
+        return false;
+      }
+      const {
+        value: [landed],
+      } = await connection.getSignatureStatuses([signature], {
+        searchTransactionHistory: true,
+      });
+      if (landed?.err) {
+        report("failed", landed.slot, `Transaction failed: ${JSON.stringify(landed.err)}`);
+      } else if (landed) {
+        report(landed.confirmationStatus ?? "processed", landed.slot);
+      } else {
+        report(
+          "expired",
+          null,
+          lifetime.nonce
+            ? "Dropped: the durable nonce was used before this transaction landed."
+            : "Dropped: the blockhash expired before this transaction landed."
+        );
+      }
+      return true;
+    };
+
+    /// @notice Polls the signature status, detecting expiry once the lifetime has ended without the transaction landing.
+    const poll = async () => {
+      try {
+        const {
+          value: [status],
+        } = await connection.getSignatureStatuses([signature]);
+        if (status?.err) {
+          report("failed", status.slot, `Transaction failed: ${JSON.stringify(status.err)}`);
+        } else if (status?.confirmationStatus) {
+          report(status.confirmationStatus, status.slot);
+        } else if (current.stage !== "submitted" || !(await reportIfLifetimeEnded())) {
+          report(current.stage, current.slot, current.error);
+        }
+      } catch (error) {
+        console.error("Signature status poll failed", error);
+      }
+      if (settled) {
+        return;
+      }
+      if (Date.now() - startedAt > TRACKING_TIMEOUT_MS) {
+        await timeOut();
+        return;
+      }
+      pollTimer = setTimeout(() => void poll(), POLL_INTERVAL_MS);
+    };
+
+    /// @notice Gives up tracking: a confirmed transaction keeps its stage, one whose lifetime ended is reported landed or expired, and anything else is `unconfirmed`, since it may still land (a durable nonce never expires on its own) or be dropped on a fork.
+    const timeOut = async () => {
+      if (STAGE_ORDER[current.stage] < STAGE_ORDER.confirmed) {
+        try {
+          await reportIfLifetimeEnded();
+        } catch (error) {
+          console.error("Lifetime check after the tracking timeout failed", error);
+        }
+      }
+      if (settled) {
+        return;
+      }
+      if (STAGE_ORDER[current.stage] >= STAGE_ORDER.confirmed) {
+        settle();
+        return;
+      }
+      report(
+        "unconfirmed",
+        current.slot,
+        current.stage === "processed"
+          ? "Not confirmed in time: the transaction was processed but may still be dropped."
+          : "Not confirmed in time: the transaction was not seen by the cluster but may still land."
+      );
+    };
+
+    onProgress(current);
+    pollTimer = setTimeout(() => void poll(), POLL_INTERVAL_MS);
+  });
+}
@@ -0,0 +1,23 @@
+/// @notice Imports the Solana RPC client used by server-side routes.
+import { Connection, type FetchFn } from "@solana/web3.js";
+/// @notice Reads the configured cluster's websocket endpoint.
+import { loadClusterConfig } from "@/lib/cluster";
+/// @notice Routes every HTTP request of the connection through the RPC pool.
+import { getRpcPool } from "@/lib/solana/rpcPool";
+
+/// @notice Caches one connection per server process so routes reuse the same HTTP agent.
+let serverConnection: Connection | null = null;
+
+/// @notice Returns the server-side Solana connection, creating it on first use; its requests fail over across the RPC pool, which also handles rate limits.
+export function getServerConnection(): Connection {
+  if (!serverConnection) {
+    const pool = getRpcPool();
+    serverConnection = new Connection(pool.primaryUrl, {
+      commitment: "confirmed",
+      wsEndpoint: loadClusterConfig().wsUrl,
+      fetch: pool.fetch as FetchFn,
+      disableRetryOnRateLimit: true,
+    });
+  }
+  return serverConnection;
+}
@@ -0,0 +1,217 @@
+/// @notice Imports Solana primitives used to read signatures and parsed transactions.
+import {
+  Connection,
+  PublicKey,
+  type ConfirmedSignatureInfo,
+  type ParsedTransactionWithMeta,
+} from "@solana/web3.js";
+/// @notice Imports the two token program ids whose accounts are followed.
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+/// @notice Imports the history shapes shared with the browser.
+import type { WalletHistoryPage, WalletTransaction } from "@/types/history";
+
+/// @notice Largest page of transactions one lookup returns.
+export const MAX_HISTORY_PAGE_SIZE = 25;
+
+/// @notice Token accounts followed besides the wallet, since incoming token transfers only reference the recipient's token account.
+const MAX_TRACKED_TOKEN_ACCOUNTS = 10;
+
+/// @notice Matches a base58 transaction signature.
+const SIGNATURE_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{64,88}$/;
+
+/// @notice Decimals of SOL amounts, which are reported in lamports.
+const SOL_DECIMALS = 9;
+
+/// @notice Position in each followed address's signature list: the last signature already shown, or null when nothing was shown yet.
+type HistoryCursor = Record<string, string | null>;
+
+/// @notice Encodes per-address positions as an opaque cursor.
+const encodeCursor = (cursor: HistoryCursor) =>
+  Buffer.from(JSON.stringify(cursor)).toString("base64url");
+
+/// @notice Decodes a cursor, returning null when it is malformed or any position is neither null nor a signature.
+export function decodeHistoryCursor(value: string): HistoryCursor | null {
+  try {
+    const cursor: unknown = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (!cursor || typeof cursor !== "object" || Array.isArray(cursor)) {
+      return null;
+    }
+    const positions = Object.values(cursor);
+    return positions.every(
+      (position) =>
+        position === null || (typeof position === "string" && SIGNATURE_PATTERN.test(position))
+    )
+      ? (cursor as HistoryCursor)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/// @notice Picks the entry with the largest absolute change.
+const largestChange = <T extends { delta: bigint }>(entries: T[]) =>
+  entries.reduce<T | null>((largest, entry) => {
+    const size = entry.delta < BigInt(0) ? -entry.delta : entry.delta;
+    const largestSize = largest && (largest.delta < BigInt(0) ? -largest.delta : largest.delta);
+    return largestSize === null || size > largestSize ? entry : largest;
+  }, null);
+
+/// @notice Derives direction, counterparty, amount, and fee payer of a transaction from the wallet's point of view: its largest token balance change, or its SOL change (net of any fee it paid) when no token moved.
+export function describeWalletTransaction(
+  transaction: ParsedTransactionWithMeta,
+  signature: string,
+  wallet: string,
+  developerWallet: string
+): WalletTransaction {
+  const { meta, slot, blockTime } = transaction;
+  const accountKeys = transaction.transaction.message.accountKeys.map((key) =>
+    key.pubkey.toBase58()
+  );
+  const feePayer = accountKeys[0];
+  const feeLamports = meta?.fee ?? 0;
+
+  const tokenChanges = new Map<
+    string,
+    { owner: string; mint: string; decimals: number; delta: bigint }
+  >();
+  for (const [sign, balances] of [
+    [-1, meta?.preTokenBalances ?? []],
+    [1, meta?.postTokenBalances ?? []],
+  ] as const) {
+    for (const balance of balances) {
+      if (!balance.owner) {
+        continue;
+      }
+      const key = `${balance.owner}:${balance.mint}`;
+      const change = tokenChanges.get(key) ?? {
+        owner: balance.owner,
+        mint: balance.mint,
+        decimals: balance.uiTokenAmount.decimals,
+        delta: BigInt(0),
+      };
+      change.delta += BigInt(sign) * BigInt(balance.uiTokenAmount.amount);
+      tokenChanges.set(key, change);
+    }
+  }
+  const changedTokens = [...tokenChanges.values()].filter((change) => change.delta !== BigInt(0));
+  const walletToken = largestChange(changedTokens.filter((change) => change.owner === wallet));
+
+  const solChanges = accountKeys.map((account, index) => ({
+    account,
+    delta:
+      BigInt((meta?.postBalances[index] ?? 0) - (meta?.preBalances[index] ?? 0)) +
+      BigInt(index === 0 ? feeLamports : 0),
+  }));
+  const walletSol = walletToken
+    ? null
+    : solChanges.find((change) => change.account === wallet && change.delta !== BigInt(0));
+
+  const delta = walletToken?.delta ?? walletSol?.delta ?? BigInt(0);
+  const counterparty = walletToken
+    ? largestChange(
+        changedTokens.filter(
+          (change) =>
+            change.mint === walletToken.mint &&
+            change.owner !== wallet &&
+            change.delta < BigInt(0) !== walletToken.delta < BigInt(0)
+        )
+      )?.owner
+    : walletSol &&
+      largestChange(
+        solChanges.filter(
+          (change) =>
+            change.account !== wallet &&
+            change.delta !== BigInt(0) &&
+            change.delta < BigInt(0) !== walletSol.delta < BigInt(0)
+        )
+      )?.account;
+
+  return {
+    signature,
+    slot,
+    blockTime: blockTime ?? null,
+    direction: delta < BigInt(0) ? "sent" : delta > BigInt(0) ? "received" : "other",
+    counterparty: counterparty ?? null,
+    mint: walletToken?.mint ?? null,
+    amount: (delta < BigInt(0) ? -delta : delta).toString(),
+    decimals: walletToken?.decimals ?? SOL_DECIMALS,
+    feePayer,
+    feeLamports,
+    sponsored: feePayer === developerWallet,
+    error: meta?.err ? JSON.stringify(meta.err) : null,
+  };
+}
+
+/// @notice Reads a page of a wallet's history, newest first. Signatures are read for the wallet and up to `MAX_TRACKED_TOKEN_ACCOUNTS` token accounts and merged by slot, and the cursor keeps each address's position so pages neither skip nor repeat transactions; the page reports how many token accounts were left out.
+export async function fetchWalletHistory(
+  connection: Connection,
+  wallet: PublicKey,
+  developerWallet: string,
+  limit: number,
+  cursor: HistoryCursor | null = null
+): Promise<WalletHistoryPage> {
+  const allTokenAccounts = (
+    await Promise.all(
+      [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].map((programId) =>
+        connection.getTokenAccountsByOwner(wallet, { programId })
+      )
+    )
+  ).flatMap(({ value }) => value.map(({ pubkey }) => pubkey.toBase58()));
+  const tokenAccounts = allTokenAccounts.slice(0, MAX_TRACKED_TOKEN_ACCOUNTS);
+  const addresses = [wallet.toBase58(), ...tokenAccounts].filter(
+    (address) => !cursor || address in cursor
+  );
+
+  const lists = await Promise.all(
+    addresses.map(async (address) => ({
+      address,
+      signatures: await connection.getSignaturesForAddress(new PublicKey(address), {
+        before: cursor?.[address] ?? undefined,
+        limit,
+      }),
+    }))
+  );
+
+  const merged = new Map<string, ConfirmedSignatureInfo>();
+  for (const { signatures } of lists) {
+    for (const info of signatures) {
+      merged.set(info.signature, info);
+    }
+  }
+  const page = [...merged.values()].sort((a, b) => b.slot - a.slot).slice(0, limit);
+  const shown = new Set(page.map((info) => info.signature));
+
+  const nextCursor: HistoryCursor = {};
+  for (const { address, signatures } of lists) {
+    const prefix = signatures.findIndex((info) => !shown.has(info.signature));
+    const shownCount = prefix === -1 ? signatures.length : prefix;
+    if (prefix !== -1 || signatures.length === limit) {
+      nextCursor[address] = shownCount
+        ? signatures[shownCount - 1].signature
+        : (cursor?.[address] ?? null);
+    }
+  }
+
+  const transactions = page.length
+    ? await connection.getParsedTransactions(
+        page.map((info) => info.signature),
+        { maxSupportedTransactionVersion: 0, commitment: "confirmed" }
+      )
+    : [];
+  return {
+    transactions: transactions.flatMap((transaction, index) =>
+      transaction
+        ? [
+            describeWalletTransaction(
+              transaction,
+              page[index].signature,
+              wallet.toBase58(),
+              developerWallet
+            ),
+          ]
+        : []
+    ),
+    nextCursor: Object.keys(nextCursor).length ? encodeCursor(nextCursor) : null,
+    untrackedTokenAccounts: allTokenAccounts.length - tokenAccounts.length,
+  };
+}
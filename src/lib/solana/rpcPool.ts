@@ -0,0 +1,302 @@
+/// @notice Reads the pool configuration from the server environment.
+import { readServerEnv, requireNumericServerEnv } from "@/lib/env";
+/// @notice Supplies the cluster's RPC endpoint when no pool is configured.
+import { loadClusterConfig } from "@/lib/cluster";
+
+/// @notice Health of one pooled endpoint, as reported to operators.
+export interface RpcEndpointHealth {
+  /// @notice JSON-RPC HTTP endpoint.
+  url: string;
+  /// @notice Whether requests are currently routed to the endpoint.
+  healthy: boolean;
+  /// @notice Moving average of response times in milliseconds, or null before the first response.
+  latencyMs: number | null;
+  /// @notice Slot the endpoint reported at its last health check, or null before one succeeded.
+  slot: number | null;
+  /// @notice Slots the endpoint trails the most advanced endpoint by, or null before a health check.
+  slotLag: number | null;
+  /// @notice Failures (network errors, 5xx, 429) since the last success.
+  consecutiveErrors: number;
+  /// @notice Requests sent to the endpoint since the process started.
+  totalRequests: number;
+  /// @notice Failures since the process started.
+  totalErrors: number;
+  /// @notice Unix time in milliseconds until which the endpoint is skipped, or null.
+  backoffUntil: number | null;
+  /// @notice Last failure, or null.
+  lastError: string | null;
+}
+
+/// @notice Settings of the RPC pool.
+export interface RpcPoolConfig {
+  /// @notice Endpoints in order of preference.
+  urls: string[];
+  /// @notice Time allowed for each attempt, in milliseconds.
+  timeoutMs: number;
+  /// @notice Slots an endpoint may trail the most advanced one before it is skipped.
+  maxSlotLag: number;
+  /// @notice How often every endpoint is asked for its slot, in milliseconds.
+  healthCheckIntervalMs: number;
+}
+
+/// @notice Mutable state kept per endpoint.
+type EndpointState = Omit<RpcEndpointHealth, "healthy" | "slotLag" | "backoffUntil"> & {
+  /// @notice Unix time in milliseconds until which the endpoint is skipped (0 when it is not).
+  backoffUntil: number;
+  /// @notice Rate limits in a row, which lengthen the next backoff.
+  rateLimitStreak: number;
+};
+
+/// @notice Consecutive failures after which an endpoint is benched.
+const ERROR_THRESHOLD = 3;
+
+/// @notice How long a failing endpoint is benched.
+const ERROR_COOLDOWN_MS = 30_000;
+
+/// @notice First backoff after a 429 without `Retry-After`; each further 429 doubles it.
+const RATE_LIMIT_BACKOFF_MS = 1_000;
+
+/// @notice Longest backoff applied to an endpoint.
+const MAX_BACKOFF_MS = 60_000;
+
+/// @notice Weight of the newest sample in the latency moving average.
+const LATENCY_SMOOTHING = 0.3;
+
+/// @notice Reads `SOLANA_RPC_URLS` (comma separated), falling back to the cluster's single RPC endpoint.
+export function loadRpcPoolConfig(): RpcPoolConfig {
+  const urls = (readServerEnv("SOLANA_RPC_URLS") ?? "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+  return {
+    urls: urls.length ? [...new Set(urls)] : [loadClusterConfig().rpcUrl],
+    timeoutMs: requireNumericServerEnv("SOLANA_RPC_TIMEOUT_MS", "15000"),
+    maxSlotLag: requireNumericServerEnv("SOLANA_RPC_MAX_SLOT_LAG", "50"),
+    healthCheckIntervalMs:
+      requireNumericServerEnv("SOLANA_RPC_HEALTH_CHECK_SECONDS", "15") * 1000,
+  };
+}
+
+/// @notice Routes JSON-RPC requests across several endpoints: the fastest healthy one is tried first, 429s back an endpoint off, and errors fail over to the next.
+export class RpcPool {
+  /// @notice Pool settings.
+  private readonly config: RpcPoolConfig;
+  /// @notice State per endpoint, in configured order.
+  private readonly endpoints: EndpointState[];
+  /// @notice Background health check timer, started on first use.
+  private healthTimer: ReturnType<typeof setInterval> | null = null;
+
+  /// @notice Creates a pool over the configured endpoints.
+  constructor(config: RpcPoolConfig) {
+    if (!config.urls.length) {
+      throw new Error("The RPC pool needs at least one endpoint.");
+    }
+    this.config = config;
+    this.endpoints = config.urls.map((url) => ({
+      url,
+      latencyMs: null,
+      slot: null,
+      consecutiveErrors: 0,
+      totalRequests: 0,
+      totalErrors: 0,
+      backoffUntil: 0,
+      rateLimitStreak: 0,
+      lastError: null,
+    }));
+  }
+
+  /// @notice Preferred endpoint, used wherever a single URL is needed (for example as the `Connection` endpoint).
+  get primaryUrl() {
+    return this.endpoints[0].url;
+  }
+
+  /// @notice A `fetch` replacement for `Connection` and raw JSON-RPC calls: the URL is ignored and the request is sent to the pool's endpoints in turn until one answers without a 429, a 5xx, or a network error.
+  fetch = async (_input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    this.startHealthChecks();
+    const candidates = this.rankEndpoints();
+    for (const [attempt, endpoint] of candidates.entries()) {
+      const isLast = attempt === candidates.length - 1;
+      const startedAt = Date.now();
+      endpoint.totalRequests += 1;
+      let response: Response;
+      try {
+        response = await fetch(endpoint.url, {
+          ...init,
+          signal: init?.signal ?? AbortSignal.timeout(this.config.timeoutMs),
+        });
+      } catch (error) {
+        this.recordFailure(endpoint, error instanceof Error ? error.message : "Network error");
+        if (isLast) {
+          throw error;
+        }
+        continue;
+      }
+      if (response.status === 429) {
+        this.recordRateLimit(endpoint, Number(response.headers.get("retry-after")));
+      } else if (response.status >= 500) {
+        this.recordFailure(endpoint, `HTTP ${response.status}`);
+      } else {
+        this.recordSuccess(endpoint, Date.now() - startedAt);
+        return response;
+      }
+      if (isLast) {
+        return response;
+      }
+    }
+    throw new Error("No RPC endpoint is configured.");
+  };
+
+  /// @notice Posts a JSON-RPC request (or batch) through the pool.
+  request(body: unknown): Promise<Response> {
+    return this.fetch(this.primaryUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      cache: "no-store",
+    });
+  }
+
+  /// @notice Reports every endpoint's latency, errors, slot lag, and whether it is in use.
+  health(now = Date.now()): RpcEndpointHealth[] {
+    const highestSlot = this.highestSlot();
+    return this.endpoints.map((endpoint) => ({
+      url: endpoint.url,
+      healthy: this.isHealthy(endpoint, now, highestSlot),
+      latencyMs: endpoint.latencyMs === null ? null : Math.round(endpoint.latencyMs),
+      slot: endpoint.slot,
+      slotLag:
+        endpoint.slot === null || highestSlot === null ? null : highestSlot - endpoint.slot,
+      consecutiveErrors: endpoint.consecutiveErrors,
+      totalRequests: endpoint.totalRequests,
+      totalErrors: endpoint.totalErrors,
+      backoffUntil: endpoint.backoffUntil > now ? endpoint.backoffUntil : null,
+      lastError: endpoint.lastError,
+    }));
+  }
+
+  /// @notice Asks every endpoint for its slot, updating slot lag, latency, and failures.
+  async checkHealth() {
+    await Promise.all(
+      this.endpoints.map(async (endpoint) => {
+        const startedAt = Date.now();
+        try {
+          const response = await fetch(endpoint.url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              jsonrpc: "2.0",
+              id: 1,
+              method: "getSlot",
+              params: [{ commitment: "processed" }],
+            }),
+            cache: "no-store",
+            signal: AbortSignal.timeout(this.config.timeoutMs),
+          });
+          if (response.status === 429) {
+            this.recordRateLimit(endpoint, Number(response.headers.get("retry-after")));
+            return;
+          }
+          const data = await response.json();
+          if (!response.ok || typeof data?.result !== "number") {
+            throw new Error(data?.error?.message || `HTTP ${response.status}`);
+          }
+          endpoint.slot = data.result;
+          this.recordSuccess(endpoint, Date.now() - startedAt);
+        } catch (error) {
+          this.recordFailure(endpoint, error instanceof Error ? error.message : "Network error");
+        }
+      })
+    );
+  }
+
+  /// @notice Orders endpoints for a request: healthy ones by latency (untested ones in configured order first), then benched ones by how soon they return.
+  private rankEndpoints() {
+    const now = Date.now();
+    const highestSlot = this.highestSlot();
+    const healthy = this.endpoints
+      .filter((endpoint) => this.isHealthy(endpoint, now, highestSlot))
+      .sort((a, b) => (a.latencyMs ?? 0) - (b.latencyMs ?? 0));
+    const benched = this.endpoints
+      .filter((endpoint) => !healthy.includes(endpoint))
+      .sort((a, b) => a.backoffUntil - b.backoffUntil);
+    return [...healthy, ...benched];
+  }
+
+  /// @notice Whether an endpoint is out of backoff and within the allowed slot lag.
+  private isHealthy(
+    endpoint: Pick<EndpointState, "backoffUntil" | "slot">,
+    now: number,
+    highestSlot: number | null
+  ) {
+    return (
+      endpoint.backoffUntil <= now &&
+      (endpoint.slot === null ||
+        highestSlot === null ||
+        highestSlot - endpoint.slot <= this.config.maxSlotLag)
+    );
+  }
+
+  /// @notice Most advanced slot reported by any endpoint.
+  private highestSlot() {
+    const slots = this.endpoints
+      .map((endpoint) => endpoint.slot)
+      .filter((slot): slot is number => slot !== null);
+    return slots.length ? Math.max(...slots) : null;
+  }
+
+  /// @notice Records a response and folds its time into the latency average.
+  private recordSuccess(endpoint: EndpointState, latencyMs: number) {
+    endpoint.latencyMs =
+      endpoint.latencyMs === null
+        ? latencyMs
+        : endpoint.latencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING;
+    endpoint.consecutiveErrors = 0;
+    endpoint.rateLimitStreak = 0;
+  }
+
+  /// @notice Records a failure and benches the endpoint once failures pile up.
+  private recordFailure(endpoint: EndpointState, reason: string) {
+    endpoint.consecutiveErrors += 1;
+    endpoint.totalErrors += 1;
+    endpoint.lastError = reason;
+    if (endpoint.consecutiveErrors >= ERROR_THRESHOLD) {
+      endpoint.backoffUntil = Date.now() + ERROR_COOLDOWN_MS;
+    }
+  }
+
+  /// @notice Records a 429 and backs the endpoint off for `Retry-After`, or exponentially without one.
+  private recordRateLimit(endpoint: EndpointState, retryAfterSeconds: number) {
+    endpoint.rateLimitStreak += 1;
+    endpoint.totalErrors += 1;
+    endpoint.lastError = "Rate limited (HTTP 429)";
+    const delay =
+      Number.isFinite(retryAfterSeconds) && retryAfterSeconds > 0
+        ? retryAfterSeconds * 1000
+        : RATE_LIMIT_BACKOFF_MS * 2 ** (endpoint.rateLimitStreak - 1);
+    endpoint.backoffUntil = Date.now() + Math.min(delay, MAX_BACKOFF_MS);
+  }
+
+  /// @notice Starts the periodic slot checks once, when there is more than one endpoint to compare.
+  private startHealthChecks() {
+    if (this.healthTimer || this.endpoints.length < 2) {
+      return;
+    }
+    void this.checkHealth();
+    this.healthTimer = setInterval(
+      () => void this.checkHealth(),
+      this.config.healthCheckIntervalMs
+    );
+    this.healthTimer.unref?.();
+  }
+}
+
+/// @notice Caches the configured pool for the process lifetime.
+let rpcPool: RpcPool | null = null;
+
+/// @notice Returns the RPC pool configured from the environment, creating it on first use.
+export function getRpcPool(): RpcPool {
+  if (!rpcPool) {
+    rpcPool = new RpcPool(loadRpcPoolConfig());
+  }
+  return rpcPool;
+}
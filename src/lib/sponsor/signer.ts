@@ -0,0 +1,129 @@
+/// @notice Imports filesystem helpers to read the local keypair file.
+import { readFile } from "fs/promises";
+/// @notice Imports the keypair type that holds the local developer key.
+import { Keypair } from "@solana/web3.js";
+/// @notice Signs messages with the local developer key.
+import nacl from "tweetnacl";
+/// @notice Reads signer selection from the server environment.
+import { requireServerEnv } from "@/lib/env";
+/// @notice Refuses the local signer on mainnet.
+import { loadClusterConfig } from "@/lib/cluster";
+/// @notice Converts between hex messages and signature bytes, matching MetaKeep's encoding.
+import { hexToUint8Array, uint8ArrayToHex } from "@/lib/hex";
+/// @notice Calls MetaKeep through the shared server client.
+import { MetaKeepClient, getMetaKeepClient } from "@/lib/metakeep/client";
+/// @notice Imports the MetaKeep signing response model every signer answers with.
+import type { SignTransactionResponse } from "@/lib/metakeep/types";
+
+/// @notice Backends that can hold the developer (sponsor) key.
+export type SponsorSignerKind = "metakeep" | "local";
+
+/// @notice Holds the developer wallet's key: answers its address and signs sponsored transaction messages.
+export interface SponsorSigner {
+  /// @notice Which backend holds the key.
+  readonly kind: SponsorSignerKind;
+  /// @notice Resolves the developer wallet's Solana address.
+  getAddress(): Promise<string>;
+  /// @notice Signs a hex-encoded serialized transaction message, returning a hex signature.
+  signMessage(serializedMessageHex: string, reason: string): Promise<SignTransactionResponse>;
+}
+
+/// @notice Keeps the developer key in MetaKeep; every signature is a MetaKeep API call.
+export class MetaKeepSponsorSigner implements SponsorSigner {
+  /// @notice Always `metakeep`.
+  readonly kind = "metakeep";
+  /// @notice Client the calls go through.
+  private readonly client: MetaKeepClient;
+
+  /// @notice Creates a signer over the given MetaKeep client.
+  constructor(client: MetaKeepClient) {
+    this.client = client;
+  }
+
+  /// @notice Fetches the developer wallet (`POST /v3/getDeveloperWallet`).
+  async getAddress(): Promise<string> {
+    const { wallet } = await this.client.getDeveloperWallet();
+    return wallet.solAddress;
+  }
+
+  /// @notice Has MetaKeep sign the message (`POST /v2/app/sign/transaction`).
+  signMessage(serializedMessageHex: string, reason: string): Promise<SignTransactionResponse> {
+    return this.client.signTransaction({
+      transactionObject: { serializedTransactionMessage: serializedMessageHex },
+      reason,
+    });
+  }
+}
+
+/// @notice Signs with a keypair read from a `solana-keygen` JSON file, so the sponsorship flow runs without MetaKeep (for example against `solana-test-validator`). For development only.
+export class LocalKeypairSponsorSigner implements SponsorSigner {
+  /// @notice Always `local`.
+  readonly kind = "local";
+  /// @notice Path of the keypair file.
+  private readonly keypairPath: string;
+  /// @notice Keypair read on first use.
+  private keypair: Promise<Keypair> | null = null;
+
+  /// @notice Creates a signer over the keypair file at the given path.
+  constructor(keypairPath: string) {
+    this.keypairPath = keypairPath;
+  }
+
+  /// @notice Returns the keypair's public key.
+  async getAddress(): Promise<string> {
+    return (await this.load()).publicKey.toBase58();
+  }
+
+  /// @notice Signs the message bytes with the keypair; the reason is ignored.
+  async signMessage(serializedMessageHex: string): Promise<SignTransactionResponse> {
+    const { secretKey } = await this.load();
+    const signature = nacl.sign.detached(hexToUint8Array(serializedMessageHex), secretKey);
+    return { status: "SUCCESS", signature: uint8ArrayToHex(signature) };
+  }
+
+  /// @notice Reads the keypair file once: a JSON array of the 64 secret key bytes. A failed read is retried on the next call.
+  private load(): Promise<Keypair> {
+    if (!this.keypair) {
+      this.keypair = readFile(this.keypairPath, "utf8")
+        .then((contents) => {
+          const bytes = JSON.parse(contents);
+          if (!Array.isArray(bytes) || bytes.length !== 64) {
+            throw new Error("expected a JSON array of 64 secret key bytes");
+          }
+          return Keypair.fromSecretKey(Uint8Array.from(bytes));
+        })
+        .catch((error) => {
+          this.keypair = null;
+          throw new Error(
+            `Could not read the sponsor keypair at ${this.keypairPath}: ${
+              error instanceof Error ? error.message : "unknown error"
+            }`
+          );
+        });
+    }
+    return this.keypair;
+  }
+}
+
+/// @notice Caches the configured signer for the process lifetime.
+let sponsorSigner: SponsorSigner | null = null;
+
+/// @notice Returns the signer selected by `SPONSOR_SIGNER` (`metakeep` or `local`); the local signer reads `SPONSOR_KEYPAIR_PATH` and is refused on mainnet-beta.
+export function getSponsorSigner(): SponsorSigner {
+  if (!sponsorSigner) {
+    const kind = requireServerEnv("SPONSOR_SIGNER", "metakeep");
+    if (kind === "local") {
+      if (loadClusterConfig().name === "mainnet-beta") {
+        throw new Error(
+          'SPONSOR_SIGNER "local" is for development; use "metakeep" on mainnet-beta.'
+        );
+      }
+      sponsorSigner = new LocalKeypairSponsorSigner(requireServerEnv("SPONSOR_KEYPAIR_PATH"));
+    } else if (kind === "metakeep") {
+      sponsorSigner = new MetaKeepSponsorSigner(getMetaKeepClient());
+    } else {
+      throw new Error(`Unsupported SPONSOR_SIGNER "${kind}". Use "metakeep" or "local".`);
+    }
+  }
+  return sponsorSigner;
+}
@@ -0,0 +1,16 @@
+/// @notice Imports the public key type used to validate addresses.
+import { PublicKey } from "@solana/web3.js";
+/// @notice Reports malformed addresses with the shared refusal format.
+import { SponsorshipError } from "@/lib/sponsorship/errors";
+
+/// @notice Parses a base58 wallet or mint address from a request field, refusing with a 400 `INVALID_ADDRESS` naming the field when it is missing, not a string, or malformed.
+export function parseAddress(value: unknown, field: string): PublicKey {
+  try {
+    if (typeof value !== "string") {
+      throw new Error();
+    }
+    return new PublicKey(value.trim());
+  } catch {
+    throw new SponsorshipError("INVALID_ADDRESS", `${field} must be a valid Solana address.`);
+  }
+}
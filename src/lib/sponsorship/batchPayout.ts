@@ -0,0 +1,249 @@
+/// @notice Hashes the owner, mint, and rows into the batch id.
+import { createHash } from "crypto";
+/// @notice Imports Solana primitives used to size packed payout transactions.
+import {
+  PACKET_DATA_SIZE,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+} from "@solana/web3.js";
+/// @notice Imports SPL helpers for token account discovery.
+import { TOKEN_2022_PROGRAM_ID, getAssociatedTokenAddressSync } from "@solana/spl-token";
+/// @notice Provides the server-side RPC connection.
+import { getServerConnection } from "@/lib/solana/connection";
+/// @notice Resolves the developer wallet that pays for the batch.
+import { getDeveloperWalletAddress } from "@/lib/developerWallet";
+/// @notice Reads the compute caps and nonce account the batch must respect.
+import { loadSponsorPolicy } from "@/lib/sponsorship/policy";
+/// @notice Builds the compute budget instructions every sponsored transaction carries.
+import { computeBudgetInstructions } from "@/lib/sponsorship/computeBudget";
+/// @notice Builds the nonce advance that leads transactions in durable nonce mode.
+import { nonceAdvanceInstruction } from "@/lib/sponsorship/lifetime";
+/// @notice Compiles messages in the configured format with the configured lookup tables.
+import { fetchLookupTables, loadTransactionFormat } from "@/lib/sponsorship/transactionFormat";
+/// @notice Builds the transfer instructions and measures signed transaction size.
+import { signedTransactionSize, transferInstructions } from "@/lib/sponsorship/sponsoredTransfer";
+/// @notice Validates recipients and amounts with the same rules as the transfer form.
+import { checkRecipient, checkTransferAmount } from "@/lib/transferForm";
+/// @notice Formats totals in refusals.
+import { formatTokenAmount } from "@/lib/tokenAmount";
+/// @notice Surfaces malformed batches with structured codes.
+import { SponsorshipError } from "@/lib/sponsorship/errors";
+/// @notice Imports the token and batch shapes shared with the browser.
+import type { TokenInfo } from "@/types/token";
+import type { PayoutPlan, PlannedPayoutRow } from "@/types/batch";
+
+/// @notice Largest number of rows accepted in one batch.
+export const MAX_PAYOUT_ROWS = 500;
+
+/// @notice Conservative compute units per instruction, used to pack transactions before each one is sized by simulation.
+const ESTIMATED_UNITS = {
+  transfer: { token: 8_000, token2022: 16_000 },
+  createAccount: { token: 32_000, token2022: 48_000 },
+};
+
+/// @notice Share of the compute cap packing may fill, leaving room for the margin added on top of the simulated units.
+const COMPUTE_PACKING_HEADROOM = 0.85;
+
+/// @notice Placeholder blockhash for size estimates; every blockhash serializes to 32 bytes.
+const PLACEHOLDER_BLOCKHASH = PublicKey.default.toBase58();
+
+/// @notice Validates uploaded rows with the transfer form's rules, numbering them from 1 unless a row carries its own number.
+export function validatePayoutRows(
+  owner: PublicKey,
+  token: TokenInfo,
+  rows: unknown
+): PlannedPayoutRow[] {
+  if (!Array.isArray(rows) || rows.length === 0) {
+    throw new SponsorshipError("INVALID_BATCH", "Provide at least one payout row.");
+  }
+  if (rows.length > MAX_PAYOUT_ROWS) {
+    throw new SponsorshipError(
+      "INVALID_BATCH",
+      `A batch can have at most ${MAX_PAYOUT_ROWS} rows; split the list.`
+    );
+  }
+  return rows.map((input, index) => {
+    const { row, recipient, amount } = (input ?? {}) as Record<string, unknown>;
+    const planned: PlannedPayoutRow = {
+      row: Number.isInteger(row) ? (row as number) : index + 1,
+      recipient: typeof recipient === "string" ? recipient.trim() : "",
+      amount: typeof amount === "string" ? amount.trim() : "",
+      baseUnits: null,
+      error: null,
+      warning: null,
+    };
+    const recipientCheck = checkRecipient(planned.recipient, owner.toBase58());
+    if (recipientCheck.error) {
+      return { ...planned, error: recipientCheck.error };
+    }
+    if (typeof amount !== "string") {
+      return { ...planned, error: "Amount must be a decimal string." };
+    }
+    const amountCheck = checkTransferAmount(planned.amount, token, null);
+    if (amountCheck.error || amountCheck.amount === null) {
+      return { ...planned, error: amountCheck.error };
+    }
+    return {
+      ...planned,
+      baseUnits: amountCheck.amount.toString(),
+      warning: recipientCheck.warning,
+    };
+  });
+}
+
+/// @notice Validates a batch and packs its valid rows, in order, into as few sponsored transactions as the size and compute limits allow.
+export async function planPayoutBatch(
+  owner: PublicKey,
+  token: TokenInfo,
+  rows: unknown
+): Promise<PayoutPlan> {
+  const planned = validatePayoutRows(owner, token, rows);
+  const valid = planned.filter((row) => !row.error);
+  const connection = getServerConnection();
+  const developerWallet = new PublicKey(await getDeveloperWalletAddress());
+  const policy = loadSponsorPolicy(developerWallet.toBase58());
+  const format = loadTransactionFormat();
+  const mint = new PublicKey(token.mint);
+  const tokenProgram = new PublicKey(token.programId);
+  const ownerATA = getAssociatedTokenAddressSync(mint, owner, true, tokenProgram);
+  const recipientATAs = new Map(
+    valid.map((row) => [
+      row.row,
+      getAssociatedTokenAddressSync(mint, new PublicKey(row.recipient), true, tokenProgram),
+    ])
+  );
+
+  const uniqueATAs = [...new Set([...recipientATAs.values()].map((ata) => ata.toBase58()))];
+  const [lookupTables, ownerBalance, accountInfos] = await Promise.all([
+    format.version === "legacy"
+      ? Promise.resolve([])
+      : fetchLookupTables(connection, format.lookupTableAddresses),
+    connection
+      .getTokenAccountBalance(ownerATA, "confirmed")
+      .then(({ value }) => BigInt(value.amount))
+      .catch(() => BigInt(0)),
+    Promise.all(
+      chunk(uniqueATAs, 100).map((addresses) =>
+        connection.getMultipleAccountsInfo(addresses.map((address) => new PublicKey(address)))
+      )
+    ).then((chunks) => chunks.flat()),
+  ]);
+  const existingAccounts = new Set(uniqueATAs.filter((_, index) => accountInfos[index]));
+
+  const totalAmount = valid.reduce(
+    (total, row) => total + BigInt(row.baseUnits ?? 0),
+    BigInt(0)
+  );
+  const error =
+    totalAmount > ownerBalance
+      ? `The valid rows total ${formatTokenAmount(totalAmount, token.decimals)} ${token.symbol}, but User A holds ${formatTokenAmount(ownerBalance, token.decimals)}.`
+      : null;
+
+  const isToken2022 = tokenProgram.equals(TOKEN_2022_PROGRAM_ID);
+  const transferUnits = ESTIMATED_UNITS.transfer[isToken2022 ? "token2022" : "token"];
+  const createUnits = ESTIMATED_UNITS.createAccount[isToken2022 ? "token2022" : "token"];
+  const unitBudget = policy.computeBudgetCaps.maxComputeUnits * COMPUTE_PACKING_HEADROOM;
+  const leadingInstructions: TransactionInstruction[] = [
+    ...(policy.nonceAccount
+      ? [
+          nonceAdvanceInstruction(
+            { account: policy.nonceAccount, value: PLACEHOLDER_BLOCKHASH, minContextSlot: 0 },
+            developerWallet
+          ),
+        ]
+      : []),
+    ...computeBudgetInstructions({
+      computeUnitLimit: policy.computeBudgetCaps.maxComputeUnits,
+      computeUnitPrice: 1,
+    }),
+  ];
+
+  /// @notice Measures the signed size of a transaction carrying the given rows.
+  const transactionSize = (group: PlannedPayoutRow[]) => {
+    const message = new TransactionMessage({
+      payerKey: developerWallet,
+      recentBlockhash: PLACEHOLDER_BLOCKHASH,
+      instructions: [
+        ...leadingInstructions,
+        ...transferInstructions(
+          developerWallet,
+          owner,
+          token,
+          group.map((row) => ({
+            recipient: new PublicKey(row.recipient),
+            amount: BigInt(row.baseUnits ?? 0),
+          })),
+          existingAccounts
+        ),
+      ],
+    });
+    return signedTransactionSize(
+      format.version === "legacy"
+        ? message.compileToLegacyMessage()
+        : message.compileToV0Message(lookupTables)
+    );
+  };
+
+  /// @notice Estimates the compute units a row adds to a group, counting its account creation once per group.
+  const rowUnits = (row: PlannedPayoutRow, group: PlannedPayoutRow[]) => {
+    const account = (recipientATAs.get(row.row) as PublicKey).toBase58();
+    const created =
+      existingAccounts.has(account) ||
+      group.some((other) => (recipientATAs.get(other.row) as PublicKey).toBase58() === account);
+    return transferUnits + (created ? 0 : createUnits);
+  };
+
+  const transactions: number[][] = [];
+  let group: PlannedPayoutRow[] = [];
+  let groupUnits = 0;
+  for (const row of valid) {
+    const units = rowUnits(row, group);
+    if (
+      groupUnits + units <= unitBudget &&
+      transactionSize([...group, row]) <= PACKET_DATA_SIZE
+    ) {
+      group.push(row);
+      groupUnits += units;
+      continue;
+    }
+    if (group.length) {
+      transactions.push(group.map((member) => member.row));
+    }
+    group = [row];
+    groupUnits = rowUnits(row, []);
+  }
+  if (group.length) {
+    transactions.push(group.map((member) => member.row));
+  }
+
+  return {
+    id: batchId(owner, token, planned),
+    rows: planned,
+    transactions,
+    totalAmount: totalAmount.toString(),
+    error,
+  };
+}
+
+/// @notice Derives a stable id from the owner, mint, and uploaded rows, so checking the same list again finds the progress saved for it.
+function batchId(owner: PublicKey, token: TokenInfo, rows: PlannedPayoutRow[]) {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        owner.toBase58(),
+        token.mint,
+        rows.map(({ row, recipient, amount }) => [row, recipient, amount]),
+      ])
+    )
+    .digest("hex");
+}
+
+/// @notice Splits a list into runs of at most `size` items.
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+}
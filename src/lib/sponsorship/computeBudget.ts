@@ -0,0 +1,145 @@
+/// @notice Imports Solana primitives used to size and price sponsored transactions.
+import {
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+} from "@solana/web3.js";
+/// @notice Imports the Buffer polyfill so instruction data can be decoded.
+import { Buffer } from "buffer";
+/// @notice Compiles the simulation message in the configured transaction format.
+import { compileSponsoredMessage } from "@/lib/sponsorship/transactionFormat";
+/// @notice Simulates the message to measure its compute units.
+import { simulateSponsoredMessage } from "@/lib/sponsorship/simulation";
+/// @notice Surfaces cap breaches with structured codes.
+import { SponsorshipError } from "@/lib/sponsorship/errors";
+
+/// @notice Sponsor-side ceilings on the compute budget of a sponsored transaction.
+export interface ComputeBudgetCaps {
+  /// @notice Largest compute unit limit the developer wallet will sign for.
+  maxComputeUnits: number;
+  /// @notice Largest priority fee, in lamports, the developer wallet will pay per transaction.
+  maxPriorityFeeLamports: number;
+}
+
+/// @notice Compute budget chosen for a sponsored transaction.
+export interface ComputeBudget {
+  /// @notice Compute unit limit set with `setComputeUnitLimit`.
+  computeUnitLimit: number;
+  /// @notice Price per compute unit, in micro-lamports, set with `setComputeUnitPrice`.
+  computeUnitPrice: number;
+}
+
+/// @notice A decoded compute budget instruction the sponsor understands.
+export type DecodedComputeBudgetInstruction =
+  | { type: "SetComputeUnitLimit"; units: number }
+  | { type: "SetComputeUnitPrice"; microLamports: bigint };
+
+/// @notice Discriminators of the Compute Budget program instructions.
+const enum ComputeBudgetInstructionType {
+  SetComputeUnitLimit = 2,
+  SetComputeUnitPrice = 3,
+}
+
+/// @notice Headroom added on top of the simulated compute units.
+const COMPUTE_UNIT_MARGIN = 1.1;
+/// @notice Percentile of recent prioritization fees used as the compute unit price.
+const PRIORITY_FEE_PERCENTILE = 0.75;
+/// @notice Micro-lamports per lamport.
+const MICRO_LAMPORTS_PER_LAMPORT = BigInt(1_000_000);
+
+/// @notice Lamports a compute unit limit costs at the given price, rounded up as the runtime does.
+export function priorityFeeLamports(computeUnitLimit: number, computeUnitPrice: bigint | number) {
+  const microLamports = BigInt(computeUnitLimit) * BigInt(computeUnitPrice);
+  return Number(
+    (microLamports + MICRO_LAMPORTS_PER_LAMPORT - BigInt(1)) / MICRO_LAMPORTS_PER_LAMPORT
+  );
+}
+
+/// @notice Decodes `setComputeUnitLimit` and `setComputeUnitPrice` data; any other compute budget instruction yields `null`.
+export function decodeComputeBudgetInstruction(
+  data: Buffer
+): DecodedComputeBudgetInstruction | null {
+  if (data[0] === ComputeBudgetInstructionType.SetComputeUnitLimit && data.length >= 5) {
+    return { type: "SetComputeUnitLimit", units: data.readUInt32LE(1) };
+  }
+  if (data[0] === ComputeBudgetInstructionType.SetComputeUnitPrice && data.length >= 9) {
+    return { type: "SetComputeUnitPrice", microLamports: data.readBigUInt64LE(1) };
+  }
+  return null;
+}
+
+/// @notice Builds the `setComputeUnitLimit` and `setComputeUnitPrice` instructions for a budget.
+export function computeBudgetInstructions(budget: ComputeBudget): TransactionInstruction[] {
+  return [
+    ComputeBudgetProgram.setComputeUnitLimit({ units: budget.computeUnitLimit }),
+    ComputeBudgetProgram.setComputeUnitPrice({ microLamports: budget.computeUnitPrice }),
+  ];
+}
+
+/// @notice Simulates the instructions at the maximum limit and returns the compute units to request.
+async function estimateComputeUnitLimit(
+  connection: Connection,
+  payerKey: PublicKey,
+  recentBlockhash: string,
+  instructions: TransactionInstruction[],
+  caps: ComputeBudgetCaps
+): Promise<number> {
+  const { message } = await compileSponsoredMessage(connection, payerKey, recentBlockhash, [
+    ...computeBudgetInstructions({ computeUnitLimit: caps.maxComputeUnits, computeUnitPrice: 0 }),
+    ...instructions,
+  ]);
+  const { unitsConsumed } = await simulateSponsoredMessage(connection, message);
+  if (!unitsConsumed) {
+    return caps.maxComputeUnits;
+  }
+  if (unitsConsumed > caps.maxComputeUnits) {
+    throw new SponsorshipError(
+      "COMPUTE_BUDGET_EXCEEDS_CAP",
+      `Transaction needs ${unitsConsumed} compute units, above the cap of ${caps.maxComputeUnits}.`,
+      422
+    );
+  }
+  return Math.min(Math.ceil(unitsConsumed * COMPUTE_UNIT_MARGIN), caps.maxComputeUnits);
+}
+
+/// @notice Picks a compute unit price from recent prioritization fees paid for the writable accounts.
+async function estimateComputeUnitPrice(
+  connection: Connection,
+  instructions: TransactionInstruction[]
+): Promise<number> {
+  const writableAccounts = new Map<string, PublicKey>();
+  for (const instruction of instructions) {
+    for (const key of instruction.keys) {
+      if (key.isWritable) {
+        writableAccounts.set(key.pubkey.toBase58(), key.pubkey);
+      }
+    }
+  }
+  const recentFees = await connection.getRecentPrioritizationFees({
+    lockedWritableAccounts: [...writableAccounts.values()],
+  });
+  if (!recentFees.length) {
+    return 0;
+  }
+  const fees = recentFees.map((fee) => fee.prioritizationFee).sort((a, b) => a - b);
+  return fees[Math.min(Math.floor(fees.length * PRIORITY_FEE_PERCENTILE), fees.length - 1)];
+}
+
+/// @notice Sizes the compute unit limit by simulation and prices it from recent fees, within the sponsor's caps.
+export async function planComputeBudget(
+  connection: Connection,
+  payerKey: PublicKey,
+  recentBlockhash: string,
+  instructions: TransactionInstruction[],
+  caps: ComputeBudgetCaps
+): Promise<ComputeBudget> {
+  const [computeUnitLimit, marketPrice] = await Promise.all([
+    estimateComputeUnitLimit(connection, payerKey, recentBlockhash, instructions, caps),
+    estimateComputeUnitPrice(connection, instructions),
+  ]);
+  const maxPrice = Math.floor(
+    (caps.maxPriorityFeeLamports * Number(MICRO_LAMPORTS_PER_LAMPORT)) / computeUnitLimit
+  );
+  return { computeUnitLimit, computeUnitPrice: Math.min(marketPrice, maxPrice) };
+}
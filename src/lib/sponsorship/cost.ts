@@ -0,0 +1,70 @@
+/// @notice Imports Solana primitives used to price a message.
+import { Connection, PublicKey, VersionedMessage } from "@solana/web3.js";
+/// @notice Imports the SPL helpers that size and price rent-exempt token accounts.
+import {
+  ExtensionType,
+  TOKEN_PROGRAM_ID,
+  getAccountLen,
+  getAccountTypeOfMintType,
+  getExtensionTypes,
+  getMinimumBalanceForRentExemptAccount,
+  getMint,
+} from "@solana/spl-token";
+/// @notice Imports the policy summary, which lists the accounts the sponsor pays rent for.
+import type {
+  SponsoredAccountCreation,
+  SponsoredMessageSummary,
+} from "@/lib/sponsorship/policy";
+/// @notice Prices the compute budget the message requests.
+import { priorityFeeLamports } from "@/lib/sponsorship/computeBudget";
+
+/// @notice Lamports the developer wallet spends on a sponsored message.
+export interface SponsorCost {
+  /// @notice Base network (signature) fee charged to the fee payer.
+  feeLamports: number;
+  /// @notice Priority fee charged to the fee payer for the requested compute units.
+  priorityFeeLamports: number;
+  /// @notice Rent deposited into token accounts created on behalf of the recipient.
+  rentLamports: number;
+}
+
+/// @notice Total lamports the developer wallet spends, as charged against quotas.
+export function sponsoredLamports(cost: SponsorCost) {
+  return cost.feeLamports + cost.priorityFeeLamports + cost.rentLamports;
+}
+
+/// @notice Prices the rent of an associated token account; Token-2022 accounts carry the mint's account extensions plus `ImmutableOwner`.
+async function tokenAccountRent(connection: Connection, creation: SponsoredAccountCreation) {
+  const tokenProgram = new PublicKey(creation.tokenProgram);
+  if (tokenProgram.equals(TOKEN_PROGRAM_ID)) {
+    return getMinimumBalanceForRentExemptAccount(connection);
+  }
+  const mint = await getMint(connection, new PublicKey(creation.mint), "confirmed", tokenProgram);
+  const accountExtensions = getExtensionTypes(mint.tlvData)
+    .map(getAccountTypeOfMintType)
+    .filter((extension) => extension !== ExtensionType.Uninitialized);
+  return connection.getMinimumBalanceForRentExemption(
+    getAccountLen([...accountExtensions, ExtensionType.ImmutableOwner])
+  );
+}
+
+/// @notice Estimates the network fee, priority fee, and token-account rent the developer wallet pays for an approved message.
+export async function estimateSponsorCost(
+  connection: Connection,
+  message: VersionedMessage,
+  summary: SponsoredMessageSummary
+): Promise<SponsorCost> {
+  const [{ value: fee }, rents] = await Promise.all([
+    connection.getFeeForMessage(message, "confirmed"),
+    Promise.all(summary.createdAccounts.map((creation) => tokenAccountRent(connection, creation))),
+  ]);
+  const priorityFee =
+    summary.computeUnitLimit === null
+      ? 0
+      : priorityFeeLamports(summary.computeUnitLimit, summary.computeUnitPrice);
+  return {
+    feeLamports: Math.max((fee ?? 0) - priorityFee, 0),
+    priorityFeeLamports: priorityFee,
+    rentLamports: rents.reduce((total, rent) => total + rent, 0),
+  };
+}
@@ -0,0 +1,50 @@
+/// @notice Imports the Next.js response helper so routes share one refusal format.
+import { NextResponse } from "next/server";
+
+/// @notice Signals an expected refusal (bad input, policy, stale message) that maps to a specific HTTP status.
+export class SponsorshipError extends Error {
+  /// @notice Machine-readable refusal code surfaced to API callers.
+  readonly code: string;
+  /// @notice HTTP status the refusal should be reported with.
+  readonly httpStatus: number;
+  /// @notice Extra structured fields merged into the response body.
+  readonly details?: Record<string, unknown>;
+
+  /// @notice Creates a refusal with a code, message, HTTP status, and optional structured details.
+  constructor(
+    code: string,
+    message: string,
+    httpStatus = 400,
+    details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = "SponsorshipError";
+    this.code = code;
+    this.httpStatus = httpStatus;
+    this.details = details;
+  }
+}
+
+/// @notice Converts a thrown value into a JSON response: structured refusals keep their status, anything else is a 500.
+export function sponsorshipErrorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof SponsorshipError) {
+    return NextResponse.json(
+      {
+        error: error.message,
+        status: "REJECTED",
+        code: error.code,
+        ...error.details,
+      },
+      { status: error.httpStatus }
+    );
+  }
+  console.error(fallbackMessage, error);
+  return NextResponse.json(
+    {
+      error: fallbackMessage,
+      details: error instanceof Error ? error.message : "Unknown error",
+      status: "ERROR",
+    },
+    { status: 500 }
+  );
+}
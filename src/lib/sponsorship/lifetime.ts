@@ -0,0 +1,119 @@
+/// @notice Imports Solana primitives used to read durable nonces and check blockhash validity.
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  VersionedMessage,
+} from "@solana/web3.js";
+/// @notice Reads the optional durable nonce account from the server environment.
+import { readServerEnv } from "@/lib/env";
+/// @notice Surfaces expired or misconfigured lifetimes with structured codes.
+import { SponsorshipError } from "@/lib/sponsorship/errors";
+
+/// @notice A durable nonce the prepared transaction uses instead of a recent blockhash.
+export interface DurableNonce {
+  /// @notice Nonce account advanced by the transaction's first instruction.
+  account: PublicKey;
+  /// @notice Current nonce value, used as the message's recent blockhash.
+  value: string;
+  /// @notice Slot the nonce was read at, needed to confirm nonce transactions.
+  minContextSlot: number;
+}
+
+/// @notice How long a prepared message stays valid: a recent blockhash with its last valid block height, or a durable nonce.
+export interface MessageLifetime {
+  /// @notice Value used as the message's recent blockhash.
+  blockhash: string;
+  /// @notice Last block height at which the blockhash is valid, or null for nonce transactions.
+  lastValidBlockHeight: number | null;
+  /// @notice Durable nonce the message advances, or null when it uses a recent blockhash.
+  nonce: DurableNonce | null;
+}
+
+/// @notice Returns the nonce account configured by `SPONSOR_NONCE_ACCOUNT`, or null when nonce mode is off.
+export function loadNonceAccount(): PublicKey | null {
+  const nonceAccount = readServerEnv("SPONSOR_NONCE_ACCOUNT");
+  return nonceAccount ? new PublicKey(nonceAccount) : null;
+}
+
+/// @notice Reads the current nonce, refusing when the account is missing or not controlled by the developer wallet.
+export async function fetchDurableNonce(
+  connection: Connection,
+  nonceAccount: PublicKey,
+  developerWallet: PublicKey
+): Promise<DurableNonce> {
+  const { context, value } = await connection.getNonceAndContext(nonceAccount, "confirmed");
+  if (!value) {
+    throw new Error(`Nonce account ${nonceAccount.toBase58()} was not found.`);
+  }
+  if (!value.authorizedPubkey.equals(developerWallet)) {
+    throw new Error(
+      `Nonce account ${nonceAccount.toBase58()} is not controlled by the developer wallet.`
+    );
+  }
+  return { account: nonceAccount, value: value.nonce, minContextSlot: context.slot };
+}
+
+/// @notice Builds the `nonceAdvance` instruction that must lead every nonce transaction.
+export function nonceAdvanceInstruction(
+  nonce: DurableNonce,
+  developerWallet: PublicKey
+): TransactionInstruction {
+  return SystemProgram.nonceAdvance({
+    noncePubkey: nonce.account,
+    authorizedPubkey: developerWallet,
+  });
+}
+
+/// @notice Whether a nonce transaction built against `nonceValue` can still land.
+export async function isNonceCurrent(
+  connection: Connection,
+  nonceAccount: PublicKey,
+  nonceValue: string
+) {
+  const nonce = await connection.getNonce(nonceAccount, "confirmed");
+  return nonce?.nonce === nonceValue;
+}
+
+/// @notice Refuses with HTTP 409 when the message's blockhash expired or its durable nonce was already used.
+export async function assertMessageLifetime(
+  connection: Connection,
+  message: VersionedMessage,
+  nonceAccount: string | null
+) {
+  if (nonceAccount) {
+    if (!(await isNonceCurrent(connection, new PublicKey(nonceAccount), message.recentBlockhash))) {
+      throw new SponsorshipError(
+        "NONCE_ADVANCED",
+        "The durable nonce was already used. Prepare and sign the transfer again.",
+        409
+      );
+    }
+    return;
+  }
+  const { value: blockhashValid } = await connection.isBlockhashValid(message.recentBlockhash, {
+    commitment: "confirmed",
+  });
+  if (!blockhashValid) {
+    throw new SponsorshipError(
+      "BLOCKHASH_EXPIRED",
+      "The transaction's blockhash expired before it was submitted. Prepare and sign the transfer again.",
+      409
+    );
+  }
+}
+
+/// @notice Reads the configured nonce when nonce mode is on, otherwise the latest blockhash.
+export async function fetchMessageLifetime(
+  connection: Connection,
+  developerWallet: PublicKey,
+  nonceAccount: PublicKey | null
+): Promise<MessageLifetime> {
+  if (nonceAccount) {
+    const nonce = await fetchDurableNonce(connection, nonceAccount, developerWallet);
+    return { blockhash: nonce.value, lastValidBlockHeight: null, nonce };
+  }
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+  return { blockhash, lastValidBlockHeight, nonce: null };
+}
@@ -0,0 +1,490 @@
+/// @notice Imports Solana message primitives used to decode the transaction the sponsor is asked to sign.
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  MessageAccountKeys,
+  PublicKey,
+  SystemProgram,
+  VersionedMessage,
+} from "@solana/web3.js";
+/// @notice Imports SPL program ids, instruction discriminators, and ATA derivation helpers.
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  TokenInstruction,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+/// @notice Imports the Buffer polyfill so u64 amounts can be read from instruction data.
+import { Buffer } from "buffer";
+/// @notice Reads policy configuration from the server environment.
+import { readServerEnv, requireNumericServerEnv, requireServerEnv } from "@/lib/env";
+/// @notice Reads the sponsored tokens and their per-transfer caps.
+import { SponsoredTokenConfig, loadTokenConfig } from "@/lib/tokens/registry";
+/// @notice Imports compute budget decoding and the caps that bound priority fees.
+import {
+  ComputeBudgetCaps,
+  decodeComputeBudgetInstruction,
+  priorityFeeLamports,
+} from "@/lib/sponsorship/computeBudget";
+/// @notice Reads the durable nonce account the developer wallet may advance.
+import { loadNonceAccount } from "@/lib/sponsorship/lifetime";
+
+/// @notice The SPL Memo v2 program, allowed by default so transfers can carry a reference.
+export const MEMO_PROGRAM_ID = new PublicKey(
+  "MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr"
+);
+
+/// @notice Discriminators of the Associated Token Account program instructions.
+const enum AssociatedTokenInstruction {
+  Create = 0,
+  CreateIdempotent = 1,
+  RecoverNested = 2,
+}
+
+/// @notice Discriminator of the System program's `AdvanceNonceAccount` instruction.
+const SYSTEM_ADVANCE_NONCE_ACCOUNT = 4;
+
+/// @notice Describes the rules a message must satisfy before the developer wallet signs it.
+export interface SponsorPolicy {
+  /// @notice Developer wallet that must be the fee payer and may not be debited otherwise.
+  developerWallet: PublicKey;
+  /// @notice Programs that sponsored transactions may invoke.
+  allowedProgramIds: PublicKey[];
+  /// @notice Mints sponsored token instructions may move, each with its per-transfer cap in base units.
+  tokens: SponsoredTokenConfig[];
+  /// @notice Whether the developer wallet may pay rent for associated token accounts.
+  allowAccountCreation: boolean;
+  /// @notice Ceilings on the compute unit limit and priority fee the developer wallet pays.
+  computeBudgetCaps: ComputeBudgetCaps;
+  /// @notice Durable nonce account the developer wallet may advance, or null when nonce mode is off.
+  nonceAccount: PublicKey | null;
+}
+
+/// @notice Enumerates the machine-readable reasons a message can be refused.
+export type PolicyViolationCode =
+  | "INVALID_MESSAGE"
+  | "UNRESOLVED_LOOKUP_TABLE"
+  | "FEE_PAYER_MISMATCH"
+  | "PROGRAM_NOT_ALLOWED"
+  | "UNSUPPORTED_INSTRUCTION"
+  | "MINT_NOT_ALLOWED"
+  | "AMOUNT_EXCEEDS_CAP"
+  | "COMPUTE_BUDGET_EXCEEDS_CAP"
+  | "SPONSOR_DEBIT";
+
+/// @notice Structured refusal returned to callers instead of a signature.
+export interface PolicyViolation {
+  /// @notice Machine-readable refusal code.
+  code: PolicyViolationCode;
+  /// @notice Human-readable explanation of the refusal.
+  reason: string;
+  /// @notice Index of the offending instruction, when the refusal is instruction specific.
+  instructionIndex?: number;
+}
+
+/// @notice Describes a token movement found in an approved message.
+export interface SponsoredTokenTransfer {
+  /// @notice Source token account.
+  source: string;
+  /// @notice Destination token account.
+  destination: string;
+  /// @notice Owner or delegate authorizing the transfer.
+  authority: string;
+  /// @notice Mint of the transferred token.
+  mint: string;
+  /// @notice Amount in base units.
+  amount: bigint;
+}
+
+/// @notice Describes an associated token account the developer wallet funds.
+export interface SponsoredAccountCreation {
+  /// @notice Address of the associated token account.
+  account: string;
+  /// @notice Wallet that will own the account.
+  owner: string;
+  /// @notice Mint of the account.
+  mint: string;
+  /// @notice Token program that owns the account, which determines its size and rent.
+  tokenProgram: string;
+}
+
+/// @notice Summarizes what an approved message does so callers can apply quotas or bookkeeping.
+export interface SponsoredMessageSummary {
+  /// @notice Fee payer of the message (always the developer wallet once approved).
+  feePayer: string;
+  /// @notice Token transfers carried by the message.
+  transfers: SponsoredTokenTransfer[];
+  /// @notice Associated token accounts whose rent the developer wallet pays.
+  createdAccounts: SponsoredAccountCreation[];
+  /// @notice Compute unit limit requested by the message, or `null` when it sets none.
+  computeUnitLimit: number | null;
+  /// @notice Compute unit price in micro-lamports (0 when the message sets none).
+  computeUnitPrice: number;
+  /// @notice Durable nonce account the message advances, or null when it uses a recent blockhash.
+  nonceAccount: string | null;
+}
+
+/// @notice Result of evaluating a message against the sponsor policy.
+export type PolicyDecision =
+  | { allowed: true; summary: SponsoredMessageSummary }
+  | { allowed: false; violation: PolicyViolation };
+
+/// @notice Default programs sponsored transactions may call: SPL Token, Token-2022, Associated Token Account, and Memo.
+const DEFAULT_ALLOWED_PROGRAMS = [
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  MEMO_PROGRAM_ID,
+];
+
+/// @notice Builds the sponsor policy from environment configuration for the given developer wallet.
+export function loadSponsorPolicy(developerWallet: string): SponsorPolicy {
+  const allowedPrograms = (readServerEnv("SPONSOR_ALLOWED_PROGRAMS") ?? "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+  return {
+    developerWallet: new PublicKey(developerWallet),
+    allowedProgramIds: allowedPrograms.length
+      ? allowedPrograms.map((value) => new PublicKey(value))
+      : DEFAULT_ALLOWED_PROGRAMS,
+    tokens: loadTokenConfig(),
+    allowAccountCreation:
+      requireServerEnv("SPONSOR_ALLOW_ACCOUNT_CREATION", "true") === "true",
+    computeBudgetCaps: {
+      maxComputeUnits: requireNumericServerEnv("SPONSOR_MAX_COMPUTE_UNITS", "200000"),
+      maxPriorityFeeLamports: requireNumericServerEnv(
+        "SPONSOR_MAX_PRIORITY_FEE_LAMPORTS",
+        "100000"
+      ),
+    },
+    nonceAccount: loadNonceAccount(),
+  };
+}
+
+/// @notice Decodes a hex-encoded (optionally `0x`-prefixed) serialized transaction message.
+export function decodeSponsoredMessage(serializedMessageHex: string): VersionedMessage {
+  const cleanHex = serializedMessageHex.startsWith("0x")
+    ? serializedMessageHex.slice(2)
+    : serializedMessageHex;
+  if (!cleanHex || cleanHex.length % 2 !== 0 || !/^[0-9a-fA-F]+$/.test(cleanHex)) {
+    throw new Error("Serialized transaction message is not valid hex.");
+  }
+  return VersionedMessage.deserialize(Buffer.from(cleanHex, "hex"));
+}
+
+/// @notice Builds a refusal decision.
+const reject = (
+  code: PolicyViolationCode,
+  reason: string,
+  instructionIndex?: number
+): PolicyDecision => ({
+  allowed: false,
+  violation: { code, reason, instructionIndex },
+});
+
+/// @notice Resolves every account key of the message, including lookup-table entries when provided.
+export const resolveAccountKeys = (
+  message: VersionedMessage,
+  addressLookupTableAccounts: AddressLookupTableAccount[]
+): MessageAccountKeys =>
+  message.version === "legacy"
+    ? message.getAccountKeys()
+    : message.getAccountKeys({ addressLookupTableAccounts });
+
+/// @notice Checks a decoded message against the sponsor policy and summarizes what it does.
+export function evaluateSponsorPolicy(
+  message: VersionedMessage,
+  policy: SponsorPolicy,
+  addressLookupTableAccounts: AddressLookupTableAccount[] = []
+): PolicyDecision {
+  let accountKeys: MessageAccountKeys;
+  try {
+    accountKeys = resolveAccountKeys(message, addressLookupTableAccounts);
+  } catch {
+    return reject(
+      "UNRESOLVED_LOOKUP_TABLE",
+      "The message references address lookup tables that could not be resolved."
+    );
+  }
+
+  const developerWallet = policy.developerWallet;
+  const feePayer = accountKeys.get(0);
+  if (!feePayer || !feePayer.equals(developerWallet)) {
+    return reject(
+      "FEE_PAYER_MISMATCH",
+      `Fee payer must be the developer wallet ${developerWallet.toBase58()}.`
+    );
+  }
+
+  const summary: SponsoredMessageSummary = {
+    feePayer: feePayer.toBase58(),
+    transfers: [],
+    createdAccounts: [],
+    computeUnitLimit: null,
+    computeUnitPrice: 0,
+    nonceAccount: null,
+  };
+
+  for (const [index, instruction] of message.compiledInstructions.entries()) {
+    const programId = accountKeys.get(instruction.programIdIndex);
+    if (
+      index === 0 &&
+      programId?.equals(SystemProgram.programId) &&
+      isSponsorNonceAdvance(
+        instruction.accountKeyIndexes.map((keyIndex) => accountKeys.get(keyIndex)),
+        Buffer.from(instruction.data),
+        policy
+      )
+    ) {
+      summary.nonceAccount = policy.nonceAccount?.toBase58() ?? null;
+      continue;
+    }
+    if (programId?.equals(ComputeBudgetProgram.programId)) {
+      const violation = inspectComputeBudgetInstruction(
+        Buffer.from(instruction.data),
+        policy,
+        summary
+      );
+      if (violation) {
+        return reject(violation.code, violation.reason, index);
+      }
+      continue;
+    }
+    if (!programId || !policy.allowedProgramIds.some((id) => id.equals(programId))) {
+      return reject(
+        "PROGRAM_NOT_ALLOWED",
+        `Program ${programId?.toBase58() ?? "unknown"} is not allow-listed for sponsorship.`,
+        index
+      );
+    }
+    const accounts = instruction.accountKeyIndexes.map((keyIndex) =>
+      accountKeys.get(keyIndex)
+    );
+    if (accounts.some((account) => !account)) {
+      return reject("INVALID_MESSAGE", "Instruction references an unknown account.", index);
+    }
+    const keys = accounts as PublicKey[];
+    const data = Buffer.from(instruction.data);
+
+    if (programId.equals(TOKEN_PROGRAM_ID) || programId.equals(TOKEN_2022_PROGRAM_ID)) {
+      const violation = inspectTokenInstruction(programId, keys, data, policy, summary);
+      if (violation) {
+        return reject(violation.code, violation.reason, index);
+      }
+      continue;
+    }
+
+    if (programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID)) {
+      const violation = inspectAssociatedTokenInstruction(keys, data, policy, summary);
+      if (violation) {
+        return reject(violation.code, violation.reason, index);
+      }
+      continue;
+    }
+
+    const debitsSponsor = instruction.accountKeyIndexes.some(
+      (keyIndex) =>
+        accountKeys.get(keyIndex)?.equals(developerWallet) &&
+        message.isAccountSigner(keyIndex) &&
+        message.isAccountWritable(keyIndex)
+    );
+    if (debitsSponsor) {
+      return reject(
+        "SPONSOR_DEBIT",
+        "The developer wallet may only be debited for transaction fees.",
+        index
+      );
+    }
+  }
+
+  if (summary.computeUnitPrice > 0) {
+    if (summary.computeUnitLimit === null) {
+      return reject(
+        "COMPUTE_BUDGET_EXCEEDS_CAP",
+        "A compute unit price requires an explicit compute unit limit."
+      );
+    }
+    const priorityFee = priorityFeeLamports(summary.computeUnitLimit, summary.computeUnitPrice);
+    if (priorityFee > policy.computeBudgetCaps.maxPriorityFeeLamports) {
+      return reject(
+        "COMPUTE_BUDGET_EXCEEDS_CAP",
+        `Priority fee of ${priorityFee} lamports exceeds the cap of ${policy.computeBudgetCaps.maxPriorityFeeLamports}.`
+      );
+    }
+  }
+
+  return { allowed: true, summary };
+}
+
+/// @notice Whether an instruction advances the configured nonce account under the developer wallet's authority.
+function isSponsorNonceAdvance(
+  keys: (PublicKey | undefined)[],
+  data: Buffer,
+  policy: SponsorPolicy
+) {
+  return Boolean(
+    policy.nonceAccount &&
+      data.length === 4 &&
+      data.readUInt32LE(0) === SYSTEM_ADVANCE_NONCE_ACCOUNT &&
+      keys.length === 3 &&
+      keys[0]?.equals(policy.nonceAccount) &&
+      keys[2]?.equals(policy.developerWallet)
+  );
+}
+
+/// @notice Validates a Compute Budget instruction: only unit limit and price, within the sponsor's caps.
+function inspectComputeBudgetInstruction(
+  data: Buffer,
+  policy: SponsorPolicy,
+  summary: SponsoredMessageSummary
+): Omit<PolicyViolation, "instructionIndex"> | null {
+  const decoded = decodeComputeBudgetInstruction(data);
+  if (!decoded) {
+    return {
+      code: "UNSUPPORTED_INSTRUCTION",
+      reason: `Compute budget instruction ${data[0] ?? "(empty)"} is not eligible for sponsorship.`,
+    };
+  }
+  if (decoded.type === "SetComputeUnitLimit") {
+    if (decoded.units > policy.computeBudgetCaps.maxComputeUnits) {
+      return {
+        code: "COMPUTE_BUDGET_EXCEEDS_CAP",
+        reason: `Compute unit limit of ${decoded.units} exceeds the cap of ${policy.computeBudgetCaps.maxComputeUnits}.`,
+      };
+    }
+    summary.computeUnitLimit = decoded.units;
+    return null;
+  }
+  /// @notice A price above this would exceed the priority fee cap with a single compute unit.
+  const maxPrice = BigInt(policy.computeBudgetCaps.maxPriorityFeeLamports) * BigInt(1_000_000);
+  if (decoded.microLamports > maxPrice) {
+    return {
+      code: "COMPUTE_BUDGET_EXCEEDS_CAP",
+      reason: `Compute unit price of ${decoded.microLamports} micro-lamports exceeds the priority fee cap.`,
+    };
+  }
+  summary.computeUnitPrice = Number(decoded.microLamports);
+  return null;
+}
+
+/// @notice Validates an SPL Token or Token-2022 instruction: only sponsored-mint transfers within their cap, never authorized by the sponsor.
+function inspectTokenInstruction(
+  programId: PublicKey,
+  keys: PublicKey[],
+  data: Buffer,
+  policy: SponsorPolicy,
+  summary: SponsoredMessageSummary
+): Omit<PolicyViolation, "instructionIndex"> | null {
+  const discriminator = data[0];
+  let source: PublicKey;
+  let destination: PublicKey;
+  let authority: PublicKey;
+  let token: SponsoredTokenConfig | undefined;
+
+  if (discriminator === TokenInstruction.Transfer && data.length >= 9 && keys.length >= 3) {
+    [source, destination, authority] = keys;
+    token = policy.tokens.find((entry) =>
+      source.equals(getAssociatedTokenAddressSync(entry.mint, authority, true, programId))
+    );
+    if (!token) {
+      return {
+        code: "MINT_NOT_ALLOWED",
+        reason:
+          "Unchecked transfers must debit the authority's associated token account for a sponsored mint.",
+      };
+    }
+  } else if (
+    discriminator === TokenInstruction.TransferChecked &&
+    data.length >= 10 &&
+    keys.length >= 4
+  ) {
+    let mint: PublicKey;
+    [source, mint, destination, authority] = keys;
+    token = policy.tokens.find((entry) => entry.mint.equals(mint));
+    if (!token) {
+      return {
+        code: "MINT_NOT_ALLOWED",
+        reason: `Mint ${mint.toBase58()} is not eligible for sponsorship.`,
+      };
+    }
+  } else {
+    return {
+      code: "UNSUPPORTED_INSTRUCTION",
+      reason: `Token instruction ${discriminator ?? "(empty)"} is not eligible for sponsorship.`,
+    };
+  }
+
+  if (authority.equals(policy.developerWallet)) {
+    return {
+      code: "SPONSOR_DEBIT",
+      reason: "The developer wallet may not authorize token transfers.",
+    };
+  }
+  const amount = data.readBigUInt64LE(1);
+  if (amount > token.maxTransferAmount) {
+    return {
+      code: "AMOUNT_EXCEEDS_CAP",
+      reason: `Transfer of ${amount} base units exceeds the ${token.symbol} cap of ${token.maxTransferAmount}.`,
+    };
+  }
+  summary.transfers.push({
+    source: source.toBase58(),
+    destination: destination.toBase58(),
+    authority: authority.toBase58(),
+    mint: token.mint.toBase58(),
+    amount,
+  });
+  return null;
+}
+
+/// @notice Validates an Associated Token Account instruction: sponsored-mint accounts of a token program only, sponsor rent only when enabled.
+function inspectAssociatedTokenInstruction(
+  keys: PublicKey[],
+  data: Buffer,
+  policy: SponsorPolicy,
+  summary: SponsoredMessageSummary
+): Omit<PolicyViolation, "instructionIndex"> | null {
+  const discriminator = data.length === 0 ? AssociatedTokenInstruction.Create : data[0];
+  if (
+    discriminator !== AssociatedTokenInstruction.Create &&
+    discriminator !== AssociatedTokenInstruction.CreateIdempotent
+  ) {
+    return {
+      code: "UNSUPPORTED_INSTRUCTION",
+      reason: `Associated token instruction ${discriminator} is not eligible for sponsorship.`,
+    };
+  }
+  if (keys.length < 6) {
+    return { code: "INVALID_MESSAGE", reason: "Associated token instruction is missing accounts." };
+  }
+  const [payer, associatedAccount, owner, mint, , tokenProgram] = keys;
+  if (!tokenProgram.equals(TOKEN_PROGRAM_ID) && !tokenProgram.equals(TOKEN_2022_PROGRAM_ID)) {
+    return {
+      code: "PROGRAM_NOT_ALLOWED",
+      reason: `Associated token accounts must be created by a token program, not ${tokenProgram.toBase58()}.`,
+    };
+  }
+  if (!policy.tokens.some((entry) => entry.mint.equals(mint))) {
+    return {
+      code: "MINT_NOT_ALLOWED",
+      reason: `Mint ${mint.toBase58()} is not eligible for sponsorship.`,
+    };
+  }
+  if (payer.equals(policy.developerWallet)) {
+    if (!policy.allowAccountCreation) {
+      return {
+        code: "SPONSOR_DEBIT",
+        reason: "The developer wallet is not configured to pay token account rent.",
+      };
+    }
+    summary.createdAccounts.push({
+      account: associatedAccount.toBase58(),
+      owner: owner.toBase58(),
+      mint: mint.toBase58(),
+      tokenProgram: tokenProgram.toBase58(),
+    });
+  }
+  return null;
+}
@@ -0,0 +1,34 @@
+/// @notice Imports Node's HMAC and constant-time comparison primitives.
+import { createHmac, timingSafeEqual } from "crypto";
+/// @notice Reads the secret used to tag messages built by the prepare route.
+import { requireServerEnv } from "@/lib/env";
+/// @notice Remembers submitted messages so a replay is refused.
+import { getQuotaStore } from "@/lib/quota/store";
+
+/// @notice How long a submitted message is remembered, far beyond the ~90 second life of a blockhash.
+const REPLAY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/// @notice Computes the HMAC tag for a serialized message under the `prepared:` domain, separated from the session and sign-in uses of the secret.
+const computeTag = (messageBytes: Uint8Array) =>
+  createHmac("sha256", requireServerEnv("SPONSORSHIP_SIGNING_SECRET"))
+    .update("prepared:")
+    .update(messageBytes)
+    .digest();
+
+/// @notice Issues a token proving the server built this exact message, so submit never signs client-chosen bytes.
+export function issuePreparedMessageToken(messageBytes: Uint8Array): string {
+  return computeTag(messageBytes).toString("base64url");
+}
+
+/// @notice Checks that a token was issued by `issuePreparedMessageToken` for these exact message bytes.
+export function verifyPreparedMessageToken(messageBytes: Uint8Array, token: string): boolean {
+  const expected = computeTag(messageBytes);
+  const provided = Buffer.from(token, "base64url");
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/// @notice Marks a prepared message (by its token) as submitted; returns false when it already was, so a replay is refused before it reserves quota.
+export async function claimPreparedMessage(token: string): Promise<boolean> {
+  const now = Date.now();
+  return getQuotaStore().claimKey(`prepared-message:${token}`, now + REPLAY_WINDOW_MS, now);
+}
@@ -0,0 +1,116 @@
+/// @notice Imports Solana primitives used to decode the instructions of a prepared message.
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  PublicKey,
+  VersionedMessage,
+} from "@solana/web3.js";
+/// @notice Imports SPL program ids, the token account layout, and instruction discriminators.
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  AccountLayout,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  TokenInstruction,
+} from "@solana/spl-token";
+/// @notice Imports the Buffer polyfill so instruction and account data can be read.
+import { Buffer } from "buffer";
+/// @notice Reuses the policy's account resolution and the Memo program id.
+import { MEMO_PROGRAM_ID, resolveAccountKeys } from "@/lib/sponsorship/policy";
+/// @notice Decodes compute budget instructions.
+import { decodeComputeBudgetInstruction } from "@/lib/sponsorship/computeBudget";
+/// @notice Formats base-unit amounts with the mint's decimals.
+import { formatTokenAmount } from "@/lib/tokenAmount";
+/// @notice Imports the preview shapes shared with the browser.
+import type { InstructionPreview, TokenBalanceChange } from "@/types/sponsorship";
+/// @notice Imports the token shape that supplies symbols and decimals.
+import type { TokenInfo } from "@/types/token";
+
+/// @notice Human-readable names of the programs a sponsored transfer may invoke.
+const PROGRAM_NAMES = new Map<string, string>([
+  [ComputeBudgetProgram.programId.toBase58(), "Compute Budget"],
+  [TOKEN_PROGRAM_ID.toBase58(), "SPL Token"],
+  [TOKEN_2022_PROGRAM_ID.toBase58(), "Token-2022"],
+  [ASSOCIATED_TOKEN_PROGRAM_ID.toBase58(), "Associated Token Account"],
+  [MEMO_PROGRAM_ID.toBase58(), "Memo"],
+]);
+
+/// @notice Describes one instruction in plain words; unknown instructions are summarized by size.
+function describeInstruction(
+  programId: PublicKey,
+  keys: PublicKey[],
+  data: Buffer,
+  token: TokenInfo
+): string {
+  if (programId.equals(ComputeBudgetProgram.programId)) {
+    const decoded = decodeComputeBudgetInstruction(data);
+    if (decoded?.type === "SetComputeUnitLimit") {
+      return `Set compute unit limit to ${decoded.units.toLocaleString()}`;
+    }
+    if (decoded?.type === "SetComputeUnitPrice") {
+      return `Set compute unit price to ${decoded.microLamports.toLocaleString()} micro-lamports`;
+    }
+  }
+  if (programId.equals(TOKEN_PROGRAM_ID) || programId.equals(TOKEN_2022_PROGRAM_ID)) {
+    if (data[0] === TokenInstruction.Transfer && data.length >= 9 && keys.length >= 3) {
+      return `Transfer ${formatTokenAmount(data.readBigUInt64LE(1), token.decimals)} ${token.symbol} from ${keys[0].toBase58()} to ${keys[1].toBase58()}, authorized by ${keys[2].toBase58()}`;
+    }
+    if (data[0] === TokenInstruction.TransferChecked && data.length >= 10 && keys.length >= 4) {
+      const unit =
+        keys[1].toBase58() === token.mint ? token.symbol : `of mint ${keys[1].toBase58()}`;
+      return `Transfer ${formatTokenAmount(data.readBigUInt64LE(1), data[9])} ${unit} from ${keys[0].toBase58()} to ${keys[2].toBase58()}, authorized by ${keys[3].toBase58()}`;
+    }
+  }
+  if (programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID) && keys.length >= 4) {
+    return `Create token account ${keys[1].toBase58()} for ${keys[2].toBase58()}, rent paid by ${keys[0].toBase58()}`;
+  }
+  if (programId.equals(MEMO_PROGRAM_ID)) {
+    return `Memo: "${data.toString("utf8")}"`;
+  }
+  return `Instruction with ${keys.length} accounts and ${data.length} bytes of data`;
+}
+
+/// @notice Decodes every instruction of a message for the pre-sign preview, naming amounts of the transferred token by its symbol.
+export function describeInstructions(
+  message: VersionedMessage,
+  addressLookupTableAccounts: AddressLookupTableAccount[],
+  token: TokenInfo
+): InstructionPreview[] {
+  const accountKeys = resolveAccountKeys(message, addressLookupTableAccounts);
+  return message.compiledInstructions.map((instruction) => {
+    const programId = accountKeys.get(instruction.programIdIndex) as PublicKey;
+    const keys = instruction.accountKeyIndexes.map(
+      (keyIndex) => accountKeys.get(keyIndex) as PublicKey
+    );
+    return {
+      programId: programId.toBase58(),
+      program: PROGRAM_NAMES.get(programId.toBase58()) ?? "Unknown program",
+      description: describeInstruction(programId, keys, Buffer.from(instruction.data), token),
+    };
+  });
+}
+
+/// @notice Reads the balance of raw token account data; a missing account holds zero.
+const readTokenBalance = (data: Buffer | null | undefined) =>
+  data && data.length >= AccountLayout.span ? AccountLayout.decode(data).amount : BigInt(0);
+
+/// @notice Builds the expected balance change of a token account from its current and simulated data.
+export function tokenBalanceChange(
+  label: string,
+  owner: PublicKey,
+  account: PublicKey,
+  token: TokenInfo,
+  before: Buffer | null | undefined,
+  after: Buffer | null | undefined
+): TokenBalanceChange {
+  return {
+    label,
+    owner: owner.toBase58(),
+    account: account.toBase58(),
+    mint: token.mint,
+    before: readTokenBalance(before).toString(),
+    after: readTokenBalance(after).toString(),
+    decimals: token.decimals,
+    symbol: token.symbol,
+  };
+}
@@ -0,0 +1,56 @@
+/// @notice Imports Solana primitives used to simulate unsigned sponsored messages.
+import {
+  Connection,
+  PublicKey,
+  VersionedMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+/// @notice Imports the Buffer polyfill so returned account data can be decoded.
+import { Buffer } from "buffer";
+/// @notice Surfaces failing simulations with structured codes and program logs.
+import { SponsorshipError } from "@/lib/sponsorship/errors";
+
+/// @notice Outcome of a successful simulation.
+export interface SponsoredSimulation {
+  /// @notice Compute units consumed, when the node reports them.
+  unitsConsumed: number | null;
+  /// @notice Program logs emitted during simulation.
+  logs: string[];
+  /// @notice Post-simulation data of the requested accounts, `null` for accounts that would not exist.
+  accounts: (Buffer | null)[];
+}
+
+/// @notice Simulates an unsigned message and returns the requested accounts' post state, refusing with HTTP 422 and the logs when it fails.
+export async function simulateSponsoredMessage(
+  connection: Connection,
+  message: VersionedMessage,
+  accountAddresses: PublicKey[] = []
+): Promise<SponsoredSimulation> {
+  const { value } = await connection.simulateTransaction(new VersionedTransaction(message), {
+    sigVerify: false,
+    replaceRecentBlockhash: true,
+    commitment: "confirmed",
+    accounts: accountAddresses.length
+      ? {
+          encoding: "base64",
+          addresses: accountAddresses.map((address) => address.toBase58()),
+        }
+      : undefined,
+  });
+  if (value.err) {
+    throw new SponsorshipError(
+      "SIMULATION_FAILED",
+      `Transaction simulation failed: ${JSON.stringify(value.err)}`,
+      422,
+      { logs: value.logs ?? [] }
+    );
+  }
+  return {
+    unitsConsumed: value.unitsConsumed ?? null,
+    logs: value.logs ?? [],
+    accounts: accountAddresses.map((_, index) => {
+      const account = value.accounts?.[index];
+      return account ? Buffer.from(account.data[0], "base64") : null;
+    }),
+  };
+}
@@ -0,0 +1,446 @@
+/// @notice Imports Solana primitives used to build, verify, and broadcast sponsored transfers.
+import {
+  PACKET_DATA_SIZE,
+  PublicKey,
+  TransactionInstruction,
+  TransactionVersion,
+  VersionedMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+/// @notice Imports SPL helpers for token account discovery and checked transfers.
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+/// @notice Imports ed25519 verification so User A's signature is checked before the sponsor co-signs.
+import nacl from "tweetnacl";
+/// @notice Imports the Buffer polyfill for message encoding.
+import { Buffer } from "buffer";
+/// @notice Prices the Token-2022 transfer fee withheld from the recipient.
+import { transferFeeFor } from "@/lib/tokens/registry";
+/// @notice Converts MetaKeep hex signatures to bytes and back.
+import { hexToUint8Array, uint8ArrayToHex } from "@/lib/hex";
+/// @notice Provides the server-side RPC connection.
+import { getServerConnection } from "@/lib/solana/connection";
+/// @notice Resolves and signs with the developer wallet through MetaKeep.
+import {
+  DeveloperSignature,
+  getDeveloperWalletAddress,
+  signWithDeveloperWallet,
+} from "@/lib/developerWallet";
+/// @notice Vets every message against the sponsorship policy before signing.
+import { evaluateSponsorPolicy, loadSponsorPolicy } from "@/lib/sponsorship/policy";
+/// @notice Sizes and prices the compute budget of prepared transfers.
+import { computeBudgetInstructions, planComputeBudget } from "@/lib/sponsorship/computeBudget";
+/// @notice Simulates prepared messages and decodes them for the pre-sign preview.
+import { simulateSponsoredMessage } from "@/lib/sponsorship/simulation";
+import { describeInstructions, tokenBalanceChange } from "@/lib/sponsorship/preview";
+/// @notice Imports the preview and token shapes shared with the browser.
+import type { TransferPreview } from "@/types/sponsorship";
+import type { TokenInfo } from "@/types/token";
+/// @notice Chooses the message lifetime (blockhash or durable nonce) and checks it before signing.
+import {
+  assertMessageLifetime,
+  fetchMessageLifetime,
+  nonceAdvanceInstruction,
+} from "@/lib/sponsorship/lifetime";
+/// @notice Compiles legacy or v0 messages and resolves their lookup tables.
+import {
+  compileSponsoredMessage,
+  resolveMessageLookupTables,
+} from "@/lib/sponsorship/transactionFormat";
+/// @notice Tags prepared messages so submit only co-signs what prepare built.
+import {
+  claimPreparedMessage,
+  issuePreparedMessageToken,
+  verifyPreparedMessageToken,
+} from "@/lib/sponsorship/preparedMessage";
+/// @notice Prices the fee and rent the developer wallet covers.
+import { SponsorCost, estimateSponsorCost, sponsoredLamports } from "@/lib/sponsorship/cost";
+/// @notice Enforces and charges per-wallet and global sponsorship budgets.
+import {
+  assertSponsorshipAllowed,
+  releaseSponsorshipUsage,
+  reserveSponsorshipUsage,
+} from "@/lib/quota/quota";
+/// @notice Records every sponsored transaction in the ledger.
+import {
+  describeSponsorship,
+  markSponsorshipFailed,
+  openSponsorship,
+  recordSponsorshipSignature,
+} from "@/lib/ledger/ledger";
+/// @notice Surfaces expected refusals with structured codes.
+import { SponsorshipError } from "@/lib/sponsorship/errors";
+/// @notice Ties the submission to the signed-in wallet.
+import { assertSessionWallet, type Session } from "@/lib/auth/session";
+
+/// @notice One recipient and amount carried by a prepared transaction.
+export interface SponsoredTransferLeg {
+  /// @notice Recipient wallet.
+  recipient: PublicKey;
+  /// @notice Amount of the token in base units.
+  amount: bigint;
+  /// @notice Label of the recipient's row in the balance preview.
+  label: string;
+}
+
+/// @notice Describes the transfers User A asked the server to prepare as one transaction.
+export interface SponsoredTransferRequest {
+  /// @notice User A, the token owner and transfer authority.
+  owner: PublicKey;
+  /// @notice Sponsored token to transfer, resolved from the registry.
+  token: TokenInfo;
+  /// @notice Transfers to pack into the transaction, in order.
+  transfers: SponsoredTransferLeg[];
+}
+
+/// @notice Payload the prepare route returns for User A to sign.
+export interface PreparedSponsoredTransfer extends SponsorCost {
+  /// @notice Base64 transaction without signatures, ready for the MetaKeep SDK.
+  transaction: string;
+  /// @notice Message version of the transaction (`legacy` or `0`).
+  version: TransactionVersion;
+  /// @notice Base64 serialized message that User A signs and submit verifies.
+  message: string;
+  /// @notice Token binding the message to this server.
+  token: string;
+  /// @notice Fee payer of the transaction (the developer wallet).
+  feePayer: string;
+  /// @notice Blockhash (or durable nonce value) the message was built against.
+  blockhash: string;
+  /// @notice Last block height at which the blockhash is still valid, or null in durable nonce mode.
+  lastValidBlockHeight: number | null;
+  /// @notice Durable nonce the message advances, or null when it uses a recent blockhash.
+  nonce: { account: string; value: string; minContextSlot: number } | null;
+  /// @notice Token being transferred.
+  tokenInfo: TokenInfo;
+  /// @notice Token-2022 transfer fee withheld from what the recipients receive, in base units.
+  transferFee: string;
+  /// @notice Whether the transaction creates a token account for any recipient.
+  createsRecipientAccount: boolean;
+  /// @notice Compute unit limit chosen from simulation.
+  computeUnitLimit: number;
+  /// @notice Compute unit price, in micro-lamports, chosen from recent prioritization fees.
+  computeUnitPrice: number;
+  /// @notice Simulated outcome shown to User A before signing.
+  preview: TransferPreview;
+}
+
+/// @notice Payload the submit route receives once User A has signed.
+export interface SponsoredTransferSubmission {
+  /// @notice Base64 serialized message returned by prepare.
+  message: string;
+  /// @notice Token returned by prepare for the same message.
+  token: string;
+  /// @notice Hex-encoded signature produced by User A over the message.
+  userSignature: string;
+}
+
+/// @notice Result of co-signing and broadcasting a sponsored transfer.
+export interface SubmittedSponsoredTransfer extends SponsorCost {
+  /// @notice Transaction signature (id) returned by the RPC node.
+  signature: string;
+  /// @notice Developer signature returned by MetaKeep.
+  developerSignature: DeveloperSignature;
+  /// @notice Ledger id of the sponsorship.
+  ledgerId: string;
+  /// @notice Blockhash (or durable nonce value) the transaction was built against, used to detect expiry.
+  blockhash: string;
+  /// @notice Durable nonce account the transaction advances, or null when it uses a recent blockhash.
+  nonceAccount: string | null;
+  /// @notice Compute unit limit the transaction requested, or `null` when it set none.
+  computeUnitLimit: number | null;
+  /// @notice Compute unit price, in micro-lamports, the transaction paid.
+  computeUnitPrice: number;
+}
+
+/// @notice Size of a transaction signed by the developer wallet and User A, excluding its message.
+const SIGNATURES_SIZE = 1 + 2 * 64;
+
+/// @notice Builds the ATA creations (for recipients without a token account) and `transferChecked` instructions of the given transfers.
+export function transferInstructions(
+  developerWallet: PublicKey,
+  owner: PublicKey,
+  token: TokenInfo,
+  transfers: Pick<SponsoredTransferLeg, "recipient" | "amount">[],
+  existingAccounts: Set<string>
+): TransactionInstruction[] {
+  const mint = new PublicKey(token.mint);
+  const tokenProgram = new PublicKey(token.programId);
+  const ownerATA = getAssociatedTokenAddressSync(mint, owner, true, tokenProgram);
+  const created = new Set<string>();
+  const instructions: TransactionInstruction[] = [];
+  for (const transfer of transfers) {
+    const recipientATA = getAssociatedTokenAddressSync(
+      mint,
+      transfer.recipient,
+      true,
+      tokenProgram
+    );
+    const address = recipientATA.toBase58();
+    if (!existingAccounts.has(address) && !created.has(address)) {
+      created.add(address);
+      instructions.push(
+        createAssociatedTokenAccountIdempotentInstruction(
+          developerWallet,
+          recipientATA,
+          transfer.recipient,
+          mint,
+          tokenProgram
+        )
+      );
+    }
+    instructions.push(
+      createTransferCheckedInstruction(
+        ownerATA,
+        mint,
+        recipientATA,
+        owner,
+        transfer.amount,
+        token.decimals,
+        [],
+        tokenProgram
+      )
+    );
+  }
+  return instructions;
+}
+
+/// @notice Serialized size of the message once the developer wallet and User A have signed it, or `Infinity` when it cannot even be serialized.
+export function signedTransactionSize(message: VersionedMessage) {
+  try {
+    return SIGNATURES_SIZE + message.serialize().length;
+  } catch {
+    return Infinity;
+  }
+}
+
+/// @notice Builds the token transfers on the server so the client never chooses fee payer, blockhash, or instructions.
+export async function prepareSponsoredTransfer(
+  request: SponsoredTransferRequest
+): Promise<PreparedSponsoredTransfer> {
+  const connection = getServerConnection();
+  const developerWallet = new PublicKey(await getDeveloperWalletAddress());
+  const policy = loadSponsorPolicy(developerWallet.toBase58());
+  const { token, transfers } = request;
+  const mint = new PublicKey(token.mint);
+  const tokenProgram = new PublicKey(token.programId);
+  const ownerATA = getAssociatedTokenAddressSync(mint, request.owner, true, tokenProgram);
+  const recipientATAs = transfers.map((transfer) =>
+    getAssociatedTokenAddressSync(mint, transfer.recipient, true, tokenProgram)
+  );
+
+  const [[ownerATAInfo, ...recipientATAInfos], lifetime] = await Promise.all([
+    connection.getMultipleAccountsInfo([ownerATA, ...recipientATAs]),
+    fetchMessageLifetime(connection, developerWallet, policy.nonceAccount),
+  ]);
+  const { blockhash, lastValidBlockHeight, nonce } = lifetime;
+  const existingAccounts = new Set(
+    recipientATAs
+      .filter((_, index) => recipientATAInfos[index])
+      .map((account) => account.toBase58())
+  );
+  const createsRecipientAccount = recipientATAInfos.some((info) => !info);
+
+  const leadingInstructions = nonce ? [nonceAdvanceInstruction(nonce, developerWallet)] : [];
+  const instructions = transferInstructions(
+    developerWallet,
+    request.owner,
+    token,
+    transfers,
+    existingAccounts
+  );
+
+  const computeBudget = await planComputeBudget(
+    connection,
+    developerWallet,
+    blockhash,
+    [...leadingInstructions, ...instructions],
+    policy.computeBudgetCaps
+  );
+  const { message, lookupTables } = await compileSponsoredMessage(
+    connection,
+    developerWallet,
+    blockhash,
+    [...leadingInstructions, ...computeBudgetInstructions(computeBudget), ...instructions]
+  );
+  if (signedTransactionSize(message) > PACKET_DATA_SIZE) {
+    throw new SponsorshipError(
+      "TRANSACTION_TOO_LARGE",
+      `The transfers do not fit in one ${PACKET_DATA_SIZE}-byte transaction.`,
+      413
+    );
+  }
+  const messageBytes = message.serialize();
+  const decision = evaluateSponsorPolicy(message, policy, lookupTables);
+  if (!decision.allowed) {
+    const { code, reason, instructionIndex } = decision.violation;
+    throw new SponsorshipError(code, reason, 403, { instructionIndex });
+  }
+  const cost = await estimateSponsorCost(connection, message, decision.summary);
+  await assertSponsorshipAllowed(request.owner.toBase58(), sponsoredLamports(cost));
+
+  /// @notice Simulates once, reading User A's account and each distinct recipient account.
+  const previewed = transfers
+    .map((transfer, index) => ({ ...transfer, account: recipientATAs[index], index }))
+    .filter(
+      (leg, position, legs) =>
+        legs.findIndex((other) => other.account.equals(leg.account)) === position
+    );
+  const simulation = await simulateSponsoredMessage(connection, message, [
+    ownerATA,
+    ...previewed.map((leg) => leg.account),
+  ]);
+
+  return {
+    transaction: Buffer.from(new VersionedTransaction(message).serialize()).toString("base64"),
+    version: message.version,
+    message: Buffer.from(messageBytes).toString("base64"),
+    token: issuePreparedMessageToken(messageBytes),
+    feePayer: developerWallet.toBase58(),
+    blockhash,
+    lastValidBlockHeight,
+    nonce: nonce
+      ? {
+          account: nonce.account.toBase58(),
+          value: nonce.value,
+          minContextSlot: nonce.minContextSlot,
+        }
+      : null,
+    tokenInfo: token,
+    transferFee: transfers
+      .reduce((total, transfer) => total + transferFeeFor(token, transfer.amount), BigInt(0))
+      .toString(),
+    createsRecipientAccount,
+    ...computeBudget,
+    ...cost,
+    preview: {
+      instructions: describeInstructions(message, lookupTables, token),
+      balanceChanges: [
+        tokenBalanceChange(
+          "User A",
+          request.owner,
+          ownerATA,
+          token,
+          ownerATAInfo?.data,
+          simulation.accounts[0]
+        ),
+        ...previewed.map((leg, position) =>
+          tokenBalanceChange(
+            leg.label,
+            leg.recipient,
+            leg.account,
+            token,
+            recipientATAInfos[leg.index]?.data,
+            simulation.accounts[position + 1]
+          )
+        ),
+      ],
+      unitsConsumed: simulation.unitsConsumed ?? 0,
+      logs: simulation.logs,
+    },
+  };
+}
+
+/// @notice Verifies that the signed-in wallet is the token authority and User A's signature covers the prepared message, adds the developer signature, and broadcasts.
+export async function submitSponsoredTransfer(
+  submission: SponsoredTransferSubmission,
+  session: Session
+): Promise<SubmittedSponsoredTransfer> {
+  const messageBytes = Buffer.from(submission.message, "base64");
+  if (!verifyPreparedMessageToken(messageBytes, submission.token)) {
+    throw new SponsorshipError(
+      "UNKNOWN_MESSAGE",
+      "The transaction message was not prepared by this server.",
+      403
+    );
+  }
+  const message = VersionedMessage.deserialize(messageBytes);
+  const connection = getServerConnection();
+  const developerWallet = new PublicKey(await getDeveloperWalletAddress());
+  const decision = evaluateSponsorPolicy(
+    message,
+    loadSponsorPolicy(developerWallet.toBase58()),
+    await resolveMessageLookupTables(connection, message)
+  );
+  if (!decision.allowed) {
+    const { code, reason, instructionIndex } = decision.violation;
+    throw new SponsorshipError(code, reason, 403, { instructionIndex });
+  }
+  assertSessionWallet(
+    session,
+    decision.summary.transfers.map((transfer) => transfer.authority)
+  );
+  if (message.header.numRequiredSignatures !== 2) {
+    throw new SponsorshipError(
+      "UNEXPECTED_SIGNERS",
+      "Sponsored transfers must be signed by exactly the developer wallet and User A."
+    );
+  }
+
+  const userPublicKey = message.staticAccountKeys[1];
+  const userSignature = hexToUint8Array(submission.userSignature);
+  if (
+    userSignature.length !== nacl.sign.signatureLength ||
+    !nacl.sign.detached.verify(messageBytes, userSignature, userPublicKey.toBytes())
+  ) {
+    throw new SponsorshipError(
+      "INVALID_SIGNATURE",
+      "User signature does not match the prepared transaction message."
+    );
+  }
+
+  if (!(await claimPreparedMessage(submission.token))) {
+    throw new SponsorshipError(
+      "ALREADY_SUBMITTED",
+      "This prepared transaction was already submitted. Prepare a new one to send again.",
+      409
+    );
+  }
+
+  await assertMessageLifetime(connection, message, decision.summary.nonceAccount);
+  const cost = await estimateSponsorCost(connection, message, decision.summary);
+  const reservationId = await reserveSponsorshipUsage(
+    userPublicKey.toBase58(),
+    sponsoredLamports(cost)
+  );
+  const ledgerId = await openSponsorship(
+    await describeSponsorship(connection, userPublicKey.toBase58(), decision.summary, cost)
+  );
+  let developerSignature: DeveloperSignature;
+  let signature: string;
+  try {
+    developerSignature = await signWithDeveloperWallet(
+      uint8ArrayToHex(messageBytes),
+      "Developer gas sponsorship for token transfer"
+    );
+    const transaction = new VersionedTransaction(message);
+    transaction.addSignature(developerWallet, hexToUint8Array(developerSignature.signature));
+    transaction.addSignature(userPublicKey, userSignature);
+    signature = await connection.sendRawTransaction(transaction.serialize(), {
+      skipPreflight: false,
+      preflightCommitment: "confirmed",
+    });
+  } catch (error) {
+    await releaseSponsorshipUsage(reservationId);
+    await markSponsorshipFailed(
+      ledgerId,
+      error instanceof Error ? error.message : "Unknown error"
+    );
+    throw error;
+  }
+  /// @notice Once broadcast, the transfer is reported as submitted even if bookkeeping fails.
+  await recordSponsorshipSignature(ledgerId, reservationId, signature, "submitted");
+  return {
+    signature,
+    developerSignature,
+    ledgerId,
+    blockhash: message.recentBlockhash,
+    nonceAccount: decision.summary.nonceAccount,
+    computeUnitLimit: decision.summary.computeUnitLimit,
+    computeUnitPrice: decision.summary.computeUnitPrice,
+    ...cost,
+  };
+}
@@ -0,0 +1,103 @@
+/// @notice Imports Solana primitives used to compile legacy and v0 messages.
+import {
+  AddressLookupTableAccount,
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  TransactionVersion,
+  VersionedMessage,
+} from "@solana/web3.js";
+/// @notice Reads the transaction format options from the server environment.
+import { readServerEnv, requireServerEnv } from "@/lib/env";
+
+/// @notice Message format used for sponsored transactions.
+export interface TransactionFormat {
+  /// @notice `0` for v0 messages (default) or `legacy`.
+  version: TransactionVersion;
+  /// @notice Address lookup tables offered to the v0 compiler.
+  lookupTableAddresses: PublicKey[];
+}
+
+/// @notice A compiled message plus the lookup tables needed to resolve it.
+export interface CompiledSponsoredMessage {
+  /// @notice The compiled legacy or v0 message.
+  message: VersionedMessage;
+  /// @notice Lookup tables the message references (empty for legacy).
+  lookupTables: AddressLookupTableAccount[];
+}
+
+/// @notice Reads `SPONSOR_TRANSACTION_VERSION` (`0` or `legacy`) and `SPONSOR_LOOKUP_TABLES`.
+export function loadTransactionFormat(): TransactionFormat {
+  const version = requireServerEnv("SPONSOR_TRANSACTION_VERSION", "0");
+  if (version !== "0" && version !== "legacy") {
+    throw new Error(
+      `Unsupported SPONSOR_TRANSACTION_VERSION "${version}". Use "0" or "legacy".`
+    );
+  }
+  return {
+    version: version === "legacy" ? "legacy" : 0,
+    lookupTableAddresses: (readServerEnv("SPONSOR_LOOKUP_TABLES") ?? "")
+      .split(",")
+      .map((value) => value.trim())
+      .filter(Boolean)
+      .map((value) => new PublicKey(value)),
+  };
+}
+
+/// @notice Fetches address lookup table accounts, failing loudly when one does not exist.
+export async function fetchLookupTables(
+  connection: Connection,
+  addresses: PublicKey[]
+): Promise<AddressLookupTableAccount[]> {
+  return Promise.all(
+    addresses.map(async (address) => {
+      const { value } = await connection.getAddressLookupTable(address);
+      if (!value) {
+        throw new Error(`Address lookup table ${address.toBase58()} was not found.`);
+      }
+      return value;
+    })
+  );
+}
+
+/// @notice Fetches the lookup tables a decoded message references so its accounts can be resolved.
+export async function resolveMessageLookupTables(
+  connection: Connection,
+  message: VersionedMessage
+): Promise<AddressLookupTableAccount[]> {
+  if (message.version === "legacy" || message.addressTableLookups.length === 0) {
+    return [];
+  }
+  return fetchLookupTables(
+    connection,
+    message.addressTableLookups.map((lookup) => lookup.accountKey)
+  );
+}
+
+/// @notice Compiles instructions into a legacy or v0 message according to the configured format.
+export async function compileSponsoredMessage(
+  connection: Connection,
+  payerKey: PublicKey,
+  recentBlockhash: string,
+  instructions: TransactionInstruction[],
+  format: TransactionFormat = loadTransactionFormat()
+): Promise<CompiledSponsoredMessage> {
+  const transactionMessage = new TransactionMessage({
+    payerKey,
+    recentBlockhash,
+    instructions,
+  });
+  if (format.version === "legacy") {
+    return { message: transactionMessage.compileToLegacyMessage(), lookupTables: [] };
+  }
+  const lookupTables = await fetchLookupTables(connection, format.lookupTableAddresses);
+  const message = transactionMessage.compileToV0Message(lookupTables);
+  const usedAddresses = new Set(
+    message.addressTableLookups.map((lookup) => lookup.accountKey.toBase58())
+  );
+  return {
+    message,
+    lookupTables: lookupTables.filter((table) => usedAddresses.has(table.key.toBase58())),
+  };
+}
@@ -0,0 +1,23 @@
+/// @notice Formats a base-unit token amount as an exact decimal string (e.g. `10000` with 6 decimals is `0.01`).
+export const formatTokenAmount = (amount: bigint | string, decimals: number) => {
+  const raw = BigInt(amount);
+  const negative = raw < BigInt(0);
+  const digits = (negative ? -raw : raw).toString().padStart(decimals + 1, "0");
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, "");
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+};
+
+/// @notice Parses a decimal string into exact base units (e.g. `0.01` with 6 decimals is `10000n`), refusing malformed input and extra precision.
+export const parseTokenAmount = (value: string, decimals: number): bigint => {
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(value.trim());
+  if (!match || (!match[1] && !match[2])) {
+    throw new Error("Amount must be a decimal number such as 1.25.");
+  }
+  const whole = match[1] || "0";
+  const fraction = (match[2] ?? "").replace(/0+$/, "");
+  if (fraction.length > decimals) {
+    throw new Error(`Amount can have at most ${decimals} decimal places.`);
+  }
+  return BigInt(whole + fraction.padEnd(decimals, "0"));
+};
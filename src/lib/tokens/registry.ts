@@ -0,0 +1,173 @@
+/// @notice Imports Solana primitives used to read mint accounts.
+import { Connection, PublicKey } from "@solana/web3.js";
+/// @notice Imports SPL helpers that decode mints and their Token-2022 extensions.
+import {
+  ExtensionType,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  calculateFee,
+  getEpochFee,
+  getExtensionTypes,
+  getTransferFeeConfig,
+  unpackMint,
+} from "@solana/spl-token";
+/// @notice Reads the registry configuration from the server environment.
+import { readServerEnv, requireServerEnv } from "@/lib/env";
+/// @notice Supplies the cluster's USDC mint as the default registry entry.
+import { loadClusterConfig } from "@/lib/cluster";
+/// @notice Surfaces unsupported mints with structured codes.
+import { SponsorshipError } from "@/lib/sponsorship/errors";
+/// @notice Imports the token shape shared with the browser.
+import type { TokenInfo } from "@/types/token";
+
+/// @notice A token entry as configured, before its mint account is read.
+export interface SponsoredTokenConfig {
+  /// @notice Display symbol.
+  symbol: string;
+  /// @notice Mint address.
+  mint: PublicKey;
+  /// @notice Largest amount, in base units, one sponsored transfer may move.
+  maxTransferAmount: bigint;
+}
+
+/// @notice Token-2022 extensions that plain `transferChecked` cannot move.
+const UNSUPPORTED_EXTENSIONS = new Map<ExtensionType, string>([
+  [ExtensionType.NonTransferable, "NonTransferable"],
+  [ExtensionType.TransferHook, "TransferHook"],
+]);
+
+/// @notice How long mint data (decimals, program, current transfer fee) is reused before it is read again.
+const MINT_CACHE_TTL_MS = 60_000;
+
+/// @notice Caches mint lookups per process, keyed by mint address.
+const mintCache = new Map<string, { expiresAt: number; info: Promise<TokenInfo> }>();
+
+/// @notice Parses a per-transfer cap, throwing a configuration error unless it is a whole number of base units.
+const parseTransferCap = (value: string, source: string) => {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${source} "${value}": expected a whole number of base units.`);
+  }
+  return BigInt(value);
+};
+
+/// @notice Reads `SPONSOR_TOKENS` (`SYMBOL:MINT[:MAX_BASE_UNITS]`, comma separated), defaulting to the cluster's USDC.
+export function loadTokenConfig(): SponsoredTokenConfig[] {
+  const defaultCap = parseTransferCap(
+    requireServerEnv("SPONSOR_MAX_TRANSFER_AMOUNT", "1000000"),
+    "SPONSOR_MAX_TRANSFER_AMOUNT"
+  );
+  const entries = (readServerEnv("SPONSOR_TOKENS") ?? "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+  if (!entries.length) {
+    return [
+      {
+        symbol: "USDC",
+        mint: new PublicKey(loadClusterConfig().usdcMint),
+        maxTransferAmount: defaultCap,
+      },
+    ];
+  }
+  return entries.map((entry) => {
+    const [symbol, mint, cap] = entry.split(":").map((part) => part.trim());
+    if (!symbol || !mint) {
+      throw new Error(`Invalid SPONSOR_TOKENS entry "${entry}". Use SYMBOL:MINT[:MAX_BASE_UNITS].`);
+    }
+    return {
+      symbol,
+      mint: new PublicKey(mint),
+      maxTransferAmount: cap
+        ? parseTransferCap(cap, `SPONSOR_TOKENS cap for ${symbol}`)
+        : defaultCap,
+    };
+  });
+}
+
+/// @notice Reads a mint account: its decimals, owning program, and the transfer fee for the current epoch.
+async function fetchTokenInfo(
+  connection: Connection,
+  config: SponsoredTokenConfig
+): Promise<TokenInfo> {
+  const [accountInfo, { epoch }] = await Promise.all([
+    connection.getAccountInfo(config.mint, "confirmed"),
+    connection.getEpochInfo("confirmed"),
+  ]);
+  if (!accountInfo) {
+    throw new Error(`Mint ${config.mint.toBase58()} (${config.symbol}) was not found.`);
+  }
+  const programId = accountInfo.owner;
+  if (!programId.equals(TOKEN_PROGRAM_ID) && !programId.equals(TOKEN_2022_PROGRAM_ID)) {
+    throw new Error(`Account ${config.mint.toBase58()} (${config.symbol}) is not a token mint.`);
+  }
+  const mint = unpackMint(config.mint, accountInfo, programId);
+  for (const extension of getExtensionTypes(mint.tlvData)) {
+    const name = UNSUPPORTED_EXTENSIONS.get(extension);
+    if (name) {
+      throw new Error(
+        `Mint ${config.mint.toBase58()} (${config.symbol}) uses the ${name} extension, which sponsored transfers do not support.`
+      );
+    }
+  }
+  const feeConfig = getTransferFeeConfig(mint);
+  const fee = feeConfig ? getEpochFee(feeConfig, BigInt(epoch)) : null;
+  return {
+    mint: config.mint.toBase58(),
+    symbol: config.symbol,
+    decimals: mint.decimals,
+    programId: programId.toBase58(),
+    maxTransferAmount: config.maxTransferAmount.toString(),
+    transferFee:
+      fee && fee.transferFeeBasisPoints > 0
+        ? { basisPoints: fee.transferFeeBasisPoints, maximumFee: fee.maximumFee.toString() }
+        : null,
+  };
+}
+
+/// @notice Returns a configured token's mint data, reusing a recent lookup.
+function getTokenInfo(connection: Connection, config: SponsoredTokenConfig) {
+  const key = config.mint.toBase58();
+  const cached = mintCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.info;
+  }
+  const info = fetchTokenInfo(connection, config);
+  mintCache.set(key, { expiresAt: Date.now() + MINT_CACHE_TTL_MS, info });
+  info.catch(() => mintCache.delete(key));
+  return info;
+}
+
+/// @notice Lists every sponsored token with the decimals and program read from its mint.
+export async function loadTokenRegistry(connection: Connection): Promise<TokenInfo[]> {
+  return Promise.all(loadTokenConfig().map((config) => getTokenInfo(connection, config)));
+}
+
+/// @notice Looks up a sponsored token by mint, refusing mints the registry does not list.
+export async function resolveSponsoredToken(
+  connection: Connection,
+  mint: PublicKey
+): Promise<TokenInfo> {
+  const config = loadTokenConfig().find((entry) => entry.mint.equals(mint));
+  if (!config) {
+    throw new SponsorshipError(
+      "MINT_NOT_ALLOWED",
+      `Mint ${mint.toBase58()} is not eligible for sponsorship.`
+    );
+  }
+  return getTokenInfo(connection, config);
+}
+
+/// @notice Transfer fee, in base units, the mint withholds from a transfer of `amount`.
+export function transferFeeFor(token: TokenInfo, amount: bigint): bigint {
+  if (!token.transferFee) {
+    return BigInt(0);
+  }
+  return calculateFee(
+    {
+      epoch: BigInt(0),
+      maximumFee: BigInt(token.transferFee.maximumFee),
+      transferFeeBasisPoints: token.transferFee.basisPoints,
+    },
+    amount
+  );
+}
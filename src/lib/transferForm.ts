@@ -0,0 +1,90 @@
+/// @notice Imports the public key type used to decode and curve-check recipient addresses.
+import { PublicKey } from "@solana/web3.js";
+/// @notice Parses and formats exact base-unit token amounts.
+import { formatTokenAmount, parseTokenAmount } from "@/lib/tokenAmount";
+/// @notice Imports the token shape whose decimals and cap bound the amount.
+import type { TokenInfo } from "@/types/token";
+
+/// @notice Outcome of checking the recipient field.
+export interface RecipientCheck {
+  /// @notice Normalized base58 address, or null when the field is invalid.
+  address: string | null;
+  /// @notice Reason the recipient cannot be used, or null.
+  error: string | null;
+  /// @notice Caution that does not block the transfer (e.g. a PDA recipient), or null.
+  warning: string | null;
+}
+
+/// @notice Outcome of checking the amount field.
+export interface AmountCheck {
+  /// @notice Amount in base units, or null when the field is invalid.
+  amount: bigint | null;
+  /// @notice Reason the amount cannot be sent, or null.
+  error: string | null;
+  /// @notice Whether the amount is valid but more than the sender holds.
+  exceedsBalance: boolean;
+}
+
+/// @notice Validates a recipient as a base58 ed25519 public key, warning when it is off the curve (a program-derived address).
+export function checkRecipient(value: string, owner?: string): RecipientCheck {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return { address: null, error: "Enter a recipient address.", warning: null };
+  }
+  let publicKey: PublicKey;
+  try {
+    publicKey = new PublicKey(trimmed);
+  } catch {
+    return { address: null, error: "Recipient must be a base58 Solana address.", warning: null };
+  }
+  if (owner && trimmed === owner) {
+    return { address: null, error: "Recipient must differ from the sender.", warning: null };
+  }
+  if (!PublicKey.isOnCurve(publicKey.toBytes())) {
+    return {
+      address: trimmed,
+      error: null,
+      warning:
+        "This address is off the ed25519 curve, so it is a program-derived address (PDA) with no private key. Only the owning program can move tokens sent to it.",
+    };
+  }
+  return { address: trimmed, error: null, warning: null };
+}
+
+/// @notice Validates an amount as an exact decimal of the token, within the balance of the sender's associated token account and the sponsor's per-token cap.
+export function checkTransferAmount(
+  value: string,
+  token: TokenInfo,
+  balance: string | null
+): AmountCheck {
+  let amount: bigint;
+  try {
+    amount = parseTokenAmount(value, token.decimals);
+  } catch (error) {
+    return { amount: null, error: (error as Error).message, exceedsBalance: false };
+  }
+  if (amount <= BigInt(0)) {
+    return { amount: null, error: "Amount must be greater than zero.", exceedsBalance: false };
+  }
+  if (amount > BigInt(token.maxTransferAmount)) {
+    return {
+      amount: null,
+      error: `The sponsor covers at most ${formatTokenAmount(
+        token.maxTransferAmount,
+        token.decimals
+      )} ${token.symbol} per transfer.`,
+      exceedsBalance: false,
+    };
+  }
+  if (balance !== null && amount > BigInt(balance)) {
+    return {
+      amount: null,
+      error: `Insufficient ${token.symbol}: User A's token account holds ${formatTokenAmount(
+        balance,
+        token.decimals
+      )}.`,
+      exceedsBalance: true,
+    };
+  }
+  return { amount, error: null, exceedsBalance: false };
+}
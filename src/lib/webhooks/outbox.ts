@@ -0,0 +1,185 @@
+/// @notice Imports filesystem helpers for the single-node file-backed outbox.
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+/// @notice Imports path helpers to resolve the outbox location.
+import path from "path";
+/// @notice Reads store selection from the server environment.
+import { requireServerEnv } from "@/lib/env";
+
+/// @notice Lifecycle of one delivery: retried while `pending`, then `delivered` or, after the last attempt, `failed`.
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+/// @notice One event queued for one endpoint.
+export interface WebhookDelivery {
+  /// @notice Delivery id.
+  id: string;
+  /// @notice Id of the event, shared by its deliveries to every endpoint and sent as `X-Webhook-Id`.
+  eventId: string;
+  /// @notice Endpoint the event is posted to.
+  url: string;
+  /// @notice Serialized event envelope, posted verbatim on every attempt so the signature stays stable.
+  body: string;
+  /// @notice Attempts made so far.
+  attempts: number;
+  /// @notice Current lifecycle stage.
+  status: WebhookDeliveryStatus;
+  /// @notice Unix time in milliseconds of the next attempt while `pending`.
+  nextAttemptAt: number;
+  /// @notice Why the last attempt failed, or null.
+  lastError: string | null;
+  /// @notice Unix time in milliseconds when the delivery was queued.
+  createdAt: number;
+  /// @notice Unix time in milliseconds of the last change.
+  updatedAt: number;
+}
+
+/// @notice Storage contract shared by every outbox backend.
+export interface WebhookOutboxStore {
+  /// @notice Persists new deliveries.
+  enqueue(deliveries: WebhookDelivery[]): Promise<void>;
+  /// @notice Lists pending deliveries due at `now`, oldest first.
+  listDue(now: number, limit: number): Promise<WebhookDelivery[]>;
+  /// @notice Applies a partial update to a delivery and returns it.
+  update(
+    id: string,
+    patch: Partial<Omit<WebhookDelivery, "id">>
+  ): Promise<WebhookDelivery | null>;
+}
+
+/// @notice Finished deliveries older than this are dropped.
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/// @notice Keeps the outbox in process memory; suitable for development.
+export class MemoryWebhookOutboxStore implements WebhookOutboxStore {
+  /// @notice Deliveries keyed by id.
+  protected deliveries = new Map<string, WebhookDelivery>();
+
+  /// @notice Stores new deliveries and drops finished ones past the retention horizon.
+  async enqueue(deliveries: WebhookDelivery[]): Promise<void> {
+    for (const delivery of deliveries) {
+      this.deliveries.set(delivery.id, delivery);
+    }
+    this.prune(Date.now());
+  }
+
+  /// @notice Filters and sorts the in-memory deliveries.
+  async listDue(now: number, limit: number): Promise<WebhookDelivery[]> {
+    return [...this.deliveries.values()]
+      .filter((delivery) => delivery.status === "pending" && delivery.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt - b.nextAttemptAt)
+      .slice(0, limit);
+  }
+
+  /// @notice Merges a patch into an existing delivery.
+  async update(
+    id: string,
+    patch: Partial<Omit<WebhookDelivery, "id">>
+  ): Promise<WebhookDelivery | null> {
+    const current = this.deliveries.get(id);
+    if (!current) {
+      return null;
+    }
+    const next = { ...current, ...patch, updatedAt: patch.updatedAt ?? Date.now() };
+    this.deliveries.set(id, next);
+    return next;
+  }
+
+  /// @notice Drops delivered and failed entries older than the retention horizon.
+  protected prune(now: number) {
+    for (const [id, delivery] of this.deliveries) {
+      if (delivery.status !== "pending" && delivery.updatedAt < now - RETENTION_MS) {
+        this.deliveries.delete(id);
+      }
+    }
+  }
+}
+
+/// @notice Persists the outbox to a JSON file so pending deliveries survive restarts on a single node.
+export class FileWebhookOutboxStore extends MemoryWebhookOutboxStore {
+  /// @notice Absolute path of the JSON file.
+  private readonly filePath: string;
+  /// @notice Resolves once the file has been loaded into memory.
+  private loaded: Promise<void> | null = null;
+  /// @notice Serializes writes so concurrent requests never interleave file contents.
+  private writeChain: Promise<void> = Promise.resolve();
+
+  /// @notice Creates an outbox backed by the given file path.
+  constructor(filePath: string) {
+    super();
+    this.filePath = path.resolve(filePath);
+  }
+
+  /// @notice Stores new deliveries and flushes the file.
+  async enqueue(deliveries: WebhookDelivery[]): Promise<void> {
+    await this.load();
+    await super.enqueue(deliveries);
+    await this.flush();
+  }
+
+  /// @notice Lists due deliveries after loading the file.
+  async listDue(now: number, limit: number): Promise<WebhookDelivery[]> {
+    await this.load();
+    return super.listDue(now, limit);
+  }
+
+  /// @notice Updates a delivery and flushes the file.
+  async update(
+    id: string,
+    patch: Partial<Omit<WebhookDelivery, "id">>
+  ): Promise<WebhookDelivery | null> {
+    await this.load();
+    const next = await super.update(id, patch);
+    if (next) {
+      await this.flush();
+    }
+    return next;
+  }
+
+  /// @notice Reads the file once; a missing file starts an empty outbox.
+  private load() {
+    if (!this.loaded) {
+      this.loaded = readFile(this.filePath, "utf8")
+        .then((contents) => {
+          const deliveries = JSON.parse(contents) as WebhookDelivery[];
+          this.deliveries = new Map(deliveries.map((delivery) => [delivery.id, delivery]));
+        })
+        .catch((error: NodeJS.ErrnoException) => {
+          if (error.code !== "ENOENT") {
+            throw error;
+          }
+        });
+    }
+    return this.loaded;
+  }
+
+  /// @notice Writes the current deliveries atomically (temp file plus rename).
+  private flush() {
+    const snapshot = JSON.stringify([...this.deliveries.values()]);
+    this.writeChain = this.writeChain.catch(() => undefined).then(async () => {
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await writeFile(tempPath, snapshot, "utf8");
+      await rename(tempPath, this.filePath);
+    });
+    return this.writeChain;
+  }
+}
+
+/// @notice Caches the configured outbox for the process lifetime.
+let outboxStore: WebhookOutboxStore | null = null;
+
+/// @notice Returns the outbox selected by `WEBHOOK_OUTBOX_STORE` (`file` by default so pending deliveries survive restarts, or `memory`).
+export function getWebhookOutboxStore(): WebhookOutboxStore {
+  if (!outboxStore) {
+    const kind = requireServerEnv("WEBHOOK_OUTBOX_STORE", "file");
+    if (kind === "file") {
+      outboxStore = new FileWebhookOutboxStore(
+        requireServerEnv("WEBHOOK_OUTBOX_PATH", ".data/webhook-outbox.json")
+      );
+    } else if (kind === "memory") {
+      outboxStore = new MemoryWebhookOutboxStore();
+    } else {
+      throw new Error(`Unsupported WEBHOOK_OUTBOX_STORE "${kind}". Use "memory" or "file".`);
+    }
+  }
+  return outboxStore;
+}
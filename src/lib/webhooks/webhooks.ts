@@ -0,0 +1,221 @@
+/// @notice Imports Node's HMAC, UUID, and constant-time comparison primitives.
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+/// @notice Reads endpoints, secret, and retry settings from the server environment.
+import { readServerEnv, requireNumericServerEnv, requireServerEnv } from "@/lib/env";
+/// @notice Persists deliveries until they succeed or run out of attempts.
+import { getWebhookOutboxStore, type WebhookDelivery } from "@/lib/webhooks/outbox";
+
+/// @notice Events the server publishes.
+export type WebhookEventType =
+  | "sponsorship.requested"
+  | "sponsorship.signed"
+  | "sponsorship.confirmed"
+  | "sponsorship.failed"
+  | "sponsor.low_balance"
+  | "sponsor.health";
+
+/// @notice Envelope posted to every endpoint.
+export interface WebhookEvent<T = unknown> {
+  /// @notice Event id, also sent as `X-Webhook-Id`; receivers should ignore ids they have seen, since a retried event may arrive twice.
+  id: string;
+  /// @notice Event type.
+  type: WebhookEventType;
+  /// @notice Unix time in milliseconds when the event happened.
+  createdAt: number;
+  /// @notice Event-specific payload.
+  data: T;
+}
+
+/// @notice Settings of webhook delivery.
+export interface WebhookConfig {
+  /// @notice Endpoints that receive the sponsorship and sponsor events.
+  urls: string[];
+  /// @notice Attempts per delivery before it is marked failed.
+  maxAttempts: number;
+  /// @notice Time allowed for each attempt, in milliseconds.
+  timeoutMs: number;
+}
+
+/// @notice Header carrying the event id.
+export const WEBHOOK_ID_HEADER = "x-webhook-id";
+
+/// @notice Header carrying the Unix time in seconds at which the attempt was signed.
+export const WEBHOOK_TIMESTAMP_HEADER = "x-webhook-timestamp";
+
+/// @notice Header carrying `v1=` followed by the hex HMAC-SHA256 of `{timestamp}.{body}`.
+export const WEBHOOK_SIGNATURE_HEADER = "x-webhook-signature";
+
+/// @notice First retry delay; each further retry doubles it.
+const BASE_BACKOFF_MS = 10_000;
+
+/// @notice Longest delay between attempts.
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+/// @notice How often the outbox is checked for due retries.
+const DELIVERY_POLL_MS = 5_000;
+
+/// @notice Deliveries attempted at once.
+const DELIVERY_BATCH_SIZE = 20;
+
+/// @notice Reads `WEBHOOK_URLS` (comma separated) and the retry settings.
+export function loadWebhookConfig(): WebhookConfig {
+  return {
+    urls: (readServerEnv("WEBHOOK_URLS") ?? "")
+      .split(",")
+      .map((value) => value.trim())
+      .filter(Boolean),
+    maxAttempts: requireNumericServerEnv("WEBHOOK_MAX_ATTEMPTS", "8"),
+    timeoutMs: requireNumericServerEnv("WEBHOOK_TIMEOUT_MS", "5000"),
+  };
+}
+
+/// @notice Computes the `X-Webhook-Signature` value for a body sent at the given Unix time in seconds.
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `v1=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/// @notice Checks a received webhook: the signature must match and the timestamp must be within the tolerance, which bounds replays.
+export function verifyWebhookSignature(
+  secret: string,
+  timestampHeader: string,
+  body: string,
+  signatureHeader: string,
+  toleranceSeconds = 300,
+  now = Date.now()
+): boolean {
+  const timestamp = Number(timestampHeader);
+  if (!Number.isInteger(timestamp) || Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const provided = Buffer.from(signatureHeader);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/// @notice Queues an event for every endpoint (the configured `WEBHOOK_URLS` unless others are given) and starts delivering it; a failure to queue is logged and never breaks the caller.
+export async function emitWebhookEvent<T>(
+  type: WebhookEventType,
+  data: T,
+  urls = loadWebhookConfig().urls
+) {
+  if (!urls.length) {
+    return;
+  }
+  try {
+    requireServerEnv("WEBHOOK_SECRET");
+    const now = Date.now();
+    const event: WebhookEvent<T> = { id: randomUUID(), type, createdAt: now, data };
+    const body = JSON.stringify(event);
+    await getWebhookOutboxStore().enqueue(
+      urls.map(
+        (url): WebhookDelivery => ({
+          id: randomUUID(),
+          eventId: event.id,
+          url,
+          body,
+          attempts: 0,
+          status: "pending",
+          nextAttemptAt: now,
+          lastError: null,
+          createdAt: now,
+          updatedAt: now,
+        })
+      )
+    );
+    startWebhookDelivery();
+    void deliverDueWebhooks();
+  } catch (error) {
+    console.error(`Webhook event ${type} could not be queued`, error);
+  }
+}
+
+/// @notice Run of the outbox in progress, shared by concurrent callers.
+let deliveryRun: Promise<void> | null = null;
+
+/// @notice Attempts every due delivery, one run at a time per process.
+export function deliverDueWebhooks(): Promise<void> {
+  if (!deliveryRun) {
+    deliveryRun = runDueDeliveries()
+      .catch((error) => console.error("Webhook delivery run failed", error))
+      .finally(() => {
+        deliveryRun = null;
+      });
+  }
+  return deliveryRun;
+}
+
+/// @notice Attempts due deliveries in batches until none is due; without `WEBHOOK_SECRET` nothing was queued, so there is nothing to do.
+async function runDueDeliveries() {
+  const secret = readServerEnv("WEBHOOK_SECRET");
+  if (!secret) {
+    return;
+  }
+  const store = getWebhookOutboxStore();
+  const config = loadWebhookConfig();
+  for (;;) {
+    const due = await store.listDue(Date.now(), DELIVERY_BATCH_SIZE);
+    if (!due.length) {
+      return;
+    }
+    await Promise.all(due.map((delivery) => attemptDelivery(delivery, config, secret)));
+  }
+}
+
+/// @notice Posts one delivery, signed with a fresh timestamp; a failure schedules the next attempt with exponential backoff, or marks the delivery failed after the last one.
+async function attemptDelivery(delivery: WebhookDelivery, config: WebhookConfig, secret: string) {
+  const timestamp = Math.floor(Date.now() / 1000);
+  let error: string;
+  try {
+    const response = await fetch(delivery.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        [WEBHOOK_ID_HEADER]: delivery.eventId,
+        [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(secret, timestamp, delivery.body),
+      },
+      body: delivery.body,
+      cache: "no-store",
+      signal: AbortSignal.timeout(config.timeoutMs),
+    });
+    if (response.ok) {
+      await getWebhookOutboxStore().update(delivery.id, {
+        status: "delivered",
+        attempts: delivery.attempts + 1,
+        lastError: null,
+      });
+      return;
+    }
+    error = `HTTP ${response.status}`;
+  } catch (reason) {
+    error = reason instanceof Error ? reason.message : "Network error";
+  }
+
+  const attempts = delivery.attempts + 1;
+  if (attempts >= config.maxAttempts) {
+    console.error(`Webhook ${delivery.eventId} to ${delivery.url} failed for good: ${error}`);
+    await getWebhookOutboxStore().update(delivery.id, {
+      status: "failed",
+      attempts,
+      lastError: error,
+    });
+    return;
+  }
+  await getWebhookOutboxStore().update(delivery.id, {
+    attempts,
+    lastError: error,
+    nextAttemptAt: Date.now() + Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS),
+  });
+}
+
+/// @notice Background retry timer, started once per process.
+let deliveryTimer: ReturnType<typeof setInterval> | null = null;
+
+/// @notice Starts checking the outbox for due retries, including deliveries left pending by a previous process.
+export function startWebhookDelivery() {
+  if (deliveryTimer) {
+    return;
+  }
+  deliveryTimer = setInterval(() => void deliverDueWebhooks(), DELIVERY_POLL_MS);
+  deliveryTimer.unref?.();
+}
@@ -0,0 +1,41 @@
+/// @notice A wallet's balance of one mint: its associated token account, plus the sum over all its token accounts.
+export interface TokenBalance {
+  /// @notice Mint address.
+  mint: string;
+  /// @notice Balance over every token account of the mint, in base units, as a decimal string.
+  amount: string;
+  /// @notice Balance of the associated token account, the one transfers debit, in base units, as a decimal string.
+  associatedAmount: string;
+  /// @notice Decimals of the mint, or null when the mint could not be read.
+  decimals: number | null;
+}
+
+/// @notice Balances of one requested address, as returned by `/api/balances`.
+export interface AddressBalances {
+  /// @notice Address as requested.
+  address: string;
+  /// @notice SOL balance in lamports, as a decimal string, or null when it could not be read.
+  lamports: string | null;
+  /// @notice Balance of every requested mint; empty when the token accounts could not be read.
+  tokens: TokenBalance[];
+  /// @notice Why some of this address's balances are missing, or null.
+  error: string | null;
+}
+
+/// @notice Decimals of one requested mint, as returned by `/api/balances`.
+export interface MintDecimals {
+  /// @notice Mint address as requested.
+  mint: string;
+  /// @notice Decimals read from the mint account, or null when it could not be read.
+  decimals: number | null;
+  /// @notice Why the mint could not be read, or null.
+  error: string | null;
+}
+
+/// @notice Payload of `/api/balances`.
+export interface BalancesResult {
+  /// @notice One entry per requested address, in request order.
+  balances: AddressBalances[];
+  /// @notice One entry per requested mint, in request order.
+  mints: MintDecimals[];
+}
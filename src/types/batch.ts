@@ -0,0 +1,65 @@
+/// @notice Imports the lifetime used to tell whether an earlier attempt can still land.
+import type { ConfirmationLifetime } from "@/lib/solana/confirmation";
+
+/// @notice One payout row as uploaded: a recipient and an exact decimal amount.
+export interface PayoutRowInput {
+  /// @notice 1-based row number in the uploaded list, kept when rows are sent in groups.
+  row?: number;
+  /// @notice Recipient wallet address.
+  recipient: string;
+  /// @notice Amount in whole tokens, as a decimal string.
+  amount: string;
+}
+
+/// @notice A payout row after validation.
+export interface PlannedPayoutRow {
+  /// @notice 1-based row number in the uploaded list.
+  row: number;
+  /// @notice Recipient wallet address, as uploaded.
+  recipient: string;
+  /// @notice Amount in whole tokens, as uploaded.
+  amount: string;
+  /// @notice Amount in base units, or null when the row is invalid.
+  baseUnits: string | null;
+  /// @notice Reason the row cannot be paid, or null.
+  error: string | null;
+  /// @notice Caution that does not block the row (e.g. a PDA recipient), or null.
+  warning: string | null;
+}
+
+/// @notice How a validated batch is split into sponsored transactions.
+export interface PayoutPlan {
+  /// @notice Hash of the owner, mint, and uploaded rows; the same list always gets the same id.
+  id: string;
+  /// @notice Every uploaded row with its validation result.
+  rows: PlannedPayoutRow[];
+  /// @notice Row numbers packed into each transaction, in signing order.
+  transactions: number[][];
+  /// @notice Sum of the valid rows, in base units.
+  totalAmount: string;
+  /// @notice Reason the batch as a whole cannot run (e.g. User A's balance is too low), or null.
+  error: string | null;
+}
+
+/// @notice Progress of one payout row.
+export type PayoutRowStatus = "invalid" | "pending" | "signing" | "confirmed" | "failed";
+
+/// @notice One broadcast transaction that carried a payout row.
+export interface PayoutAttempt {
+  /// @notice Transaction signature.
+  signature: string;
+  /// @notice How long the transaction can land.
+  lifetime: ConfirmationLifetime;
+}
+
+/// @notice Outcome of one payout row, reported in the batch table.
+export interface PayoutRowResult {
+  /// @notice Current progress of the row.
+  status: PayoutRowStatus;
+  /// @notice Signature of the transaction that carried the row, once submitted.
+  signature: string | null;
+  /// @notice Why the row was rejected or its transaction failed, or null.
+  error: string | null;
+  /// @notice Every transaction broadcast for the row, oldest first; checked on chain before the row is paid again.
+  attempts: PayoutAttempt[];
+}
@@ -0,0 +1,32 @@
+/// @notice Solana clusters the app can target.
+export type ClusterName = "localnet" | "devnet" | "testnet" | "mainnet-beta";
+
+/// @notice Cluster settings chosen by server configuration; server-only, since the RPC endpoints may carry provider keys.
+export interface ClusterConfig {
+  /// @notice Which cluster the app targets.
+  name: ClusterName;
+  /// @notice Human-readable cluster name shown in the header and status copy.
+  label: string;
+  /// @notice JSON-RPC HTTP endpoint.
+  rpcUrl: string;
+  /// @notice JSON-RPC websocket endpoint used for subscriptions.
+  wsUrl: string;
+  /// @notice USDC mint transferred on this cluster.
+  usdcMint: string;
+  /// @notice Explorer URL for a transaction, with `{signature}` as the placeholder.
+  explorerTxUrl: string;
+}
+
+/// @notice The cluster settings the page hands to the browser, which never include the server's RPC endpoints.
+export interface PublicClusterConfig {
+  /// @notice Which cluster the app targets.
+  name: ClusterName;
+  /// @notice Human-readable cluster name shown in the header and status copy.
+  label: string;
+  /// @notice Public websocket endpoint the browser subscribes on.
+  wsUrl: string;
+  /// @notice USDC mint transferred on this cluster.
+  usdcMint: string;
+  /// @notice Explorer URL for a transaction, with `{signature}` as the placeholder.
+  explorerTxUrl: string;
+}
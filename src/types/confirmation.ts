@@ -0,0 +1,33 @@
+/// @notice Stages a broadcast transaction moves through, the two ways it can end without landing, and `unconfirmed` when tracking gave up before it was confirmed (it may still land or be dropped).
+export type ConfirmationStage =
+  | "submitted"
+  | "processed"
+  | "confirmed"
+  | "finalized"
+  | "failed"
+  | "expired"
+  | "unconfirmed";
+
+/// @notice When, and at which slot, a commitment stage was first observed.
+export interface ConfirmationMilestone {
+  /// @notice Slot the stage was observed at.
+  slot: number | null;
+  /// @notice Milliseconds between submission and the stage being observed.
+  elapsedMs: number;
+}
+
+/// @notice Live confirmation state of a broadcast transaction.
+export interface ConfirmationProgress {
+  /// @notice Transaction signature being tracked.
+  signature: string;
+  /// @notice Latest stage observed.
+  stage: ConfirmationStage;
+  /// @notice Most recent slot reported for the transaction.
+  slot: number | null;
+  /// @notice Milliseconds since the transaction was submitted.
+  elapsedMs: number;
+  /// @notice Commitment stages reached so far.
+  milestones: Partial<Record<"processed" | "confirmed" | "finalized", ConfirmationMilestone>>;
+  /// @notice Why the transaction failed, expired, or is unconfirmed, when it is.
+  error: string | null;
+}
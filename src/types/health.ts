@@ -0,0 +1,51 @@
+/// @notice Severity of the sponsor's health: `warn` and `critical` follow the configured balance thresholds, and an unreachable dependency is `critical`.
+export type HealthLevel = "ok" | "warn" | "critical";
+
+/// @notice Reachability of one upstream dependency.
+export interface DependencyHealth {
+  /// @notice Whether the dependency answered the last check.
+  reachable: boolean;
+  /// @notice Time the check took in milliseconds.
+  latencyMs: number;
+  /// @notice Why the check failed, or null.
+  error: string | null;
+}
+
+/// @notice Imports the backends that can hold the developer key.
+import type { SponsorSignerKind } from "@/lib/sponsor/signer";
+
+/// @notice Snapshot of the sponsor's health, as returned by `/api/health`.
+export interface SponsorHealth {
+  /// @notice Overall severity.
+  level: HealthLevel;
+  /// @notice Human-readable reasons for a `warn` or `critical` level; empty when `ok`.
+  issues: string[];
+  /// @notice Reachability of the sponsor signer: the MetaKeep API, or the local keypair file.
+  signer: DependencyHealth & {
+    /// @notice Which backend holds the developer key.
+    kind: SponsorSignerKind;
+  };
+  /// @notice Reachability of Solana RPC through the RPC pool.
+  rpc: DependencyHealth & {
+    /// @notice Pooled endpoints currently in use.
+    healthyEndpoints: number;
+    /// @notice Pooled endpoints configured.
+    totalEndpoints: number;
+  };
+  /// @notice Developer wallet address, or null when the sponsor signer could not be reached.
+  developerWallet: string | null;
+  /// @notice Developer wallet SOL balance in lamports, or null when it could not be read.
+  balanceLamports: number | null;
+  /// @notice Average lamports (fee, priority fee, and rent) of recent sponsored transactions.
+  averageCostLamports: number;
+  /// @notice Confirmed sponsorships the average is taken over; 0 means a default estimate is used.
+  costSampleSize: number;
+  /// @notice Transactions the balance still covers at the average cost, or null when the balance is unknown.
+  runwayTransactions: number | null;
+  /// @notice Balance below which the level is `warn`, in lamports.
+  warnLamports: number;
+  /// @notice Balance below which the level is `critical`, in lamports.
+  criticalLamports: number;
+  /// @notice Unix time in milliseconds the snapshot was taken.
+  checkedAt: number;
+}
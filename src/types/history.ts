@@ -0,0 +1,40 @@
+/// @notice How a transaction moved value relative to the wallet whose history is shown.
+export type TransferDirection = "sent" | "received" | "other";
+
+/// @notice One on-chain transaction of a wallet, as returned by `/api/wallet-history`.
+export interface WalletTransaction {
+  /// @notice Transaction signature.
+  signature: string;
+  /// @notice Slot the transaction landed in.
+  slot: number;
+  /// @notice Unix time in seconds the block was produced, or null when the node does not know it.
+  blockTime: number | null;
+  /// @notice Whether the wallet sent or received value, or neither (for example an account creation).
+  direction: TransferDirection;
+  /// @notice Wallet on the other side of the largest balance change, or null when there is none.
+  counterparty: string | null;
+  /// @notice Mint of the token moved, or null for SOL.
+  mint: string | null;
+  /// @notice Amount the wallet's balance changed by, in base units (lamports for SOL), as an unsigned decimal string.
+  amount: string;
+  /// @notice Decimals of the moved token (9 for SOL).
+  decimals: number;
+  /// @notice Account that paid the network fee.
+  feePayer: string;
+  /// @notice Network fee in lamports.
+  feeLamports: number;
+  /// @notice Whether the developer wallet paid the fee.
+  sponsored: boolean;
+  /// @notice Why the transaction failed, or null when it succeeded.
+  error: string | null;
+}
+
+/// @notice One page of a wallet's history.
+export interface WalletHistoryPage {
+  /// @notice Transactions newest first.
+  transactions: WalletTransaction[];
+  /// @notice Signature to pass as `before` for the next page, or null when there are no more.
+  nextCursor: string | null;
+  /// @notice Token accounts of the wallet whose transfers are not followed, so incoming transfers to them are missing.
+  untrackedTokenAccounts: number;
+}
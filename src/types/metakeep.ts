@@ -1,5 +1,5 @@
-/// @notice Imports the Solana transaction type solely for type-checking MetaKeep's signing surface.
-import type { Transaction } from "@solana/web3.js";
+/// @notice Imports the Solana transaction types solely for type-checking MetaKeep's signing surface.
+import type { Transaction, VersionedTransaction } from "@solana/web3.js";
 
 /// @notice Shapes the response returned by `MetaKeep.getWallet`.
 export interface MetaKeepWalletResponse {
@@ -16,10 +16,16 @@ export interface MetaKeepWalletResponse {
 export interface MetaKeepSDK {
   /// @notice Requests a MetaKeep-managed wallet for the current user.
   getWallet: () => Promise<MetaKeepWalletResponse>;
-  /// @notice Asks MetaKeep to sign a Solana transaction.
+  /// @notice Asks MetaKeep to sign a legacy or versioned (v0) Solana transaction.
   signTransaction: (
-    transaction: Transaction,
-    note?: string
+    transaction: Transaction | VersionedTransaction,
+    reason: string
   ) => Promise<{ signature: string }>;
+  /// @notice Asks MetaKeep to sign a UTF-8 message with User A's key; the signature is hex encoded.
+  signMessage: (message: string, reason: string) => Promise<{ signature: string }>;
 }
 
+/// @notice Constructor of the MetaKeep SDK, as exported by the bundled `metakeep` package.
+export interface MetaKeepConstructor {
+  new (config: { appId: string }): MetaKeepSDK;
+}
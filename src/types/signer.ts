@@ -0,0 +1,42 @@
+/// @notice Imports the Solana transaction types signers accept.
+import type { Transaction, VersionedTransaction } from "@solana/web3.js";
+
+/// @notice Kinds of wallets User A can sign with.
+export type UserSignerKind = "metakeep" | "wallet-standard";
+
+/// @notice A signature produced by a user signer, hex encoded like MetaKeep's.
+export interface UserSignature {
+  /// @notice Ed25519 signature as a hex string.
+  signature: string;
+}
+
+/// @notice A wallet User A signs sponsored transfers and sign-in challenges with.
+export interface UserSigner {
+  /// @notice Which kind of wallet backs the signer.
+  kind: UserSignerKind;
+  /// @notice Wallet name shown in status copy.
+  name: string;
+  /// @notice Connects (or logs in) and returns User A's address, or null when the user declined.
+  getAddress: () => Promise<string | null>;
+  /// @notice Signs a legacy or versioned (v0) transaction as User A without changing it.
+  signTransaction: (
+    transaction: Transaction | VersionedTransaction,
+    reason: string
+  ) => Promise<UserSignature>;
+  /// @notice Signs a UTF-8 message as User A.
+  signMessage: (message: string, reason: string) => Promise<UserSignature>;
+}
+
+/// @notice A wallet the user can pick to connect with.
+export interface UserSignerOption {
+  /// @notice Stable identifier of the option.
+  id: string;
+  /// @notice Which kind of wallet the option connects.
+  kind: UserSignerKind;
+  /// @notice Wallet name shown on the chooser.
+  name: string;
+  /// @notice Wallet icon as a data URI, or null.
+  icon: string | null;
+  /// @notice Creates the signer; nothing is prompted until `getAddress` is called.
+  createSigner: () => UserSigner;
+}
@@ -0,0 +1,130 @@
+/// @notice Mirrors the allowance payload returned by `/api/sponsorship-quota`.
+export interface SponsorshipAllowance {
+  /// @notice Wallet the allowance belongs to.
+  wallet: string;
+  /// @notice Sponsored transactions left in the current window.
+  remainingTransactions: number;
+  /// @notice Configured per-window transaction limit.
+  maxTransactions: number;
+  /// @notice Lamports left for this wallet in the current window.
+  remainingLamports: number;
+  /// @notice Configured per-window lamport budget.
+  maxLamports: number;
+  /// @notice Lamports left in the global daily budget.
+  globalRemainingLamports: number;
+  /// @notice Length of the per-wallet window in seconds.
+  windowSeconds: number;
+  /// @notice Unix time in milliseconds when the oldest charge leaves the window, if any.
+  resetsAt: number | null;
+  /// @notice Whether no further sponsorship is possible right now.
+  exhausted: boolean;
+}
+
+/// @notice Lifecycle stages of a sponsored transaction in the ledger.
+export type SponsorshipStatus = "pending" | "signed" | "submitted" | "confirmed" | "failed";
+
+/// @notice One token transfer carried by a sponsored transaction.
+export interface SponsorshipLeg {
+  /// @notice Recipient wallet (or token account when the owner could not be resolved).
+  recipient: string;
+  /// @notice Mint of the transferred token.
+  mint: string;
+  /// @notice Amount sent to this recipient in base units, as a decimal string.
+  amount: string;
+}
+
+/// @notice One sponsored transaction as stored in the ledger and returned by `/api/sponsorships`.
+export interface SponsorshipRecord {
+  /// @notice Ledger identifier, assigned before the developer wallet signs.
+  id: string;
+  /// @notice Transaction signature once broadcast, otherwise null.
+  signature: string | null;
+  /// @notice User A wallet that requested the sponsorship.
+  userWallet: string;
+  /// @notice First recipient wallet (or token account when the owner could not be resolved); a batch lists every one in `recipients`.
+  recipient: string;
+  /// @notice Mint of the first transfer.
+  mint: string;
+  /// @notice Total transferred across every recipient in base units, as a decimal string.
+  amount: string;
+  /// @notice Every transfer in the transaction, in instruction order, with its own amount.
+  recipients: SponsorshipLeg[];
+  /// @notice Network fee paid by the developer wallet.
+  feeLamports: number;
+  /// @notice Token-account rent paid by the developer wallet.
+  rentLamports: number;
+  /// @notice Priority fee paid by the developer wallet.
+  priorityFeeLamports: number;
+  /// @notice Current lifecycle stage.
+  status: SponsorshipStatus;
+  /// @notice Unix time in milliseconds when the record was created.
+  createdAt: number;
+  /// @notice Unix time in milliseconds of the last status change.
+  updatedAt: number;
+  /// @notice Why the sponsorship failed, when it did.
+  failureReason: string | null;
+}
+
+/// @notice Filters and pagination accepted by `/api/sponsorships`.
+export interface SponsorshipQuery {
+  /// @notice Only records requested by this User A wallet.
+  wallet?: string;
+  /// @notice Only records in this lifecycle stage.
+  status?: SponsorshipStatus;
+  /// @notice Only records moving this mint.
+  mint?: string;
+  /// @notice Page size.
+  limit: number;
+  /// @notice Opaque cursor returned by the previous page.
+  cursor?: string;
+}
+
+/// @notice One page of ledger records.
+export interface SponsorshipPage {
+  /// @notice Records on this page, newest first.
+  records: SponsorshipRecord[];
+  /// @notice Cursor for the next page, or null when there is none.
+  nextCursor: string | null;
+}
+
+/// @notice One instruction of a prepared transaction, decoded for the pre-sign preview.
+export interface InstructionPreview {
+  /// @notice Program the instruction invokes.
+  programId: string;
+  /// @notice Human-readable program name.
+  program: string;
+  /// @notice What the instruction does, in plain words.
+  description: string;
+}
+
+/// @notice Expected balance change of one token account, taken from simulation.
+export interface TokenBalanceChange {
+  /// @notice Whose account this is (for example `User A`).
+  label: string;
+  /// @notice Wallet that owns the token account.
+  owner: string;
+  /// @notice Token account address.
+  account: string;
+  /// @notice Mint of the token account.
+  mint: string;
+  /// @notice Balance before the transaction, in base units.
+  before: string;
+  /// @notice Balance after the transaction, in base units.
+  after: string;
+  /// @notice Decimals of the mint, used to format the amounts.
+  decimals: number;
+  /// @notice Symbol of the mint, shown next to the amounts.
+  symbol: string;
+}
+
+/// @notice Simulated outcome of a prepared transaction, shown before User A signs.
+export interface TransferPreview {
+  /// @notice Decoded instructions in execution order.
+  instructions: InstructionPreview[];
+  /// @notice Expected token balance changes for User A and User B.
+  balanceChanges: TokenBalanceChange[];
+  /// @notice Compute units the simulation consumed.
+  unitsConsumed: number;
+  /// @notice Program logs emitted during simulation.
+  logs: string[];
+}
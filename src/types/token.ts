@@ -0,0 +1,23 @@
+/// @notice Token-2022 transfer fee in effect for the current epoch.
+export interface TokenTransferFee {
+  /// @notice Fee rate in basis points of the transferred amount.
+  basisPoints: number;
+  /// @notice Largest fee charged on one transfer, in base units, as a decimal string.
+  maximumFee: string;
+}
+
+/// @notice A token the developer wallet sponsors transfers of, as listed by `/api/tokens`.
+export interface TokenInfo {
+  /// @notice Mint address.
+  mint: string;
+  /// @notice Display symbol from the registry configuration.
+  symbol: string;
+  /// @notice Decimals read from the mint account.
+  decimals: number;
+  /// @notice Owning token program: SPL Token or Token-2022.
+  programId: string;
+  /// @notice Largest amount, in base units, one sponsored transfer may move, as a decimal string.
+  maxTransferAmount: string;
+  /// @notice Transfer fee withheld from the recipient, or null when the mint charges none.
+  transferFee: TokenTransferFee | null;
+}